@@ -0,0 +1,6 @@
+pragma circom 2.0.0;
+
+include "commitment_hasher.circom";
+
+// Standalone hasher, compiled only to check vectors/commitment.json against the TypeScript library
+component main = CommitmentHasher();
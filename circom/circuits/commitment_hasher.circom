@@ -0,0 +1,33 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/poseidon.circom";
+
+// Note commitment and nullifier hash, mirrored by src/crypto/commitments.ts
+//   commitment    = Poseidon(secret, nullifier, amount, ownerPubKey, spendingKeyHash)
+//   nullifierHash = Poseidon(nullifier, spendingKeyHash)
+// spendingKeyHash = Poseidon(spendSecret) binds the note to its owner's spending key; the withdraw
+// circuit computes it from spendSecret, so the viewing key's secret and nullifier alone cannot spend.
+template CommitmentHasher() {
+    signal input secret;
+    signal input nullifier;
+    signal input amount;
+    signal input ownerPubKey;
+    signal input spendingKeyHash;
+
+    signal output commitment;
+    signal output nullifierHash;
+
+    component commitmentHasher = Poseidon(5);
+    commitmentHasher.inputs[0] <== secret;
+    commitmentHasher.inputs[1] <== nullifier;
+    commitmentHasher.inputs[2] <== amount;
+    commitmentHasher.inputs[3] <== ownerPubKey;
+    commitmentHasher.inputs[4] <== spendingKeyHash;
+
+    component nullifierHasher = Poseidon(2);
+    nullifierHasher.inputs[0] <== nullifier;
+    nullifierHasher.inputs[1] <== spendingKeyHash;
+
+    commitment <== commitmentHasher.out;
+    nullifierHash <== nullifierHasher.out;
+}
@@ -0,0 +1,38 @@
+pragma circom 2.0.0;
+
+include "commitment_hasher.circom";
+
+// Proves a note belongs to whoever holds its spending key, for auditor disclosures.
+// Proves knowledge of (secret, nullifier, ownerPubKey, spendSecret) opening `commitment` with value
+// `amount`, and that `nullifierHash` is the note's, so the auditor can match its withdrawal.
+// secret and nullifier stay private, so the proof cannot be turned into a withdrawal.
+// `account` binds the proof to the disclosing user, so it cannot be copied into another user's bundle.
+template NoteOwnership() {
+    signal input commitment;
+    signal input amount;
+    signal input nullifierHash;
+    signal input account;
+
+    signal input secret;
+    signal input nullifier;
+    signal input ownerPubKey;
+    signal input spendSecret;
+
+    component spendingKeyHasher = Poseidon(1);
+    spendingKeyHasher.inputs[0] <== spendSecret;
+
+    component hasher = CommitmentHasher();
+    hasher.secret <== secret;
+    hasher.nullifier <== nullifier;
+    hasher.amount <== amount;
+    hasher.ownerPubKey <== ownerPubKey;
+    hasher.spendingKeyHash <== spendingKeyHasher.out;
+    hasher.commitment === commitment;
+    hasher.nullifierHash === nullifierHash;
+
+    // See withdraw.circom: unconstrained public inputs would not be bound by the proof
+    signal accountSquare;
+    accountSquare <== account * account;
+}
+
+component main {public [commitment, amount, nullifierHash, account]} = NoteOwnership();
@@ -0,0 +1,62 @@
+pragma circom 2.0.0;
+
+include "../node_modules/circomlib/circuits/bitify.circom";
+include "commitment_hasher.circom";
+include "merkle_tree.circom";
+
+// Spends one whole note from the deposit pool.
+// Proves knowledge of (secret, nullifier, ownerPubKey, spendSecret) for a commitment in the tree with
+// `root`, that `nullifierHash` belongs to that note and that `amount` is the note's value.
+// spendSecret comes from the owner's spending key, which the viewing key does not reveal.
+// recipient, relayer and fee are bound into the proof so a relayer cannot rewrite them.
+template Withdraw(levels) {
+    signal input root;
+    signal input nullifierHash;
+    signal input amount;
+    signal input recipient;
+    signal input relayer;
+    signal input fee;
+
+    signal input secret;
+    signal input nullifier;
+    signal input ownerPubKey;
+    signal input spendSecret;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+
+    component spendingKeyHasher = Poseidon(1);
+    spendingKeyHasher.inputs[0] <== spendSecret;
+
+    component hasher = CommitmentHasher();
+    hasher.secret <== secret;
+    hasher.nullifier <== nullifier;
+    hasher.amount <== amount;
+    hasher.ownerPubKey <== ownerPubKey;
+    hasher.spendingKeyHash <== spendingKeyHasher.out;
+    hasher.nullifierHash === nullifierHash;
+
+    component tree = MerkleTreeChecker(levels);
+    tree.leaf <== hasher.commitment;
+    tree.root <== root;
+    for (var i = 0; i < levels; i++) {
+        tree.pathElements[i] <== pathElements[i];
+        tree.pathIndices[i] <== pathIndices[i];
+    }
+
+    // fee <= amount: both fit in 248 bits, so amount - fee cannot wrap around the field unnoticed
+    component amountBits = Num2Bits(248);
+    amountBits.in <== amount;
+    component feeBits = Num2Bits(248);
+    feeBits.in <== fee;
+    component remainderBits = Num2Bits(248);
+    remainderBits.in <== amount - fee;
+
+    // Public inputs that take no part in the computation still need a constraint,
+    // otherwise the optimiser drops them and the proof would not bind them
+    signal recipientSquare;
+    signal relayerSquare;
+    recipientSquare <== recipient * recipient;
+    relayerSquare <== relayer * relayer;
+}
+
+component main {public [root, nullifierHash, amount, recipient, relayer, fee]} = Withdraw(20);
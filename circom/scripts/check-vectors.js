@@ -0,0 +1,38 @@
+/**
+ * Check vectors/commitment.json against the compiled commitment circuit.
+ * Run `npm run compile:commitment` first.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const buildDir = path.join(__dirname, '..', 'build', 'commitment_js');
+const witnessCalculator = require(path.join(buildDir, 'witness_calculator.js'));
+const { vectors } = require('../vectors/commitment.json');
+
+async function main() {
+  const calculator = await witnessCalculator(fs.readFileSync(path.join(buildDir, 'commitment.wasm')));
+  let failures = 0;
+
+  for (const [i, vector] of vectors.entries()) {
+    // Witness layout: [1, commitment, nullifierHash, ...inputs]
+    const witness = await calculator.calculateWitness(vector.input, 0);
+    const commitment = witness[1].toString();
+    const nullifierHash = witness[2].toString();
+
+    if (commitment !== vector.commitment || nullifierHash !== vector.nullifierHash) {
+      failures++;
+      console.error(`✗ vector ${i}: expected ${vector.commitment}/${vector.nullifierHash}, circuit gave ${commitment}/${nullifierHash}`);
+    } else {
+      console.log(`✓ vector ${i}`);
+    }
+  }
+
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,15 @@
+/**
+ * Print the SHA-256 of every bundled circuit asset in assets/keys.
+ * Paste the output into CIRCUIT_REGISTRY (src/services/circuitRegistry.ts) after rebuilding a circuit.
+ */
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const keysDir = path.join(__dirname, '..', '..', 'assets', 'keys');
+
+for (const file of fs.readdirSync(keysDir).sort()) {
+  if (!/\.(zkey|wasm)$/.test(file)) continue;
+  const digest = crypto.createHash('sha256').update(fs.readFileSync(path.join(keysDir, file))).digest('hex');
+  console.log(`${file}  ${digest}`);
+}
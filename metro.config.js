@@ -2,7 +2,7 @@ const { getDefaultConfig } = require('expo/metro-config');
 
 const config = getDefaultConfig(__dirname);
 
-// Add support for .zkey files
-config.resolver.assetExts.push('zkey');
+// Add support for circuit assets (.zkey proving keys, .wasm witness generators)
+config.resolver.assetExts.push('zkey', 'wasm');
 
 module.exports = config;
@@ -1,13 +1,35 @@
 import { EventEmitter } from 'expo-modules-core';
-import { G1, G2, ProofCalldata, Result } from '..';
+import { CircomProof, CircomProofLib, CircomProofResult } from '..';
 import { Buffer } from 'buffer';
+import { verifyGroth16, VerificationKey } from '../../../src/crypto/groth16';
 
 const emitter = new EventEmitter({} as any);
 
-if (typeof process === 'undefined') {
-  global.process = { browser: true }; // Define process.browser for the web
-} else if (typeof process.browser === 'undefined') {
-  process.browser = true; // Define process.browser if it's not already defined
+// Globals snarkjs reads in the browser; either may be missing before the first proof
+declare global {
+  interface Window {
+    Buffer?: typeof Buffer;
+  }
+  namespace NodeJS {
+    interface Process {
+      browser?: boolean;
+    }
+  }
+}
+
+// snarkjs checks process.browser to pick its web code paths
+if (typeof globalThis.process === 'undefined') {
+  // Browsers have no process at all; snarkjs only reads `browser` from it
+  globalThis.process = { browser: true } as NodeJS.Process;
+} else if (typeof globalThis.process.browser === 'undefined') {
+  globalThis.process.browser = true;
+}
+
+/**
+ * Verification keys are served next to their zkey: `<circuit>_final.zkey` -> `<circuit>_verification_key.json`
+ */
+function verificationKeyPath(zkeyPath: string): string {
+  return zkeyPath.replace(/(_final)?\.zkey$/, '_verification_key.json');
 }
 
 export default {
@@ -15,7 +37,7 @@ export default {
   async setValueAsync(value: string): Promise<void> {
     emitter.emit('onChange', { value });
   },
-  async generateCircomProofWeb(wasmPath: string, zkeyPath: string, circuitInputs: any): Promise<Result> {
+  async generateCircomProofWeb(wasmPath: string, zkeyPath: string, circuitInputs: any): Promise<CircomProofResult> {
 
     Buffer.from('anything', 'base64');
     window.Buffer = window.Buffer || require("buffer").Buffer;
@@ -25,30 +47,40 @@ export default {
     const zkey = await fetch(zkeyPath).then((r) => r.arrayBuffer());
 
     const snarkjsProof = await snarkjs.groth16.fullProve(circuitInputs, new Uint8Array(wasm), new Uint8Array(zkey))
-    const a: G1 = {
-      x: snarkjsProof.proof.pi_a[0],
-      y: snarkjsProof.proof.pi_a[1],
-    }
-    const b: G2 = {
-      x: snarkjsProof.proof.pi_b[0],
-      y: snarkjsProof.proof.pi_b[1],
-    }
-    const c: G1 = {
-      x: snarkjsProof.proof.pi_c[0],
-      y: snarkjsProof.proof.pi_c[1],
-    }
-    const proof: ProofCalldata = {
-      a: a,
-      b: b,
-      c: c,
+    const proof: CircomProof = {
+      a: {
+        x: snarkjsProof.proof.pi_a[0],
+        y: snarkjsProof.proof.pi_a[1],
+        z: snarkjsProof.proof.pi_a[2],
+      },
+      b: {
+        x: snarkjsProof.proof.pi_b[0],
+        y: snarkjsProof.proof.pi_b[1],
+        z: snarkjsProof.proof.pi_b[2],
+      },
+      c: {
+        x: snarkjsProof.proof.pi_c[0],
+        y: snarkjsProof.proof.pi_c[1],
+        z: snarkjsProof.proof.pi_c[2],
+      },
+      protocol: snarkjsProof.proof.protocol,
+      curve: snarkjsProof.proof.curve,
     }
     const inputs: string[] = snarkjsProof.publicSignals;
-    const result: Result = {
+    const result: CircomProofResult = {
       proof: proof,
       inputs: inputs,
     }
     return result;
   },
+  async generateCircomProof(zkeyPath: string, circuitInputs: string, proofLib: CircomProofLib): Promise<CircomProofResult> {
+    throw new Error('generateCircomProof needs the native prover; use generateCircomProofWeb on web');
+  },
+  async verifyCircomProof(zkeyPath: string, proofResult: CircomProofResult, proofLib: CircomProofLib): Promise<boolean> {
+    // Pure TypeScript pairing check, so web needs neither the zkey nor a native verifier
+    const vk: VerificationKey = await fetch(verificationKeyPath(zkeyPath)).then((r) => r.json());
+    return verifyGroth16(vk, proofResult);
+  },
   hello() {
     return 'Hello world! 👋';
   },
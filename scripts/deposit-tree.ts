@@ -0,0 +1,49 @@
+/**
+ * Rebuild the zkETHer deposit tree from chain events and print its state.
+ *
+ *   npm run deposit-tree                 # root, leaf count and known roots
+ *   npm run deposit-tree -- 0xabc...     # plus the authentication path of a commitment
+ *
+ * Env: RPC_URL (default http://127.0.0.1:8545), ZKETHER_TOKEN (default: Anvil entry of src/config/deployments.json)
+ */
+
+import { createPublicClient, http } from 'viem';
+import { foundry } from 'viem/chains';
+import { getDeployment } from '../src/config/deployments';
+import { DepositTree } from '../src/services/depositTree';
+import { computeRootFromPath } from '../src/crypto/merkleTree';
+
+const RPC_URL = process.env.RPC_URL || 'http://127.0.0.1:8545';
+const ZKETHER_TOKEN = (process.env.ZKETHER_TOKEN || getDeployment(foundry.id).contracts.zkETHerToken) as `0x${string}`;
+
+const toHex = (value: bigint) => '0x' + value.toString(16).padStart(64, '0');
+
+async function main() {
+  const client = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+  const depositTree = new DepositTree(client, ZKETHER_TOKEN);
+
+  await depositTree.sync();
+
+  console.log('RPC:          ', RPC_URL);
+  console.log('Token:        ', ZKETHER_TOKEN);
+  console.log('Synced block: ', depositTree.syncedBlock.toString());
+  console.log('Leaves:       ', depositTree.leafCount);
+  console.log('Root:         ', toHex(depositTree.root));
+  console.log('Known roots:  ');
+  depositTree.getKnownRoots().forEach(root => console.log('  ', toHex(root)));
+
+  const commitment = process.argv[2];
+  if (commitment) {
+    const path = depositTree.getPath(commitment);
+    console.log(`\nPath for leaf #${path.leafIndex}:`);
+    path.pathElements.forEach((element, level) =>
+      console.log(`  ${String(level).padStart(2)} ${path.pathIndices[level]} ${toHex(element)}`)
+    );
+    console.log('Path recomputes root:', computeRootFromPath(path) === path.root);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
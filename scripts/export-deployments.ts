@@ -0,0 +1,73 @@
+/**
+ * Build src/config/deployments.json from the forge broadcasts in zkETHer-Protocol/broadcast.
+ *
+ *   cd zkETHer-Protocol && forge script ... --broadcast && cd .. && npm run export-deployments
+ *
+ * Reads run-latest.json of every chain DeployToAnvil.s.sol and DeployProduction.s.sol were broadcast to.
+ * Chains already in the manifest but without a broadcast here are kept, so a Sepolia or mainnet
+ * deployment made on another machine is not lost when the Anvil one is re-exported.
+ */
+
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getAddress } from 'viem';
+import { DeploymentManifest, DeploymentContracts } from '../src/config/deployments';
+
+const BROADCAST_DIR = join(__dirname, '..', 'zkETHer-Protocol', 'broadcast');
+const MANIFEST = join(__dirname, '..', 'src', 'config', 'deployments.json');
+const SCRIPTS = ['DeployToAnvil.s.sol', 'DeployProduction.s.sol'];
+
+// Contract name in the broadcast -> role the app looks it up by
+const ROLES: Record<string, keyof DeploymentContracts> = {
+  SimpleSandboxClaimIssuer: 'claimIssuer',
+  SimplezkETHerToken: 'zkETHerToken',
+  EnhancedzkETHerToken: 'zkETHerToken'
+};
+
+interface BroadcastRun {
+  transactions: { transactionType: string; contractName: string | null; contractAddress: string | null }[];
+  timestamp: number;
+  chain: number;
+  commit: string | null;
+}
+
+function main() {
+  const manifest: DeploymentManifest = existsSync(MANIFEST) ? JSON.parse(readFileSync(MANIFEST, 'utf8')) : {};
+
+  for (const script of SCRIPTS) {
+    const scriptDir = join(BROADCAST_DIR, script);
+    if (!existsSync(scriptDir)) continue;
+
+    for (const chainDir of readdirSync(scriptDir)) {
+      const runFile = join(scriptDir, chainDir, 'run-latest.json');
+      if (!existsSync(runFile)) continue;
+
+      const run = JSON.parse(readFileSync(runFile, 'utf8')) as BroadcastRun;
+      const contracts: Partial<DeploymentContracts> = {};
+      for (const tx of run.transactions) {
+        const role = tx.contractName ? ROLES[tx.contractName] : undefined;
+        if (tx.transactionType === 'CREATE' && role && tx.contractAddress) {
+          contracts[role] = getAddress(tx.contractAddress);
+        }
+      }
+
+      if (!contracts.claimIssuer || !contracts.zkETHerToken) {
+        console.warn(`⚠️ ${script} on chain ${run.chain}: claim issuer or token missing, skipped`);
+        continue;
+      }
+
+      manifest[String(run.chain)] = {
+        script,
+        commit: run.commit,
+        deployedAt: run.timestamp,
+        contracts: contracts as DeploymentContracts
+      };
+      console.log(`📄 Chain ${run.chain} (${script}):`, contracts);
+    }
+  }
+
+  writeFileSync(MANIFEST, JSON.stringify(manifest, null, 2) + '\n');
+  console.log('✅ Wrote', MANIFEST);
+}
+
+main();
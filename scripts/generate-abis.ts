@@ -0,0 +1,45 @@
+/**
+ * Generate src/contracts/abis.ts from the Foundry build artifacts in zkETHer-Protocol/out.
+ *
+ *   cd zkETHer-Protocol && forge build && cd .. && npm run generate-abis
+ *
+ * Every ABI is emitted `as const`, so viem infers function names, argument and return types.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+const OUT_DIR = join(__dirname, '..', 'zkETHer-Protocol', 'out');
+const TARGET = join(__dirname, '..', 'src', 'contracts', 'abis.ts');
+
+// Contract name in out/ -> exported constant
+const CONTRACTS: Record<string, string> = {
+  EnhancedzkETHerToken: 'ENHANCED_ZKETHER_TOKEN_ABI',
+  SimplezkETHerToken: 'SIMPLE_ZKETHER_TOKEN_ABI',
+  SimpleSandboxClaimIssuer: 'SIMPLE_SANDBOX_CLAIM_ISSUER_ABI'
+};
+
+function main() {
+  const sections = Object.entries(CONTRACTS).map(([contract, constant]) => {
+    const artifact = JSON.parse(readFileSync(join(OUT_DIR, `${contract}.sol`, `${contract}.json`), 'utf8'));
+    if (!Array.isArray(artifact.abi)) {
+      throw new Error(`${contract}: artifact has no ABI`);
+    }
+    console.log(`📄 ${contract}: ${artifact.abi.length} entries`);
+    return `/** ${contract} (zkETHer-Protocol/src/${contract}.sol) */\nexport const ${constant} = ${JSON.stringify(artifact.abi, null, 2)} as const;\n`;
+  });
+
+  const header = [
+    '/**',
+    ' * zkETHer contract ABIs',
+    ' * GENERATED by scripts/generate-abis.ts from zkETHer-Protocol/out - do not edit by hand.',
+    ' * Rebuild the contracts and run `npm run generate-abis` after changing them.',
+    ' */',
+    ''
+  ].join('\n');
+
+  writeFileSync(TARGET, `${header}\n${sections.join('\n')}`);
+  console.log('✅ Wrote', TARGET);
+}
+
+main();
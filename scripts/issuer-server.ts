@@ -0,0 +1,295 @@
+/**
+ * Local zkETHer claim issuer for Anvil, speaking the protocol in src/services/issuerProtocol.ts.
+ *
+ *   npm run issuer
+ *
+ * Env: RPC_URL (default http://127.0.0.1:8545), CLAIM_ISSUER (default: Anvil entry of src/config/deployments.json),
+ *      ISSUER_PRIVATE_KEY (default: Anvil account #0, the management key DeployToAnvil.s.sol sets), PORT (default 8547),
+ *      SANDBOX_PRIVATE_KEY (default: Anvil account #0, the sandbox key DeployToAnvil.s.sol sets),
+ *      NAME_MATCH_THRESHOLD (default 0.8, see src/services/identityConsistency.ts)
+ *
+ * The management key lives only here: the app posts the Sandbox verification results and this
+ * service creates the user's ONCHAINID and submits the claim transactions.
+ * It also stands in for Sandbox's response signing: every claim carries a VerificationResponse in the
+ * SandboxAPITypes layout, signed with SANDBOX_PRIVATE_KEY, which the ClaimIssuer checks against sandboxPublicKey.
+ * The zkETHer eligibility claim is only issued when the Aadhaar and PAN names and dates of birth agree.
+ */
+
+import { IncomingMessage, ServerResponse, createServer } from 'http';
+import { createPublicClient, createWalletClient, getAddress, http, isAddress, zeroAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
+import { getDeployment } from '../src/config/deployments';
+import { CLAIM_ISSUER_ABI } from '../src/contracts';
+import {
+  SandboxExtractedData,
+  encodeVerificationResponse,
+  signVerificationResponse
+} from '../src/crypto/sandboxResponses';
+import { DEFAULT_CONSISTENCY_THRESHOLDS, checkIdentityConsistency } from '../src/services/identityConsistency';
+import {
+  ISSUER_PATHS,
+  ISSUER_PROTOCOL_VERSION,
+  IssuedClaim,
+  IssuerInfo,
+  VerificationRequest,
+  VerificationResponse
+} from '../src/services/issuerProtocol';
+
+const RPC_URL = process.env.RPC_URL || 'http://127.0.0.1:8545';
+const CLAIM_ISSUER = (process.env.CLAIM_ISSUER || getDeployment(foundry.id).contracts.claimIssuer) as `0x${string}`;
+const ISSUER_PRIVATE_KEY = (process.env.ISSUER_PRIVATE_KEY ||
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80') as `0x${string}`;
+const SANDBOX_PRIVATE_KEY = (process.env.SANDBOX_PRIVATE_KEY ||
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80') as `0x${string}`;
+const PORT = Number(process.env.PORT || 8547);
+const CONSISTENCY_THRESHOLDS = {
+  ...DEFAULT_CONSISTENCY_THRESHOLDS,
+  nameMatchThreshold: Number(process.env.NAME_MATCH_THRESHOLD || DEFAULT_CONSISTENCY_THRESHOLDS.nameMatchThreshold)
+};
+const MAX_BODY_BYTES = 64 * 1024;
+
+const account = privateKeyToAccount(ISSUER_PRIVATE_KEY);
+const sandboxKey = privateKeyToAccount(SANDBOX_PRIVATE_KEY);
+const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+const walletClient = createWalletClient({ account, chain: foundry, transport: http(RPC_URL) });
+
+type ClaimFunction = 'issueAadhaarClaim' | 'issuePANClaim' | 'issueFaceMatchClaim' | 'issuezkETHerEligibilityClaim';
+
+const CLAIM_VERIFICATION_TYPES: Record<ClaimFunction, string> = {
+  issueAadhaarClaim: 'aadhaar',
+  issuePANClaim: 'pan',
+  issueFaceMatchClaim: 'face_match',
+  issuezkETHerEligibilityClaim: 'zkether_eligibility'
+};
+
+const FULL_CONFIDENCE = 10000n;
+
+// One verification at a time keeps the management key's nonces in order
+let queue: Promise<unknown> = Promise.resolve();
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function parseRequest(body: Partial<VerificationRequest>): VerificationRequest & { userAddress: `0x${string}` } {
+  if (typeof body.userAddress !== 'string' || !isAddress(body.userAddress) || body.userAddress === zeroAddress) {
+    throw new HttpError(400, 'userAddress must be a non-zero address');
+  }
+  if (!body.aadhaarData?.data || !body.panData?.data || !body.faceMatchData?.data) {
+    throw new HttpError(400, 'aadhaarData, panData and faceMatchData are required');
+  }
+  return { ...(body as VerificationRequest), userAddress: getAddress(body.userAddress) };
+}
+
+async function submit(hash: `0x${string}`, hashes: `0x${string}`[]) {
+  hashes.push(hash);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`Transaction ${hash} reverted`);
+  }
+}
+
+/**
+ * Sign a successful Sandbox VerificationResponse for this claim and submit it
+ */
+async function issueClaim(
+  onchainID: `0x${string}`,
+  functionName: ClaimFunction,
+  confidence: bigint,
+  extractedData: SandboxExtractedData,
+  hashes: `0x${string}`[]
+) {
+  const verificationType = CLAIM_VERIFICATION_TYPES[functionName];
+  const response = await signVerificationResponse({
+    verification_id: `${verificationType}_${Date.now()}`,
+    status: 'success',
+    timestamp: BigInt(Math.floor(Date.now() / 1000)),
+    verification_type: verificationType,
+    confidence_score: confidence,
+    extracted_data: extractedData
+  }, sandboxKey);
+
+  const { request } = await publicClient.simulateContract({
+    account,
+    address: CLAIM_ISSUER,
+    abi: CLAIM_ISSUER_ABI,
+    functionName,
+    args: [onchainID, response.verification_id, encodeVerificationResponse(response)]
+  });
+  await submit(await walletClient.writeContract(request), hashes);
+}
+
+async function handleVerification(input: VerificationRequest & { userAddress: `0x${string}` }): Promise<VerificationResponse> {
+  console.log('🎯 Verification for', input.userAddress);
+  const hashes: `0x${string}`[] = [];
+
+  let onchainID = await publicClient.readContract({
+    address: CLAIM_ISSUER,
+    abi: CLAIM_ISSUER_ABI,
+    functionName: 'userToIdentity',
+    args: [input.userAddress]
+  });
+
+  if (onchainID === zeroAddress) {
+    const { request } = await publicClient.simulateContract({
+      account,
+      address: CLAIM_ISSUER,
+      abi: CLAIM_ISSUER_ABI,
+      functionName: 'createIdentity',
+      args: [input.userAddress, input.userAddress]
+    });
+    await submit(await walletClient.writeContract(request), hashes);
+
+    onchainID = await publicClient.readContract({
+      address: CLAIM_ISSUER,
+      abi: CLAIM_ISSUER_ABI,
+      functionName: 'userToIdentity',
+      args: [input.userAddress]
+    });
+    console.log('🆕 OnchainID created:', onchainID);
+  }
+
+  const claims: IssuedClaim[] = [];
+  const { aadhaarData, panData, faceMatchData } = input;
+  const extractedData: SandboxExtractedData = {
+    name: aadhaarData.data.name,
+    aadhaar_number: aadhaarData.data.aadhaar,
+    pan_number: panData.data.pan,
+    dob: aadhaarData.data.dob || panData.data.dob || '',
+    user_address: aadhaarData.data.address || '',
+    father_name: panData.data.father_name || ''
+  };
+  const faceConfidence = BigInt(Math.round(faceMatchData.data.confidence * 10000));
+
+  if (aadhaarData.status === 'success') {
+    await issueClaim(onchainID, 'issueAadhaarClaim', FULL_CONFIDENCE,
+      { ...extractedData, pan_number: '', father_name: '' }, hashes);
+    claims.push('aadhaar_verified');
+  }
+  if (panData.status === 'success') {
+    await issueClaim(onchainID, 'issuePANClaim', FULL_CONFIDENCE,
+      { ...extractedData, name: panData.data.name, aadhaar_number: '', user_address: '' }, hashes);
+    claims.push('pan_verified');
+  }
+  if (faceMatchData.status === 'success' && faceMatchData.data.match) {
+    await issueClaim(onchainID, 'issueFaceMatchClaim', faceConfidence,
+      { name: extractedData.name, aadhaar_number: '', pan_number: '', dob: '', user_address: '', father_name: '' }, hashes);
+    claims.push('face_matched');
+  }
+  const consistency = checkIdentityConsistency({ aadhaar: aadhaarData.data, pan: panData.data }, CONSISTENCY_THRESHOLDS);
+  if (claims.length === 3 && consistency.consistent) {
+    await issueClaim(onchainID, 'issuezkETHerEligibilityClaim', faceConfidence, extractedData, hashes);
+    claims.push('zkether_eligible');
+  } else if (!consistency.consistent) {
+    console.log('⚠️ Aadhaar and PAN disagree, no eligibility claim:', consistency.explanation.join('; '));
+  }
+
+  console.log(`✅ ${input.userAddress}: ${claims.join(', ') || 'no claims'} on ${onchainID}`);
+  return {
+    onchainID,
+    claims,
+    isVerified: claims.length === 4,
+    consistency,
+    transactionHashes: hashes
+  };
+}
+
+async function handleInfo(): Promise<IssuerInfo> {
+  return {
+    version: ISSUER_PROTOCOL_VERSION,
+    issuer: account.address,
+    chainId: await publicClient.getChainId(),
+    claimIssuer: CLAIM_ISSUER,
+    sandboxKey: sandboxKey.address
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function route(req: IncomingMessage): Promise<unknown> {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === ISSUER_PATHS.info) {
+    return handleInfo();
+  }
+  if (req.method === 'POST' && url.pathname === ISSUER_PATHS.verifications) {
+    const input = parseRequest((await readBody(req)) as Partial<VerificationRequest>);
+    const result = queue.then(() => handleVerification(input));
+    queue = result.catch(() => undefined);
+    return result;
+  }
+  throw new HttpError(404, 'Not found');
+}
+
+const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Content-Type', 'application/json');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  try {
+    res.writeHead(200).end(JSON.stringify(await route(req)));
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : 'Internal error';
+    if (status === 500) console.error('💥', error);
+    res.writeHead(status).end(JSON.stringify({ error: message }));
+  }
+});
+
+async function main() {
+  const chainId = await publicClient.getChainId();
+  const code = await publicClient.getBytecode({ address: CLAIM_ISSUER });
+  if (!code || code === '0x') {
+    throw new Error(`No ClaimIssuer deployed at ${CLAIM_ISSUER}`);
+  }
+  const sandboxPublicKey = await publicClient.readContract({
+    address: CLAIM_ISSUER,
+    abi: CLAIM_ISSUER_ABI,
+    functionName: 'sandboxPublicKey'
+  });
+  if (sandboxPublicKey !== sandboxKey.address) {
+    throw new Error(`SANDBOX_PRIVATE_KEY signs as ${sandboxKey.address}, but the ClaimIssuer expects ${sandboxPublicKey}`);
+  }
+
+  server.listen(PORT, () => {
+    console.log('🏛️ zkETHer claim issuer listening on port', PORT);
+    console.log('RPC:         ', RPC_URL, `(chain ${chainId})`);
+    console.log('ClaimIssuer: ', CLAIM_ISSUER);
+    console.log('Issuer key:  ', account.address);
+    console.log('Sandbox key: ', sandboxKey.address);
+  });
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,283 @@
+/**
+ * Local zkETHer relayer for Anvil, speaking the protocol in src/services/relayerProtocol.ts.
+ *
+ *   npm run relayer
+ *
+ * Env: RPC_URL (default http://127.0.0.1:8545), ZKETHER_TOKEN (default: Anvil entry of src/config/deployments.json),
+ *      RELAYER_PRIVATE_KEY (default: Anvil account #1), PORT (default 8546),
+ *      FEE_BPS (default 50), MIN_FEE_WEI (default 0.001 ETH),
+ *      VERIFICATION_KEY (default assets/keys/withdraw_verification_key.json)
+ *
+ * Every proof is verified off-chain before the relayer spends gas on it.
+ * The token's withdraw() burns from and pays msg.sender, so this stand-in fronts the withdrawal:
+ * the relayer account must be identity-verified and hold enough zkETH, it calls withdraw() itself
+ * and then forwards the net amount minus its fee to the recipient bound in the proof.
+ */
+
+import { randomUUID } from 'crypto';
+import { readFileSync } from 'fs';
+import { IncomingMessage, ServerResponse, createServer } from 'http';
+import { createPublicClient, createWalletClient, http, parseEther, zeroAddress } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { foundry } from 'viem/chains';
+import { getDeployment } from '../src/config/deployments';
+import { ZKETHER_TOKEN_ABI } from '../src/contracts';
+import { SNARK_SCALAR_FIELD, toBytes32 } from '../src/crypto/commitments';
+import { VerificationKey, verifyGroth16 } from '../src/crypto/groth16';
+import { DecodedWithdrawal, WithdrawCalldata, decodeWithdrawCalldata } from '../src/crypto/withdraw';
+import { DepositTree } from '../src/services/depositTree';
+import {
+  RELAYER_PATHS,
+  RELAYER_PROTOCOL_VERSION,
+  RelayJob,
+  RelayWithdrawRequest,
+  RelayerQuote
+} from '../src/services/relayerProtocol';
+
+const RPC_URL = process.env.RPC_URL || 'http://127.0.0.1:8545';
+const ZKETHER_TOKEN = (process.env.ZKETHER_TOKEN || getDeployment(foundry.id).contracts.zkETHerToken) as `0x${string}`;
+const RELAYER_PRIVATE_KEY = (process.env.RELAYER_PRIVATE_KEY ||
+  '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d') as `0x${string}`;
+const PORT = Number(process.env.PORT || 8546);
+const FEE_BPS = Number(process.env.FEE_BPS || 50);
+const MIN_FEE_WEI = BigInt(process.env.MIN_FEE_WEI || parseEther('0.001'));
+const VERIFICATION_KEY = process.env.VERIFICATION_KEY || 'assets/keys/withdraw_verification_key.json';
+const QUOTE_TTL_MS = 2 * 60 * 1000;
+const MAX_BODY_BYTES = 64 * 1024;
+
+const account = privateKeyToAccount(RELAYER_PRIVATE_KEY);
+const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+const walletClient = createWalletClient({ account, chain: foundry, transport: http(RPC_URL) });
+const depositTree = new DepositTree(publicClient, ZKETHER_TOKEN);
+const verificationKey = JSON.parse(readFileSync(VERIFICATION_KEY, 'utf8')) as VerificationKey;
+
+const jobs = new Map<string, RelayJob>();
+// One transaction at a time keeps the relayer's nonces in order
+let queue: Promise<void> = Promise.resolve();
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function feeFor(amount: bigint): bigint {
+  const fee = (amount * BigInt(FEE_BPS)) / 10000n;
+  return fee > MIN_FEE_WEI ? fee : MIN_FEE_WEI;
+}
+
+function parseAmount(value: unknown): bigint {
+  if (typeof value !== 'string' || !/^[0-9]+$/.test(value) || BigInt(value) === 0n) {
+    throw new HttpError(400, 'amount must be a positive decimal wei string');
+  }
+  return BigInt(value);
+}
+
+async function handleQuote(url: URL): Promise<RelayerQuote> {
+  const amount = parseAmount(url.searchParams.get('amount'));
+  const fee = feeFor(amount);
+  if (fee >= amount) {
+    throw new HttpError(400, 'Amount does not cover the relayer fee');
+  }
+
+  return {
+    version: RELAYER_PROTOCOL_VERSION,
+    relayer: account.address,
+    chainId: await publicClient.getChainId(),
+    token: ZKETHER_TOKEN,
+    amount: amount.toString(),
+    fee: fee.toString(),
+    feeBps: FEE_BPS,
+    validUntil: Date.now() + QUOTE_TTL_MS
+  };
+}
+
+async function handleWithdraw(body: Partial<RelayWithdrawRequest>): Promise<{ jobId: string }> {
+  const amount = parseAmount(body.amount);
+  if (typeof body.nullifierHash !== 'string' || typeof body.proof !== 'string') {
+    throw new HttpError(400, 'nullifierHash and proof are required');
+  }
+
+  let withdrawal: DecodedWithdrawal;
+  try {
+    withdrawal = decodeWithdrawCalldata({ amount, nullifierHash: body.nullifierHash, proof: body.proof });
+  } catch {
+    throw new HttpError(400, 'Malformed withdrawal proof');
+  }
+
+  // decodeWithdrawCalldata reduces into the field, so n and n + p would pass the checks below as the same
+  // nullifier while the contract stores them as two - only canonical values are checked and submitted
+  if (BigInt(body.nullifierHash) >= SNARK_SCALAR_FIELD || withdrawal.root >= SNARK_SCALAR_FIELD) {
+    throw new HttpError(400, 'nullifierHash and root must be field elements');
+  }
+  const calldata: WithdrawCalldata = { amount, nullifierHash: withdrawal.nullifierHash, proof: body.proof };
+
+  if (withdrawal.relayer !== account.address) {
+    throw new HttpError(400, `Proof is bound to relayer ${withdrawal.relayer}, not ${account.address}`);
+  }
+  if (withdrawal.fee < feeFor(amount)) {
+    throw new HttpError(400, `Fee too low: ${withdrawal.fee} < ${feeFor(amount)}`);
+  }
+  if (withdrawal.recipient === zeroAddress) {
+    throw new HttpError(400, 'Recipient must not be the zero address');
+  }
+
+  const pending = [...jobs.values()].some(
+    job => job.nullifierHash === withdrawal.nullifierHash && job.status !== 'failed'
+  );
+  const spent = await publicClient.readContract({
+    address: ZKETHER_TOKEN,
+    abi: ZKETHER_TOKEN_ABI,
+    functionName: 'nullifierHashes',
+    args: [withdrawal.nullifierHash]
+  });
+  if (pending || spent) {
+    throw new HttpError(409, 'Note already withdrawn');
+  }
+
+  await depositTree.sync();
+  if (!depositTree.getKnownRoots().includes(withdrawal.root)) {
+    throw new HttpError(400, `Unknown Merkle root ${toBytes32(withdrawal.root)}`);
+  }
+  if (!verifyGroth16(verificationKey, withdrawal.proofResult)) {
+    throw new HttpError(400, 'Invalid withdrawal proof');
+  }
+
+  const now = Date.now();
+  const job: RelayJob = {
+    id: randomUUID(),
+    status: 'queued',
+    nullifierHash: withdrawal.nullifierHash,
+    createdAt: now,
+    updatedAt: now
+  };
+  jobs.set(job.id, job);
+  console.log(`📥 Job ${job.id}: ${amount} wei to ${withdrawal.recipient}, fee ${withdrawal.fee}`);
+
+  queue = queue.then(() => relay(job, calldata, withdrawal.recipient, withdrawal.fee));
+  return { jobId: job.id };
+}
+
+async function relay(job: RelayJob, calldata: WithdrawCalldata, recipient: `0x${string}`, fee: bigint) {
+  const update = (changes: Partial<RelayJob>) => Object.assign(job, changes, { updatedAt: Date.now() });
+
+  try {
+    const { request: withdrawTx } = await publicClient.simulateContract({
+      account,
+      address: ZKETHER_TOKEN,
+      abi: ZKETHER_TOKEN_ABI,
+      functionName: 'withdraw',
+      args: [calldata.amount, calldata.nullifierHash, calldata.proof]
+    });
+    const txHash = await walletClient.writeContract(withdrawTx);
+    update({ status: 'submitted', txHash });
+    console.log(`🚀 Job ${job.id}: withdraw ${txHash}`);
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Withdrawal reverted in ${txHash}`);
+    }
+
+    const tds = await publicClient.readContract({
+      address: ZKETHER_TOKEN,
+      abi: ZKETHER_TOKEN_ABI,
+      functionName: 'calculateTDS',
+      args: [calldata.amount]
+    });
+    const payout = calldata.amount - tds - fee;
+    if (payout <= 0n) {
+      throw new Error('Nothing left to pay out after TDS and fee');
+    }
+
+    const payoutTxHash = await walletClient.sendTransaction({ to: recipient, value: payout });
+    const payoutReceipt = await publicClient.waitForTransactionReceipt({ hash: payoutTxHash });
+    update({ status: 'confirmed', payoutTxHash, blockNumber: payoutReceipt.blockNumber.toString() });
+    console.log(`✅ Job ${job.id}: paid ${payout} wei to ${recipient} in ${payoutTxHash}`);
+  } catch (error) {
+    update({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    console.error(`❌ Job ${job.id} failed:`, job.error);
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Body must be JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function route(req: IncomingMessage): Promise<unknown> {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+
+  if (req.method === 'GET' && url.pathname === RELAYER_PATHS.quote) {
+    return handleQuote(url);
+  }
+  if (req.method === 'POST' && url.pathname === RELAYER_PATHS.withdraw) {
+    return handleWithdraw((await readBody(req)) as Partial<RelayWithdrawRequest>);
+  }
+  const jobPrefix = RELAYER_PATHS.job('');
+  if (req.method === 'GET' && url.pathname.startsWith(jobPrefix)) {
+    const job = jobs.get(decodeURIComponent(url.pathname.slice(jobPrefix.length)));
+    if (!job) {
+      throw new HttpError(404, 'Unknown job');
+    }
+    return job;
+  }
+  throw new HttpError(404, 'Not found');
+}
+
+const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Content-Type', 'application/json');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  try {
+    res.writeHead(200).end(JSON.stringify(await route(req)));
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    const message = error instanceof Error ? error.message : 'Internal error';
+    if (status === 500) console.error('💥', error);
+    res.writeHead(status).end(JSON.stringify({ error: message }));
+  }
+});
+
+async function main() {
+  const [chainId, balance] = await Promise.all([
+    publicClient.getChainId(),
+    publicClient.getBalance({ address: account.address })
+  ]);
+
+  server.listen(PORT, () => {
+    console.log('📡 zkETHer relayer listening on port', PORT);
+    console.log('RPC:     ', RPC_URL, `(chain ${chainId})`);
+    console.log('Token:   ', ZKETHER_TOKEN);
+    console.log('Relayer: ', account.address, `(${balance} wei)`);
+    console.log('Fee:     ', `${FEE_BPS} bps, min ${MIN_FEE_WEI} wei`);
+  });
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
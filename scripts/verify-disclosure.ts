@@ -0,0 +1,179 @@
+/**
+ * Open an auditor disclosure bundle and recompute the user's deposits, withdrawals and TDS from chain events.
+ *
+ *   npm run verify-disclosure -- keygen             # new auditor X25519 key pair; hand out the public key
+ *   npm run verify-disclosure -- bundle.json        # decrypt, verify every note and print the report
+ *
+ * Every disclosed note needs an ownership proof for its commitment, amount and nullifier hash made for the
+ * bundle's user, its leaf index in the deposit tree and a Deposit event of the same amount. Withdrawals are
+ * found by the proven nullifier hash. Totals come from the Deposit, Withdrawal and TDSDeducted events. Only
+ * events whose block falls in the bundle's date range are counted. Exits non-zero when any note fails to verify.
+ *
+ * Env: AUDITOR_PRIVATE_KEY (required to open a bundle), RPC_URL (default http://127.0.0.1:8545)
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createPublicClient, formatEther, getAbiItem, http, parseEventLogs } from 'viem';
+import { ZKETHER_TOKEN_ABI } from '../src/contracts';
+import { Hex } from '../src/crypto/commitments';
+import { VerificationKey } from '../src/crypto/groth16';
+import { verifyOwnershipProof } from '../src/crypto/ownership';
+import { DepositTree } from '../src/services/depositTree';
+import { openDisclosureBundle } from '../src/services/disclosureBundle';
+import { generateHexKeyPair } from '../src/services/libsodiumHelper.js';
+
+const RPC_URL = process.env.RPC_URL || 'http://127.0.0.1:8545';
+
+const DEPOSIT_EVENT = getAbiItem({ abi: ZKETHER_TOKEN_ABI, name: 'Deposit' });
+const WITHDRAWAL_EVENT = getAbiItem({ abi: ZKETHER_TOKEN_ABI, name: 'Withdrawal' });
+const OWNERSHIP_VK_FILE = join(__dirname, '..', 'assets', 'keys', 'ownership_verification_key.json');
+
+interface Totals {
+  gross: bigint;
+  tds: bigint;
+  net: bigint;
+  count: number;
+}
+
+const emptyTotals = (): Totals => ({ gross: 0n, tds: 0n, net: 0n, count: 0 });
+
+async function keygen() {
+  const { publicKey, privateKey } = await generateHexKeyPair();
+  console.log('Auditor public key:  ', publicKey);
+  console.log('Auditor private key: ', privateKey);
+  console.log('\nShare the public key with users; keep the private key for AUDITOR_PRIVATE_KEY.');
+}
+
+async function verify(bundleFile: string) {
+  const auditorPrivateKey = process.env.AUDITOR_PRIVATE_KEY;
+  if (!auditorPrivateKey) {
+    throw new Error('Set AUDITOR_PRIVATE_KEY to the auditor private key the bundle was encrypted to');
+  }
+
+  const payload = await openDisclosureBundle(readFileSync(bundleFile, 'utf8'), auditorPrivateKey);
+  const client = createPublicClient({ transport: http(RPC_URL) });
+
+  const chainId = await client.getChainId();
+  if (chainId !== payload.chainId) {
+    throw new Error(`Bundle is for chain ${payload.chainId}, but ${RPC_URL} is chain ${chainId}`);
+  }
+
+  const token = payload.token as `0x${string}`;
+  const from = BigInt(Math.floor(Date.parse(payload.from) / 1000));
+  const to = BigInt(Math.floor(Date.parse(payload.to) / 1000));
+  const inRange = async (blockNumber: bigint) => {
+    const { timestamp } = await client.getBlock({ blockNumber });
+    return timestamp >= from && timestamp <= to ? timestamp : null;
+  };
+  const tdsFor = async (transactionHash: `0x${string}`) => {
+    const receipt = await client.getTransactionReceipt({ hash: transactionHash });
+    const [tdsEvent] = parseEventLogs({ abi: ZKETHER_TOKEN_ABI, eventName: 'TDSDeducted', logs: receipt.logs })
+      .filter(log => log.address.toLowerCase() === token.toLowerCase());
+    return tdsEvent ? tdsEvent.args.tdsAmount : 0n;
+  };
+  const day = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toISOString().slice(0, 10);
+
+  console.log('RPC:       ', RPC_URL);
+  console.log('Token:     ', token);
+  console.log('User:      ', payload.userAddress, payload.onchainId ? `(ONCHAINID ${payload.onchainId})` : '');
+  console.log('Range:     ', payload.from, '->', payload.to);
+  console.log('Notes:     ', payload.notes.length);
+
+  const ownershipVk = JSON.parse(readFileSync(OWNERSHIP_VK_FILE, 'utf8')) as VerificationKey;
+  const depositTree = new DepositTree(client, token);
+  await depositTree.sync();
+
+  // Withdrawal's nullifier hash is not indexed - read every withdrawal since the oldest disclosed deposit once
+  const firstBlock = payload.notes.reduce((min, note) => Math.min(min, note.depositBlock), Number.MAX_SAFE_INTEGER);
+  const withdrawals = await client.getLogs({ address: token, event: WITHDRAWAL_EVENT, fromBlock: BigInt(firstBlock) });
+
+  const deposits = emptyTotals();
+  const withdrawn = emptyTotals();
+  let failures = 0;
+
+  console.log('\nDate        Type        Gross (ETH)           TDS (ETH)             Net (ETH)             Commitment');
+  for (const disclosed of payload.notes) {
+    const fail = (reason: string) => {
+      failures++;
+      console.log(`FAILED      ${disclosed.commitment}: ${reason}`);
+    };
+    const depositBlock = BigInt(disclosed.depositBlock);
+
+    if (!verifyOwnershipProof(ownershipVk, disclosed, payload.userAddress, disclosed.proof)) {
+      fail('ownership proof does not verify');
+      continue;
+    }
+    if (depositTree.indexOf(disclosed.commitment) !== disclosed.leafIndex) {
+      fail(`commitment is not leaf #${disclosed.leafIndex} of the deposit tree`);
+      continue;
+    }
+
+    const depositLog = (await client.getLogs({ address: token, event: DEPOSIT_EVENT, fromBlock: depositBlock, toBlock: depositBlock }))
+      .find(log => (log.args.commitment as string).toLowerCase() === disclosed.commitment.toLowerCase());
+    if (!depositLog) {
+      fail('no Deposit event for this commitment');
+      continue;
+    }
+    if (depositLog.args.amount !== BigInt(disclosed.amount)) {
+      fail(`note amount ${disclosed.amount} does not match the deposit (${depositLog.args.amount})`);
+      continue;
+    }
+
+    const depositTime = await inRange(depositBlock);
+    if (depositTime !== null) {
+      const net = depositLog.args.amount as bigint;
+      const tds = await tdsFor(depositLog.transactionHash);
+      deposits.gross += net + tds;
+      deposits.tds += tds;
+      deposits.net += net;
+      deposits.count++;
+      printRow(day(depositTime), 'deposit', net + tds, tds, net, disclosed.commitment);
+    }
+
+    const withdrawalLog = withdrawals.find(log => (log.args.nullifierHash as string).toLowerCase() === disclosed.nullifierHash.toLowerCase());
+    const withdrawalTime = withdrawalLog && await inRange(withdrawalLog.blockNumber);
+    if (withdrawalLog && withdrawalTime) {
+      const net = withdrawalLog.args.amount as bigint;
+      const tds = await tdsFor(withdrawalLog.transactionHash);
+      withdrawn.gross += net + tds;
+      withdrawn.tds += tds;
+      withdrawn.net += net;
+      withdrawn.count++;
+      printRow(day(withdrawalTime), 'withdrawal', net + tds, tds, net, disclosed.commitment);
+    }
+  }
+
+  console.log('\nDeposits:    ', deposits.count, `gross ${formatEther(deposits.gross)} ETH, TDS ${formatEther(deposits.tds)} ETH, net ${formatEther(deposits.net)} ETH`);
+  console.log('Withdrawals: ', withdrawn.count, `gross ${formatEther(withdrawn.gross)} ETH, TDS ${formatEther(withdrawn.tds)} ETH, net ${formatEther(withdrawn.net)} ETH`);
+  console.log('Total TDS:   ', formatEther(deposits.tds + withdrawn.tds), 'ETH');
+
+  if (failures > 0) {
+    console.error(`\n${failures} disclosed note(s) failed to verify`);
+    process.exit(1);
+  }
+  console.log('\nAll disclosed notes verified against chain events');
+}
+
+function printRow(date: string, type: string, gross: bigint, tds: bigint, net: bigint, commitment: Hex) {
+  const column = (value: bigint) => formatEther(value).padEnd(22);
+  console.log(`${date}  ${type.padEnd(12)}${column(gross)}${column(tds)}${column(net)}${commitment}`);
+}
+
+async function main() {
+  const arg = process.argv[2];
+  if (!arg) {
+    console.error('Usage: npm run verify-disclosure -- keygen | <bundle.json>');
+    process.exit(1);
+  }
+  if (arg === 'keygen') {
+    await keygen();
+  } else {
+    await verify(arg);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+/**
+ * Verify a Groth16 proof against a snarkjs verification key, without native bindings.
+ *
+ *   npm run verify-proof -- assets/keys/withdraw_verification_key.json proof.json            # CircomProofResult JSON
+ *   npm run verify-proof -- assets/keys/withdraw_verification_key.json proof.json public.json # snarkjs proof + public signals
+ *
+ * Exits non-zero when the proof does not verify.
+ */
+
+import { readFileSync } from 'fs';
+import type { CircomProofResult } from '../modules/mopro';
+import { verifyGroth16, VerificationKey } from '../src/crypto/groth16';
+
+const readJson = (file: string) => JSON.parse(readFileSync(file, 'utf8'));
+
+/**
+ * Accept either a CircomProofResult or snarkjs `proof.json` + `public.json`
+ */
+function loadProof(proofFile: string, publicFile?: string): CircomProofResult {
+  const proof = readJson(proofFile);
+  if (!publicFile) {
+    return proof as CircomProofResult;
+  }
+
+  const [ax, ay, az] = proof.pi_a;
+  const [bx, by, bz] = proof.pi_b;
+  const [cx, cy, cz] = proof.pi_c;
+  return {
+    proof: {
+      a: { x: ax, y: ay, z: az },
+      b: { x: bx, y: by, z: bz },
+      c: { x: cx, y: cy, z: cz },
+      protocol: proof.protocol,
+      curve: proof.curve
+    },
+    inputs: readJson(publicFile)
+  };
+}
+
+function main() {
+  const [vkFile, proofFile, publicFile] = process.argv.slice(2);
+  if (!vkFile || !proofFile) {
+    console.error('Usage: verify-proof <verification_key.json> <proof.json> [public.json]');
+    process.exit(2);
+  }
+
+  const vk = readJson(vkFile) as VerificationKey;
+  const proofResult = loadProof(proofFile, publicFile);
+
+  const startTime = Date.now();
+  const isValid = verifyGroth16(vk, proofResult);
+
+  console.log('Public inputs:', proofResult.inputs.length);
+  console.log('Verification time:', Date.now() - startTime, 'ms');
+  console.log(isValid ? '✅ Proof is valid' : '❌ Proof is INVALID');
+  process.exit(isValid ? 0 : 1);
+}
+
+main();
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, Modal, ScrollView, TouchableOpacity, TextInput, Animated, Alert, StyleSheet } from 'react-native';
+import { View, Text, Modal, ScrollView, TouchableOpacity, TextInput, Animated, Alert, StyleSheet, Share } from 'react-native';
 import { Card, CardContent } from './ui/Card';
 import Button from './ui/Button';
 import DotMatrix from './ui/DotMatrix';
@@ -8,6 +8,8 @@ import { useWallet } from '../contexts/WalletContext';
 import { useGasPrice, useEstimateGas } from 'wagmi';
 import { formatEther, parseEther } from 'viem';
 import { colors } from '../styles/colors';
+import { zkETHerTokenService, DepositResult } from '../services/zkETHerTokenService';
+import { serializeNote } from '../services/noteString';
 
 interface DepositFlowProps {
   onClose: () => void;
@@ -23,6 +25,9 @@ export default function DepositFlow({ onClose }: DepositFlowProps) {
   const [transactionHash, setTransactionHash] = useState('');
   const [leafIndex, setLeafIndex] = useState(0);
   const [blockNumber, setBlockNumber] = useState(0);
+  const [depositResult, setDepositResult] = useState<DepositResult | null>(null);
+  const [notePassphrase, setNotePassphrase] = useState('');
+  const [isSharing, setIsSharing] = useState(false);
   const { isKYCCompleted } = useOnboarding();
   const { isConnected, address, balance, walletType } = useWallet();
 
@@ -41,13 +46,38 @@ export default function DepositFlow({ onClose }: DepositFlowProps) {
   const gasFee = gasFeeInWei ? parseFloat(formatEther(gasFeeInWei)) : 0.003; // fallback
   const totalCost = depositAmount + gasFee;
 
-  // Generate mock data
   useEffect(() => {
     if (step === 'commitment') {
-      setNonce(Math.random().toString(36).substring(2, 15));
-      setTransactionHash('0x' + Math.random().toString(16).substring(2, 66));
-      setLeafIndex(Math.floor(Math.random() * 1000) + 100);
-      setBlockNumber(Math.floor(Math.random() * 1000000) + 18000000);
+      // The new commitment takes the next free leaf of the deposit tree
+      zkETHerTokenService.syncDepositTree()
+        .then(tree => setLeafIndex(tree.leafCount))
+        .catch(error => console.error('❌ Failed to sync deposit tree:', error));
+
+      // The note is owned by the recipient's receiving key; its secrets are what we share later
+      zkETHerTokenService.deposit(address || '', depositAmount.toString(), '', recipient.trim())
+        .then(result => {
+          if (!result.success) {
+            throw new Error(result.error);
+          }
+          if (result.noteStoreError) {
+            Alert.alert(
+              'Note Not Saved',
+              `Your deposit went through, but the note could not be saved on this device (${result.noteStoreError}). Scan for notes to recover it.`
+            );
+          }
+          if (result.amountMismatch) {
+            Alert.alert('Deposit Amount Changed', result.amountMismatch);
+          }
+          setDepositResult(result);
+          setNonce(result.commitment.slice(0, 18));
+          setTransactionHash(result.transactionHash);
+          setBlockNumber(result.blockNumber ?? 0);
+        })
+        .catch(error => {
+          console.error('❌ Deposit failed:', error);
+          Alert.alert('Deposit Failed', error instanceof Error ? error.message : 'Unknown error');
+          setStep('form');
+        });
     }
   }, [step]);
 
@@ -98,8 +128,37 @@ export default function DepositFlow({ onClose }: DepositFlowProps) {
     setProgress(0);
   };
 
-  const handleShareNote = () => {
-    setStep('complete');
+  const handleShareNote = async () => {
+    if (!depositResult?.noteSecrets || !depositResult.ownerPublicKey) {
+      Alert.alert('Error', 'No note to share yet');
+      return;
+    }
+
+    setIsSharing(true);
+    try {
+      const chainId = await zkETHerTokenService.getPublicClient().getChainId();
+      const noteString = await serializeNote(
+        {
+          chainId,
+          amount: parseEther(depositResult.netAmount).toString(),
+          secret: depositResult.noteSecrets.secret,
+          nullifier: depositResult.noteSecrets.nullifier,
+          ownerPublicKey: depositResult.ownerPublicKey as `0x${string}`,
+          spendingKeyHash: depositResult.spendingKeyHash as `0x${string}`
+        },
+        notePassphrase || undefined
+      );
+
+      const { action } = await Share.share({ message: noteString });
+      if (action === Share.sharedAction) {
+        setStep('complete');
+      }
+    } catch (error) {
+      console.error('❌ Failed to share note:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to share note');
+    } finally {
+      setIsSharing(false);
+    }
   };
 
   const getCurrentCommitmentStep = () => {
@@ -152,7 +211,7 @@ export default function DepositFlow({ onClose }: DepositFlowProps) {
                   <View style={styles.inputContainer}>
                     <TextInput
                       style={styles.input}
-                      placeholder="Bob's zkETHer Public Key (0x1a2b3c4d...)"
+                      placeholder="Bob's zkETHer Receiving Key (0x1a2b3c4d...)"
                       placeholderTextColor={colors.text.secondary}
                       value={recipient}
                       onChangeText={setRecipient}
@@ -430,7 +489,7 @@ export default function DepositFlow({ onClose }: DepositFlowProps) {
                     
                     <View style={styles.poolSection}>
                       <Text style={styles.poolTitle}>Privacy Pool Status:</Text>
-                      <Text style={styles.poolDetail}>Total Deposits: {leafIndex}</Text>
+                      <Text style={styles.poolDetail}>Total Deposits: {leafIndex + 1}</Text>
                       <Text style={styles.poolDetail}>Anonymity Set: +1 user</Text>
                       <View style={styles.dotMatrixSmall}>
                         <DotMatrix pattern="privacy" size="small" />
@@ -478,10 +537,24 @@ export default function DepositFlow({ onClose }: DepositFlowProps) {
               <Card style={styles.shareCard}>
                 <CardContent style={styles.shareCardContent}>
                   <View style={styles.shareDetails}>
-                    <Text style={styles.shareDetailText}>Amount: 1.00 ETH</Text>
-                    <Text style={styles.shareDetailText}>Nonce: {nonce}</Text>
+                    <Text style={styles.shareDetailText}>Amount: {depositResult?.netAmount || '0'} ETH</Text>
+                    <Text style={styles.shareDetailText}>Commitment: {nonce}...</Text>
                     <Text style={styles.shareDetailText}>Leaf Index: #{leafIndex}</Text>
                   </View>
+
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Passphrase (optional)"
+                    placeholderTextColor={colors.text.secondary}
+                    value={notePassphrase}
+                    onChangeText={setNotePassphrase}
+                    secureTextEntry
+                  />
+                  <Text style={styles.passphraseHint}>
+                    {notePassphrase
+                      ? 'Send the passphrase over a different channel than the note'
+                      : 'Only the recipient can withdraw this note, but without a passphrase anyone who sees it learns the amount and when it is spent'}
+                  </Text>
                   
                   <View style={styles.warningBox}>
                     <Text style={styles.warningTitle}>⚠️ KEEP THIS PRIVATE</Text>
@@ -512,11 +585,11 @@ export default function DepositFlow({ onClose }: DepositFlowProps) {
               </View>
               
               <View style={styles.shareButtons}>
-                <TouchableOpacity style={styles.skipButton} onPress={handleShareNote}>
+                <TouchableOpacity style={styles.skipButton} onPress={() => setStep('complete')}>
                   <Text style={styles.skipText}>SKIP FOR NOW</Text>
                 </TouchableOpacity>
-                <TouchableOpacity style={styles.shareConfirmButton} onPress={handleShareNote}>
-                  <Text style={styles.shareConfirmText}>SHARE</Text>
+                <TouchableOpacity style={styles.shareConfirmButton} onPress={handleShareNote} disabled={isSharing}>
+                  <Text style={styles.shareConfirmText}>{isSharing ? 'ENCRYPTING...' : 'SHARE'}</Text>
                 </TouchableOpacity>
               </View>
             </View>
@@ -545,7 +618,7 @@ export default function DepositFlow({ onClose }: DepositFlowProps) {
                     
                     <View style={styles.privacyStatus}>
                       <Text style={styles.privacyTitleConfirmed}>Privacy Pool Status:</Text>
-                      <Text style={styles.privacyDetail}>Added to anonymity set of {leafIndex} users</Text>
+                      <Text style={styles.privacyDetail}>Added to anonymity set of {leafIndex + 1} users</Text>
                       <View style={styles.dotMatrixSmall}>
                         <DotMatrix pattern="privacy" size="small" />
                       </View>
@@ -1218,6 +1291,11 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     marginBottom: 4,
   },
+  passphraseHint: {
+    fontSize: 10,
+    color: colors.text.secondary,
+    marginTop: 6,
+  },
   warningBox: {
     backgroundColor: '#ef444420',
     borderWidth: 1,
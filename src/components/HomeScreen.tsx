@@ -15,6 +15,7 @@ import { SwapModal } from './SwapModal';
 import { ShieldIcon, SettingsGearIcon } from './ui/Icons';
 import { networkService } from '../services/networkService';
 import { swapService } from '../services/swapService';
+import { noteScanner, ScanProgress } from '../services/noteScanner';
 
 // Pulsing Dot Component for action buttons
 function PulsingDot() {
@@ -67,6 +68,17 @@ export default function HomeScreen() {
   const [showSettings, setShowSettings] = useState(false);
   const [showSwap, setShowSwap] = useState(false);
   const [showCompliance, setShowCompliance] = useState(false);
+  const [scanProgress, setScanProgress] = useState<ScanProgress>(noteScanner.getProgress());
+
+  // Catch up on notes sent to us while the app was closed
+  useEffect(() => {
+    const unsubscribe = noteScanner.subscribe(setScanProgress);
+    noteScanner.scan();
+    return () => {
+      unsubscribe();
+      noteScanner.cancel();
+    };
+  }, []);
   
   // Debug KYC status
   console.log('KYC Status:', isKYCCompleted, 'KYC Data:', kycData);
@@ -128,6 +140,21 @@ export default function HomeScreen() {
     }
   };
   
+  const getScanStatusText = () => {
+    switch (scanProgress.status) {
+      case 'scanning':
+        return `Scanning blocks ${scanProgress.fromBlock}-${scanProgress.toBlock}... ${scanProgress.percent}%`;
+      case 'complete':
+        return `Up to date (block ${scanProgress.toBlock})`;
+      case 'cancelled':
+        return `Paused at block ${scanProgress.scannedBlock}`;
+      case 'error':
+        return `Scan failed: ${scanProgress.error}`;
+      default:
+        return 'Not scanned yet';
+    }
+  };
+
   const getActivityText = (type: string, status: string) => {
     if (type === "deposit") {
       return status === "completed" ? "Deposit completed" : "Deposit pending";
@@ -277,6 +304,45 @@ export default function HomeScreen() {
             </TouchableOpacity>
           </View>
 
+          {/* Note Discovery */}
+          <Card style={styles.scanCard}>
+            <CardContent>
+              <View style={styles.scanHeader}>
+                <Text style={styles.scanTitle}>Incoming Notes</Text>
+                {scanProgress.status === 'scanning' ? (
+                  <TouchableOpacity onPress={() => noteScanner.cancel()}>
+                    <Text style={styles.scanAction}>CANCEL</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <View style={styles.scanActions}>
+                    <TouchableOpacity onPress={() => noteScanner.scan()}>
+                      <Text style={styles.scanAction}>SYNC</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => noteScanner.rescanFromGenesis()}>
+                      <Text style={styles.scanAction}>RESCAN</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+              <Text style={[
+                styles.scanStatus,
+                scanProgress.status === 'error' && styles.scanStatusError
+              ]}>
+                {getScanStatusText()}
+              </Text>
+              {scanProgress.status === 'scanning' && (
+                <View style={styles.scanBar}>
+                  <View style={[styles.scanBarFill, { width: `${scanProgress.percent}%` }]} />
+                </View>
+              )}
+              {scanProgress.notesFound > 0 && (
+                <Text style={styles.scanFound}>
+                  {scanProgress.notesFound} new note{scanProgress.notesFound > 1 ? 's' : ''} found
+                </Text>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Recent Activity */}
           <Card style={styles.activityCard}>
             <CardContent>
@@ -654,6 +720,57 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
   },
   
+  // Note Discovery Styles
+  scanCard: {
+    marginBottom: 24,
+  },
+  scanHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  scanTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+    fontFamily: 'monospace',
+  },
+  scanActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  scanAction: {
+    fontSize: 10,
+    color: colors.accent,
+    fontFamily: 'monospace',
+  },
+  scanStatus: {
+    fontSize: 10,
+    color: colors.text.secondary,
+    fontFamily: 'monospace',
+  },
+  scanStatusError: {
+    color: colors.error,
+  },
+  scanBar: {
+    height: 4,
+    backgroundColor: colors.border,
+    borderRadius: 2,
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  scanBarFill: {
+    height: '100%',
+    backgroundColor: colors.accent,
+  },
+  scanFound: {
+    fontSize: 10,
+    color: colors.accent,
+    fontFamily: 'monospace',
+    marginTop: 8,
+  },
+  
   // Activity Card Styles
   activityCard: {
     marginBottom: 20,
@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
+  Alert,
+  Share,
   View,
   Text,
   StyleSheet,
@@ -8,11 +10,17 @@ import {
   Modal,
   Switch,
   StatusBar,
+  TextInput,
 } from 'react-native';
 import { useOnboarding } from '../contexts/OnboardingContext';
 import { colors } from '../styles/colors';
 import { Card, CardContent } from './ui/Card';
 import DotMatrix from './ui/DotMatrix';
+import { disclosureService } from '../services/disclosureService';
+import { KeyHistoryEntry, secureKeyService } from '../services/secureKeyService';
+import { formatReceivingKey } from '../services/receivingKey';
+import { zkETHerProtocol } from '../services/zkETHerProtocol';
+import { createMnemonic } from '../crypto/keyDerivation';
 import { ArrowLeftIcon, SettingsGearIcon, UserIcon, FileTextIcon, ShieldIcon, LockIcon, DownloadIcon, HelpCircleIcon } from './ui/Icons';
 
 interface SettingsScreenProps {
@@ -20,10 +28,165 @@ interface SettingsScreenProps {
   onClose: () => void;
 }
 
+/**
+ * First day of the current Indian financial year (1 April), as YYYY-MM-DD
+ */
+function financialYearStart(): string {
+  const today = new Date();
+  const year = today.getMonth() >= 3 ? today.getFullYear() : today.getFullYear() - 1;
+  return `${year}-04-01`;
+}
+
 export default function SettingsScreen({ visible, onClose }: SettingsScreenProps) {
-  const { isKYCCompleted, kycData } = useOnboarding();
+  const { isKYCCompleted, kycData, walletAddress } = useOnboarding();
   const [autoDeductTDS, setAutoDeductTDS] = useState(true);
-  const [shareDataWithAuthorities, setShareDataWithAuthorities] = useState(true);
+  const [shareDataWithAuthorities, setShareDataWithAuthorities] = useState(false);
+  const [auditorPublicKey, setAuditorPublicKey] = useState('');
+  const [disclosureFrom, setDisclosureFrom] = useState(financialYearStart());
+  const [disclosureTo, setDisclosureTo] = useState(new Date().toISOString().slice(0, 10));
+  const [isDisclosing, setIsDisclosing] = useState(false);
+  const [keyHistory, setKeyHistory] = useState<KeyHistoryEntry[]>([]);
+  const [isKeyBusy, setIsKeyBusy] = useState(false);
+
+  const activeKey = keyHistory.find(entry => !entry.retiredAt);
+
+  useEffect(() => {
+    if (visible) {
+      secureKeyService.getKeyHistory().then(setKeyHistory);
+      disclosureService.getSettings().then(settings => {
+        setShareDataWithAuthorities(settings.shareWithAuthorities);
+        setAuditorPublicKey(settings.auditorPublicKey || '');
+      });
+    }
+  }, [visible]);
+
+  const handleShareDataToggle = async (value: boolean) => {
+    setShareDataWithAuthorities(value);
+    await disclosureService.updateSettings({ shareWithAuthorities: value });
+  };
+
+  const handleCreateDisclosure = async () => {
+    const from = new Date(`${disclosureFrom}T00:00:00`);
+    const to = new Date(`${disclosureTo}T23:59:59.999`);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      Alert.alert('Invalid Dates', 'Enter the dates as YYYY-MM-DD');
+      return;
+    }
+
+    setIsDisclosing(true);
+    try {
+      const result = await disclosureService.createBundle({
+        userAddress: walletAddress,
+        auditorPublicKey,
+        from,
+        to
+      });
+      if (result.notesSkipped > 0) {
+        Alert.alert('Some Notes Skipped', `${result.notesSkipped} note(s) in this range were not created for your spending key and are not in the bundle.`);
+      }
+      await Share.share({ message: result.bundle });
+    } catch (error) {
+      Alert.alert('Disclosure Failed', error instanceof Error ? error.message : 'Failed to create disclosure bundle');
+    } finally {
+      setIsDisclosing(false);
+    }
+  };
+
+  const rotateKeys = async (newMnemonic?: string) => {
+    setIsKeyBusy(true);
+    try {
+      const result = await zkETHerProtocol.rotatePrivacyKeys(walletAddress, newMnemonic);
+      if (!result.published) {
+        Alert.alert('Key Not Published', `Your keys were rotated, but publishing the new key failed: ${result.error}`);
+      }
+    } catch (error) {
+      Alert.alert('Rotation Failed', error instanceof Error ? error.message : 'Failed to rotate keys');
+    } finally {
+      setKeyHistory(await secureKeyService.getKeyHistory());
+      setIsKeyBusy(false);
+    }
+  };
+
+  // Keys from before recovery phrases rotate onto a new phrase - the user writes it down first
+  const confirmNewRecoveryPhrase = () => {
+    const phrase = createMnemonic();
+    Alert.alert(
+      'Write Down Your Recovery Phrase',
+      `Your new keys are derived from this recovery phrase. It is the only way to recover them on a new phone.\n\n${phrase
+        .split(' ')
+        .map((word, index) => `${index + 1}. ${word}`)
+        .join('   ')}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'I Wrote It Down', onPress: () => rotateKeys(phrase) }
+      ]
+    );
+  };
+
+  const handleRotateKeys = () => {
+    Alert.alert(
+      'Rotate Privacy Keys',
+      'New notes will be encrypted to a new key. Your current key is kept so older notes stay readable.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Rotate',
+          onPress: async () => {
+            if (activeKey && activeKey.derivationIndex === undefined) {
+              confirmNewRecoveryPhrase();
+              return;
+            }
+            await rotateKeys();
+          }
+        }
+      ]
+    );
+  };
+
+  const handleExportViewingKeys = () => {
+    Alert.alert(
+      'Export Viewing Keys',
+      'Anyone holding your viewing keys can see every note and its history, but cannot spend. Only share them with people you trust.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Export',
+          onPress: async () => {
+            try {
+              await Share.share({ message: await secureKeyService.exportViewingKeys() });
+            } catch (error) {
+              Alert.alert('Export Failed', error instanceof Error ? error.message : 'Failed to export viewing keys');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  // Senders create notes for the receiving key, not the bare public key
+  const handleShareReceivingKey = async () => {
+    try {
+      const receivingKey = await secureKeyService.getReceivingKey();
+      if (!receivingKey) return;
+      await Share.share({ message: formatReceivingKey(receivingKey) });
+    } catch (error) {
+      Alert.alert('Share Failed', error instanceof Error ? error.message : 'Failed to share receiving key');
+    } finally {
+      setKeyHistory(await secureKeyService.getKeyHistory());
+    }
+  };
+
+  const handlePublishKey = async () => {
+    setIsKeyBusy(true);
+    try {
+      await zkETHerProtocol.publishPrivacyKey(walletAddress);
+    } catch (error) {
+      Alert.alert('Publish Failed', error instanceof Error ? error.message : 'Failed to publish key');
+    } finally {
+      setKeyHistory(await secureKeyService.getKeyHistory());
+      setIsKeyBusy(false);
+    }
+  };
 
   const handleUpdateKYC = () => {
     // Mock action
@@ -144,20 +307,59 @@ export default function SettingsScreen({ visible, onClose }: SettingsScreenProps
                 <View style={styles.switchContainer}>
                   <View style={styles.switchContent}>
                     <Text style={styles.switchLabel}>Share data with tax authorities</Text>
-                    <Text style={styles.switchDescription}>Required for regulatory compliance</Text>
+                    <Text style={styles.switchDescription}>Create encrypted disclosure bundles for an auditor</Text>
                   </View>
                   <Switch
                     value={shareDataWithAuthorities}
-                    onValueChange={setShareDataWithAuthorities}
-                    disabled={true}
+                    onValueChange={handleShareDataToggle}
                     trackColor={{ false: colors.border, true: colors.accent }}
                     thumbColor={colors.text.primary}
                   />
                 </View>
+
+                {shareDataWithAuthorities && (
+                  <View style={styles.disclosureForm}>
+                    <Text style={styles.detailLabel}>Auditor Public Key:</Text>
+                    <TextInput
+                      style={styles.disclosureInput}
+                      value={auditorPublicKey}
+                      onChangeText={setAuditorPublicKey}
+                      placeholder="0x..."
+                      placeholderTextColor={colors.text.secondary}
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                    <View style={styles.disclosureDates}>
+                      <View style={styles.disclosureDate}>
+                        <Text style={styles.detailLabel}>From:</Text>
+                        <TextInput
+                          style={styles.disclosureInput}
+                          value={disclosureFrom}
+                          onChangeText={setDisclosureFrom}
+                          placeholder="YYYY-MM-DD"
+                          placeholderTextColor={colors.text.secondary}
+                        />
+                      </View>
+                      <View style={styles.disclosureDate}>
+                        <Text style={styles.detailLabel}>To:</Text>
+                        <TextInput
+                          style={styles.disclosureInput}
+                          value={disclosureTo}
+                          onChangeText={setDisclosureTo}
+                          placeholder="YYYY-MM-DD"
+                          placeholderTextColor={colors.text.secondary}
+                        />
+                      </View>
+                    </View>
+                    <TouchableOpacity style={styles.updateButton} onPress={handleCreateDisclosure} disabled={isDisclosing}>
+                      <Text style={styles.updateButtonText}>{isDisclosing ? 'Working...' : 'Create Disclosure Bundle'}</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
                 
                 <View style={styles.mandatoryNotice}>
                   <LockIcon size={12} color={colors.text.secondary} />
-                  <Text style={styles.mandatoryText}>Data sharing with FIU-India is mandatory</Text>
+                  <Text style={styles.mandatoryText}>Bundles are encrypted to the auditor and only open your notes in the chosen dates</Text>
                 </View>
               </CardContent>
             </Card>
@@ -188,6 +390,52 @@ export default function SettingsScreen({ visible, onClose }: SettingsScreenProps
               </CardContent>
             </Card>
 
+            {/* Privacy Keys Section */}
+            {activeKey && (
+              <Card style={styles.sectionCard}>
+                <CardContent style={styles.cardContent}>
+                  <View style={styles.sectionHeader}>
+                    <LockIcon size={16} color={colors.text.primary} />
+                    <Text style={styles.sectionTitle}>Privacy Keys</Text>
+                  </View>
+
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Active Key:</Text>
+                    <Text style={styles.detailValue}>{activeKey.publicKey.slice(0, 10)}...{activeKey.publicKey.slice(-6)}</Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Active Since:</Text>
+                    <Text style={styles.detailValue}>{new Date(activeKey.activatedAt).toLocaleDateString()}</Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>On ONCHAINID:</Text>
+                    <Text style={styles.detailValue}>{activeKey.publishedTxHash ? 'Published' : 'Not published'}</Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Retired Keys:</Text>
+                    <Text style={styles.detailValue}>{keyHistory.length - 1}</Text>
+                  </View>
+
+                  {!activeKey.publishedTxHash && (
+                    <TouchableOpacity style={styles.updateButton} onPress={handlePublishKey} disabled={isKeyBusy}>
+                      <Text style={styles.updateButtonText}>Publish Key</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={[styles.updateButton, styles.keyButton]} onPress={handleShareReceivingKey}>
+                    <Text style={styles.updateButtonText}>Share Receiving Key</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.updateButton, styles.keyButton]} onPress={handleRotateKeys} disabled={isKeyBusy}>
+                    <Text style={styles.updateButtonText}>{isKeyBusy ? 'Working...' : 'Rotate Keys'}</Text>
+                  </TouchableOpacity>
+                  {activeKey.spendingPublicKey && (
+                    <TouchableOpacity style={[styles.updateButton, styles.keyButton]} onPress={handleExportViewingKeys}>
+                      <Text style={styles.updateButtonText}>Export Viewing Keys</Text>
+                    </TouchableOpacity>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
             {/* Export Options Section */}
             <Card style={styles.sectionCard}>
               <CardContent style={styles.cardContent}>
@@ -363,6 +611,9 @@ const styles = StyleSheet.create({
     paddingHorizontal: 16,
     alignItems: 'center',
   },
+  keyButton: {
+    marginTop: 8,
+  },
   updateButtonText: {
     fontSize: 12,
     color: colors.text.primary,
@@ -387,6 +638,27 @@ const styles = StyleSheet.create({
     fontSize: 10,
     color: colors.text.secondary,
   },
+  disclosureForm: {
+    marginBottom: 12,
+  },
+  disclosureInput: {
+    marginTop: 4,
+    marginBottom: 8,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 4,
+    color: colors.text.primary,
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
+  disclosureDates: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  disclosureDate: {
+    flex: 1,
+  },
   mandatoryNotice: {
     flexDirection: 'row',
     alignItems: 'center',
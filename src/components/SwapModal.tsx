@@ -144,9 +144,12 @@ export const SwapModal: React.FC<SwapModalProps> = ({
       }
 
       if (result.success) {
+        const warnings = [result.noteStoreError && `The note could not be saved on this device (${result.noteStoreError}). Scan for notes to recover it.`, result.amountMismatch]
+          .filter(Boolean)
+          .join('\n\n');
         Alert.alert(
           'Swap Successful!',
-          `Transaction hash: ${result.txHash?.slice(0, 10)}...`,
+          `Transaction hash: ${result.txHash?.slice(0, 10)}...${warnings ? `\n\n${warnings}` : ''}`,
           [
             {
               text: 'OK',
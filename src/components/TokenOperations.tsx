@@ -117,7 +117,6 @@ export default function TokenOperations({
     setIsLoading(true);
     try {
       const tdsCalc = zkETHerTokenService.calculateTDS(withdrawAmount);
-      const zkProof = zkETHerTokenService.generateZKProof(userAddress, withdrawAmount, 'withdraw');
       
       Alert.alert(
         'Confirm Withdrawal',
@@ -129,8 +128,7 @@ export default function TokenOperations({
             onPress: async () => {
               const result = await zkETHerTokenService.withdraw(
                 userAddress,
-                withdrawAmount,
-                zkProof
+                withdrawAmount
               );
 
               if (result.success) {
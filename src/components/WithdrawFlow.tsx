@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, TextInput, Animated } from 'react-native';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, TextInput, Animated, Alert } from 'react-native';
 import { colors } from '../styles/colors';
 import { useOnboarding } from '../contexts/OnboardingContext';
 import DotMatrix from './ui/DotMatrix';
 import Card, { CardContent } from './ui/Card';
 import Button from './ui/Button';
 import { ShieldIcon, AlertTriangleIcon } from './ui/Icons';
+import { formatEther } from 'viem';
+import { Note } from '../types/index';
+import { noteStore } from '../services/noteStore';
+import { noteScanner } from '../services/noteScanner';
+import { isPassphraseProtected } from '../services/noteString';
+import { relayerClient } from '../services/relayerClient';
+import { RelayJob, RelayerQuote } from '../services/relayerProtocol';
+import { zkETHerTokenService } from '../services/zkETHerTokenService';
 
 interface WithdrawFlowProps {
   onClose: () => void;
@@ -13,21 +21,59 @@ interface WithdrawFlowProps {
 
 type WithdrawStep = 'note-selection' | 'confirmation' | 'zkproof' | 'relayer' | 'blockchain' | 'complete';
 
-interface MockNote {
-  id: string;
-  amount: number;
+interface NoteView {
+  note: Note;
+  amount: string;
   received: string;
   privacySet: number;
   isRecommended: boolean;
 }
 
+const formatTimeAgo = (timestamp: number) => {
+  const diffInMinutes = Math.floor((Date.now() - timestamp) / (1000 * 60));
+
+  if (diffInMinutes < 60) {
+    return `${diffInMinutes} minute${diffInMinutes === 1 ? '' : 's'} ago`;
+  } else if (diffInMinutes < 1440) {
+    const hours = Math.floor(diffInMinutes / 60);
+    return `${hours} hour${hours > 1 ? 's' : ''} ago`;
+  }
+  const days = Math.floor(diffInMinutes / 1440);
+  return `${days} day${days > 1 ? 's' : ''} ago`;
+};
+
+// Privacy set of a note = deposits made into the pool since (and including) it
+const toNoteViews = (notes: Note[], depositCount: number): NoteView[] => {
+  const views = notes.map(note => ({
+    note,
+    amount: formatEther(BigInt(note.amount)),
+    received: formatTimeAgo(note.depositTimestamp),
+    privacySet: Math.max(depositCount - note.leafIndex, 1),
+    isRecommended: false
+  }));
+
+  if (views.length > 1) {
+    const best = views.reduce((a, b) => (b.privacySet > a.privacySet ? b : a));
+    best.isRecommended = true;
+  }
+  return views;
+};
+
 export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
   const [step, setStep] = useState<WithdrawStep>('note-selection');
-  const [selectedNote, setSelectedNote] = useState<MockNote | null>(null);
+  const [notes, setNotes] = useState<NoteView[]>([]);
+  const [isLoadingNotes, setIsLoadingNotes] = useState(true);
+  const [selectedNote, setSelectedNote] = useState<NoteView | null>(null);
   const [withdrawalAddress, setWithdrawalAddress] = useState('');
   const [progress, setProgress] = useState(0);
   const [transactionHash, setTransactionHash] = useState('');
   const [blockNumber, setBlockNumber] = useState(0);
+  const [noteImport, setNoteImport] = useState('');
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [relayerQuote, setRelayerQuote] = useState<RelayerQuote | null>(null);
+  const [relayerUrl, setRelayerUrl] = useState('');
+  const [relayJob, setRelayJob] = useState<RelayJob | null>(null);
   const { isKYCCompleted } = useOnboarding();
 
   // Animation for the highlighted merkle node
@@ -73,65 +119,136 @@ export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
     }
   }, [step, nodeAnimation, nodeScale]);
 
-  // Mock notes for demonstration
-  const mockNotes: MockNote[] = [
-    {
-      id: '1',
-      amount: 1.0,
-      received: '2 days ago',
-      privacySet: 47293,
-      isRecommended: false
-    },
-    {
-      id: '2', 
-      amount: 1.0,
-      received: '5 hours ago',
-      privacySet: 47295,
-      isRecommended: true
+  const fetchNoteViews = async (): Promise<NoteView[]> => {
+    const [unspent, depositCount] = await Promise.all([
+      noteStore.getUnspentNotes(),
+      zkETHerTokenService.getDepositCount()
+    ]);
+    return toNoteViews(unspent, depositCount);
+  };
+
+  // Load the notes this device owns
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadNotes = async () => {
+      try {
+        const views = await fetchNoteViews();
+        if (!cancelled) setNotes(views);
+      } catch (error) {
+        console.error('❌ Failed to load notes:', error);
+      } finally {
+        if (!cancelled) setIsLoadingNotes(false);
+      }
+    };
+
+    loadNotes();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Add a note someone shared with us as a note string (or scanned QR payload) and select it
+  const handleImportNote = async () => {
+    setIsImporting(true);
+    try {
+      const imported = await noteScanner.importNote(noteImport, importPassphrase || undefined);
+      if (imported.spent) {
+        throw new Error('This note has already been withdrawn');
+      }
+
+      const views = await fetchNoteViews();
+      setNotes(views);
+      setSelectedNote(views.find(view => view.note.commitment === imported.commitment) || null);
+      setNoteImport('');
+      setImportPassphrase('');
+    } catch (error) {
+      console.error('❌ Failed to import note:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setIsImporting(false);
     }
-  ];
+  };
+
+  const remainingNotes = notes.filter(view => view.note.commitment !== selectedNote?.note.commitment);
+  const remainingBalance = remainingNotes.reduce((sum, view) => sum + BigInt(view.note.amount), 0n);
 
   const handleContinue = () => {
     if (!selectedNote || !withdrawalAddress) {
       return;
     }
     setStep('confirmation');
+
+    // Fee preview only - withdrawNote asks again, since quotes expire
+    setRelayerQuote(null);
+    relayerClient.selectRelayer(BigInt(selectedNote.note.amount))
+      .then(({ url, quote }) => {
+        setRelayerUrl(url);
+        setRelayerQuote(quote);
+      })
+      .catch(error => console.warn('⚠️ No relayer quote:', error));
   };
 
-  const handleConfirmWithdrawal = () => {
+  const handleConfirmWithdrawal = async () => {
+    if (!selectedNote) {
+      return;
+    }
     setStep('zkproof');
-    
-    // Generate mock data
-    const mockTxHash = `0x71d46bffa0b648`;
-    const mockBlock = 18500375;
-    
-    setTransactionHash(mockTxHash);
-    setBlockNumber(mockBlock);
-    
-    // Simulate ZK proof generation progress
+    setProgress(0);
+    setRelayJob(null);
+
+    // Proving time is not known up front, so creep towards 95% until the proof is ready
     const progressInterval = setInterval(() => {
-      setProgress(prev => {
-        if (prev >= 100) {
+      setProgress(prev => Math.min(prev + Math.random() * 3, 95));
+    }, 300);
+
+    try {
+      const job = await relayerClient.withdrawNote(selectedNote.note, withdrawalAddress, update => {
+        if (update.relayerUrl) setRelayerUrl(update.relayerUrl);
+        if (update.quote) setRelayerQuote(update.quote);
+
+        if (update.stage === 'submitting') {
           clearInterval(progressInterval);
+          setProgress(100);
           setStep('relayer');
-          
-          // Auto proceed to blockchain after relayer
-          setTimeout(() => {
+        }
+        if (update.job) {
+          setRelayJob(update.job);
+          if (update.job.txHash) {
+            setTransactionHash(update.job.txHash);
             setStep('blockchain');
-            
-            // Auto proceed to complete after blockchain
-            setTimeout(() => {
-              setStep('complete');
-            }, 3000);
-          }, 3000);
-          
-          return 100;
+          }
         }
-        return prev + Math.random() * 6;
       });
-    }, 300);
+
+      setBlockNumber(Number(job.blockNumber || 0));
+      setStep('complete');
+    } catch (error) {
+      console.error('❌ Relayed withdrawal failed:', error);
+      Alert.alert('Withdrawal Failed', error instanceof Error ? error.message : 'Unknown error');
+      setStep('confirmation');
+    } finally {
+      clearInterval(progressInterval);
+    }
   };
 
+  const getRelayStatusText = () => {
+    switch (relayJob?.status) {
+      case 'queued':
+        return 'Proof verified, queued...';
+      case 'submitted':
+        return 'Transaction broadcast...';
+      case 'confirmed':
+        return 'Confirmed';
+      case 'failed':
+        return `Failed: ${relayJob.error}`;
+      default:
+        return 'Validating proof...';
+    }
+  };
+
+  const relayerFee = relayerQuote ? `${formatEther(BigInt(relayerQuote.fee))} ETH` : '—';
+
   const getCurrentZKStep = () => {
     if (progress < 15) return { current: 'Merkle Path Construction', completed: [], pending: ['Merkle Path Construction', 'Nullifier Generation', 'Witness Generation', 'Constraint Satisfaction', 'Groth16 Proving', 'Verification'] };
     if (progress < 30) return { current: 'Nullifier Generation', completed: ['Merkle Path Construction'], pending: ['Nullifier Generation', 'Witness Generation', 'Constraint Satisfaction', 'Groth16 Proving', 'Verification'] };
@@ -163,7 +280,9 @@ export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
               <View style={styles.content}>
                 {/* Available Notes */}
                 <View style={styles.centerSection}>
-                  <Text style={styles.availableNotes}>Available Notes: {mockNotes.length}</Text>
+                  <Text style={styles.availableNotes}>
+                    {isLoadingNotes ? 'Loading notes...' : `Available Notes: ${notes.length}`}
+                  </Text>
                   <View style={styles.dotMatrixCenter}>
                     <DotMatrix pattern="privacy" size="small" />
                   </View>
@@ -171,23 +290,26 @@ export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
 
                 {/* Note Selection */}
                 <View style={styles.notesContainer}>
-                  {mockNotes.map((note) => (
+                  {!isLoadingNotes && notes.length === 0 && (
+                    <Text style={styles.noteReceived}>No notes yet. Deposits sent to your zkETHer key will appear here.</Text>
+                  )}
+                  {notes.map((note) => (
                     <TouchableOpacity
-                      key={note.id}
+                      key={note.note.commitment}
                       style={[
                         styles.noteCard,
-                        selectedNote?.id === note.id && styles.noteCardSelected
+                        selectedNote?.note.commitment === note.note.commitment && styles.noteCardSelected
                       ]}
                       onPress={() => setSelectedNote(note)}
                     >
                       <View style={styles.noteContent}>
                         <View style={[
                           styles.radioButton,
-                          selectedNote?.id === note.id && styles.radioButtonSelected
+                          selectedNote?.note.commitment === note.note.commitment && styles.radioButtonSelected
                         ]} />
                         <View style={styles.noteDetails}>
                           <View style={styles.noteHeader}>
-                            <Text style={styles.noteTitle}>Note #{note.id}</Text>
+                            <Text style={styles.noteTitle}>Note #{note.note.leafIndex}</Text>
                             {note.isRecommended && (
                               <View style={styles.recommendedBadge}>
                                 <Text style={styles.recommendedText}>✓ RECOMMENDED</Text>
@@ -206,6 +328,35 @@ export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
                   ))}
                 </View>
 
+                {/* Import Shared Note */}
+                <View style={styles.addressSection}>
+                  <Text style={styles.addressLabel}>Import Shared Note:</Text>
+                  <TextInput
+                    style={styles.addressInput}
+                    placeholder="zkether-note-v2-..."
+                    value={noteImport}
+                    onChangeText={setNoteImport}
+                    placeholderTextColor={colors.text.secondary}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  {isPassphraseProtected(noteImport) && (
+                    <TextInput
+                      style={[styles.addressInput, styles.importPassphraseInput]}
+                      placeholder="Note passphrase"
+                      value={importPassphrase}
+                      onChangeText={setImportPassphrase}
+                      placeholderTextColor={colors.text.secondary}
+                      secureTextEntry
+                    />
+                  )}
+                  {noteImport.trim().length > 0 && (
+                    <TouchableOpacity style={styles.importButton} onPress={handleImportNote} disabled={isImporting}>
+                      <Text style={styles.importButtonText}>{isImporting ? 'IMPORTING...' : 'IMPORT NOTE'}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+
                 {/* Withdrawal Address */}
                 <View style={styles.addressSection}>
                   <Text style={styles.addressLabel}>Withdraw to Address:</Text>
@@ -246,7 +397,7 @@ export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
               <View style={styles.content}>
                 {/* Withdrawal Details */}
                 <View style={styles.centerSection}>
-                  <Text style={styles.withdrawTitle}>Withdrawing Note #{selectedNote?.id}</Text>
+                  <Text style={styles.withdrawTitle}>Withdrawing Note #{selectedNote?.note.leafIndex}</Text>
                   <Text style={styles.withdrawAmount}>Amount: {selectedNote?.amount} ETH</Text>
                   <Text style={styles.withdrawTo}>To: {withdrawalAddress?.slice(0, 12)}...</Text>
                 </View>
@@ -279,7 +430,7 @@ export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
                     
                     <View style={styles.analysisRow}>
                       <Text style={styles.analysisLabel}>Relayer Fee:</Text>
-                      <Text style={styles.analysisValue}>0.001 ETH</Text>
+                      <Text style={styles.analysisValue}>{relayerFee}</Text>
                     </View>
                   </CardContent>
                 </Card>
@@ -469,9 +620,9 @@ export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
                 </Card>
                 
                 <View style={styles.relayerInfo}>
-                  <Text style={styles.relayerDetail}>Relayer: zkether-relay-03</Text>
-                  <Text style={styles.relayerStatus}>Status: Validating proof...</Text>
-                  <Text style={styles.relayerFee}>Fee: 0.001 ETH</Text>
+                  <Text style={styles.relayerDetail}>Relayer: {relayerUrl.replace(/^https?:\/\//, '')}</Text>
+                  <Text style={styles.relayerStatus}>Status: {getRelayStatusText()}</Text>
+                  <Text style={styles.relayerFee}>Fee: {relayerFee}</Text>
                   
                   <View style={styles.privacyProtection}>
                     <View style={styles.protectionItem}>
@@ -559,8 +710,8 @@ export default function WithdrawFlow({ onClose }: WithdrawFlowProps) {
                 
                 <View style={styles.balanceUpdate}>
                   <Text style={styles.balanceTitle}>Updated Balance:</Text>
-                  <Text style={styles.balanceAmount}>1.00 ETH UNLINKABLE</Text>
-                  <Text style={styles.balanceNote}>(1 note remaining)</Text>
+                  <Text style={styles.balanceAmount}>{parseFloat(formatEther(remainingBalance)).toFixed(2)} ETH UNLINKABLE</Text>
+                  <Text style={styles.balanceNote}>({remainingNotes.length} note{remainingNotes.length === 1 ? '' : 's'} remaining)</Text>
                 </View>
                 
                 <View style={styles.transactionDetails}>
@@ -751,6 +902,22 @@ const styles = StyleSheet.create({
     borderColor: colors.border,
     fontFamily: 'monospace',
   },
+  importPassphraseInput: {
+    marginTop: 8,
+  },
+  importButton: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: 6,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  importButtonText: {
+    fontSize: 12,
+    color: colors.accent,
+    fontFamily: 'monospace',
+  },
   continueButton: {
     width: '100%',
     marginTop: 20,
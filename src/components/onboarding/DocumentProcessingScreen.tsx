@@ -1,24 +1,62 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { View, Text, StyleSheet, Animated } from 'react-native';
 import { globalStyles } from '../../styles/globalStyles';
 import { colors } from '../../styles/colors';
 import { Card, CardContent } from '../ui/Card';
-import { sandboxApiService } from '../../services/sandboxApi';
-import { zkETHerProtocol } from '../../services/zkETHerProtocol';
+import Button from '../ui/Button';
+import { useOnboarding } from '../../contexts/OnboardingContext';
+import {
+  kycPipeline,
+  KycFailureReason,
+  KycImages,
+  KycPipelineStep,
+  KycProgress,
+  KycStepFailure,
+  KycStepStatus,
+  KycSubject
+} from '../../services/kycPipeline';
 
 interface DocumentProcessingScreenProps {
   onComplete: (extractedData: any) => void;
 }
 
 interface ProcessingStep {
-  id: string;
+  id: KycPipelineStep;
   label: string;
-  status: 'pending' | 'processing' | 'completed';
+  status: KycStepStatus;
 }
 
+const STEP_LABELS: Record<KycPipelineStep, string> = {
+  aadhaar: 'Aadhaar verification with Sandbox API',
+  pan: 'PAN verification with Sandbox API',
+  faceMatch: 'Face match verification',
+  claims: 'Creating OnchainID with claims',
+};
+
+// What the user can do about each failure
+const FAILURE_HINTS: Record<KycFailureReason, string> = {
+  aadhaar_not_found: 'Check the Aadhaar number on your document and try again.',
+  pan_invalid: 'Check your PAN number and date of birth.',
+  pan_name_mismatch: 'Your PAN and Aadhaar names must match. Update the name on one of them and retry.',
+  dob_mismatch: 'Your PAN and Aadhaar dates of birth must match. Check the date of birth you entered.',
+  face_mismatch: 'Retake your selfie facing the camera in good light.',
+  face_low_confidence: 'Retake your selfie facing the camera in good light.',
+  provider_timeout: 'The verification service did not respond. Try again.',
+  provider_error: 'The verification service returned an error. Try again.',
+  claims_incomplete: 'Some claims were not issued. Try again.',
+  claim_issuance_failed: 'Could not reach the claim issuer. Try again.',
+};
+
+// Document images are not wired through from the upload screens yet
+const KYC_IMAGES: KycImages = {
+  aadhaarPhoto: 'mock_aadhaar_photo_base64',
+  selfieImage: 'mock_selfie_base64',
+};
+
 export default function DocumentProcessingScreen({ onComplete }: DocumentProcessingScreenProps) {
-  const [progress, setProgress] = useState(0);
-  const [currentStep, setCurrentStep] = useState(0);
+  const { walletAddress } = useOnboarding();
+  const [failure, setFailure] = useState<KycStepFailure | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
   const [extractedData] = useState({
     name: 'Rajesh Kumar Singh',
     dob: '15/01/1990',
@@ -27,15 +65,85 @@ export default function DocumentProcessingScreen({ onComplete }: DocumentProcess
     address: '123 MG Road, Bangalore, Karnataka 560001',
   });
 
-  const [steps, setSteps] = useState<ProcessingStep[]>([
-    { id: '1', label: 'Aadhaar verification with Sandbox API', status: 'pending' },
-    { id: '2', label: 'PAN verification with Sandbox API', status: 'pending' },
-    { id: '3', label: 'Face match verification', status: 'pending' },
-    { id: '4', label: 'Creating OnchainID with claims', status: 'pending' },
-  ]);
+  const [steps, setSteps] = useState<ProcessingStep[]>(
+    (Object.keys(STEP_LABELS) as KycPipelineStep[]).map(id => ({ id, label: STEP_LABELS[id], status: 'pending' }))
+  );
 
-  const progressIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const loadingAnim = useRef(new Animated.Value(0)).current;
+  const currentStepRef = useRef<KycPipelineStep>('aadhaar');
+
+  const subject: KycSubject = {
+    userAddress: walletAddress,
+    name: extractedData.name,
+    dob: extractedData.dob,
+    aadhaarNumber: extractedData.aadhaar,
+    panNumber: extractedData.pan,
+  };
+
+  const handleStep = useCallback((stepId: KycPipelineStep, status: KycStepStatus) => {
+    currentStepRef.current = stepId;
+    setSteps(prevSteps =>
+      prevSteps.map(step => step.id === stepId ? { ...step, status } : step)
+    );
+  }, []);
+
+  const finish = useCallback((progress: KycProgress) => {
+    setSteps(prevSteps => {
+      const statuses = kycPipeline.getStepStatuses(progress);
+      return prevSteps.map(step => ({ ...step, status: statuses[step.id] }));
+    });
+
+    if (progress.failure) {
+      setFailure(progress.failure);
+      return;
+    }
+
+    console.log('✅ KYC processing completed successfully!', {
+      onchainId: progress.claims!.onchainID,
+      isVerified: progress.claims!.isVerified
+    });
+
+    // Complete with enhanced data including OnchainID
+    const enhancedData = {
+      ...extractedData,
+      onchainId: progress.claims!.onchainID,
+      verificationResults: {
+        aadhaar: progress.aadhaar,
+        pan: progress.pan,
+        faceMatch: progress.faceMatch,
+        zkETHerEligibility: progress.eligibility
+      },
+      claims: progress.claims!.claims,
+      isFullyVerified: progress.claims!.isVerified
+    };
+
+    setTimeout(() => {
+      onComplete(enhancedData);
+    }, 1500);
+  }, [onComplete, extractedData]);
+
+  const processKYC = useCallback(async (retryStep?: KycPipelineStep) => {
+    setFailure(null);
+    setIsRunning(true);
+    try {
+      console.log('🔄 Starting KYC processing with zkETHer Protocol integration...');
+      // Steps that succeeded in an earlier attempt are not repeated
+      const progress = retryStep
+        ? await kycPipeline.retry(retryStep, subject, KYC_IMAGES, handleStep)
+        : await kycPipeline.run(subject, KYC_IMAGES, handleStep);
+      finish(progress);
+    } catch (error) {
+      console.error('❌ KYC processing failed:', error);
+      setFailure({
+        step: currentStepRef.current,
+        reason: 'provider_error',
+        message: error instanceof Error ? error.message : String(error),
+        failedAt: Date.now()
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  }, [subject, handleStep, finish]);
 
   useEffect(() => {
     // Start loading animation
@@ -47,132 +155,9 @@ export default function DocumentProcessingScreen({ onComplete }: DocumentProcess
       })
     ).start();
 
-    // Start real KYC processing with mock services
-    const processKYC = async () => {
-      try {
-        console.log('🔄 Starting KYC processing with zkETHer Protocol integration...');
-        
-        // Step 1: Aadhaar verification
-        setSteps(prevSteps => 
-          prevSteps.map((step, index) => 
-            index === 0 ? { ...step, status: 'processing' } : step
-          )
-        );
-        
-        const aadhaarResult = await sandboxApiService.verifyAadhaar(
-          extractedData.aadhaar.replace(/\s/g, ''), 
-          extractedData.name
-        );
-        
-        setSteps(prevSteps => 
-          prevSteps.map((step, index) => 
-            index === 0 ? { ...step, status: 'completed' } : step
-          )
-        );
-        setProgress(25);
-
-        // Step 2: PAN verification
-        setSteps(prevSteps => 
-          prevSteps.map((step, index) => 
-            index === 1 ? { ...step, status: 'processing' } : step
-          )
-        );
-        
-        const panResult = await sandboxApiService.verifyPAN(
-          extractedData.pan,
-          extractedData.name
-        );
-        
-        setSteps(prevSteps => 
-          prevSteps.map((step, index) => 
-            index === 1 ? { ...step, status: 'completed' } : step
-          )
-        );
-        setProgress(50);
-
-        // Step 3: Face match verification
-        setSteps(prevSteps => 
-          prevSteps.map((step, index) => 
-            index === 2 ? { ...step, status: 'processing' } : step
-          )
-        );
-        
-        const faceMatchResult = await sandboxApiService.verifyFaceMatch(
-          'mock_aadhaar_photo_base64',
-          'mock_selfie_base64'
-        );
-        
-        setSteps(prevSteps => 
-          prevSteps.map((step, index) => 
-            index === 2 ? { ...step, status: 'completed' } : step
-          )
-        );
-        setProgress(75);
-
-        // Step 4: Create OnchainID with claims
-        setSteps(prevSteps => 
-          prevSteps.map((step, index) => 
-            index === 3 ? { ...step, status: 'processing' } : step
-          )
-        );
-
-        const zkETHerEligibility = await sandboxApiService.checkzkETHerEligibility('0x1234567890123456789012345678901234567890');
-        
-        // Create OnchainID and issue all claims using zkETHer Protocol
-        const onchainResult = await zkETHerProtocol.processKYCVerification({
-          userAddress: '0x1234567890123456789012345678901234567890', // Mock user address
-          aadhaarData: aadhaarResult,
-          panData: panResult,
-          faceMatchData: faceMatchResult
-        });
-
-        setSteps(prevSteps => 
-          prevSteps.map((step, index) => 
-            index === 3 ? { ...step, status: 'completed' } : step
-          )
-        );
-        setProgress(100);
-
-        console.log('✅ KYC processing completed successfully!', {
-          onchainId: onchainResult.onchainID,
-          isVerified: onchainResult.isVerified
-        });
-
-        // Complete with enhanced data including OnchainID
-        const enhancedData = {
-          ...extractedData,
-          onchainId: onchainResult.onchainID,
-          verificationResults: {
-            aadhaar: aadhaarResult,
-            pan: panResult,
-            faceMatch: faceMatchResult,
-            zkETHerEligibility: zkETHerEligibility
-          },
-          claims: onchainResult.claims,
-          isFullyVerified: onchainResult.isVerified
-        };
-
-        setTimeout(() => {
-          onComplete(enhancedData);
-        }, 1500);
-
-      } catch (error) {
-        console.error('❌ KYC processing failed:', error);
-        // Fallback to mock data on error
-        setTimeout(() => {
-          onComplete(extractedData);
-        }, 1500);
-      }
-    };
-
     processKYC();
-
-    return () => {
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-      }
-    };
-  }, [onComplete, extractedData]);
+    // Run once on mount; retries are started from the failure card
+  }, []);
 
   const getStatusIcon = (status: ProcessingStep['status']) => {
     switch (status) {
@@ -180,6 +165,8 @@ export default function DocumentProcessingScreen({ onComplete }: DocumentProcess
         return '✓';
       case 'processing':
         return '⏳';
+      case 'failed':
+        return '✗';
       default:
         return '⏳';
     }
@@ -191,6 +178,8 @@ export default function DocumentProcessingScreen({ onComplete }: DocumentProcess
         return colors.accent;
       case 'processing':
         return '#fbbf24';
+      case 'failed':
+        return colors.error;
       default:
         return colors.text.secondary;
     }
@@ -262,10 +251,25 @@ export default function DocumentProcessingScreen({ onComplete }: DocumentProcess
         </Card>
 
         {/* Verification Status */}
-        <View style={styles.statusContainer}>
-          <Text style={styles.statusIcon}>🔄</Text>
-          <Text style={styles.statusText}>Verifying with government APIs...</Text>
-        </View>
+        {failure ? (
+          <Card style={styles.failureCard}>
+            <CardContent>
+              <Text style={styles.failureTitle}>{STEP_LABELS[failure.step]} failed</Text>
+              <Text style={styles.failureText}>{failure.message}</Text>
+              <Text style={styles.failureText}>{FAILURE_HINTS[failure.reason]}</Text>
+              <Button
+                title="Retry this step"
+                onPress={() => processKYC(failure.step)}
+                loading={isRunning}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <View style={styles.statusContainer}>
+            <Text style={styles.statusIcon}>🔄</Text>
+            <Text style={styles.statusText}>Verifying with government APIs...</Text>
+          </View>
+        )}
       </View>
     </View>
   );
@@ -363,6 +367,25 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     fontFamily: 'monospace',
   },
+  failureCard: {
+    marginBottom: 20,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  failureTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.error,
+    marginBottom: 8,
+    fontFamily: 'monospace',
+  },
+  failureText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginBottom: 12,
+    fontFamily: 'monospace',
+  },
   statusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,24 +1,36 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, Animated, Alert } from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet, Animated, Alert, Share, TextInput } from 'react-native';
 import { useOnboarding } from '../../contexts/OnboardingContext';
 import { globalStyles } from '../../styles/globalStyles';
 import Button from '../ui/Button';
 import { Card, CardContent } from '../ui/Card';
+import Input from '../ui/Input';
 import { secureKeyService } from '../../services/secureKeyService';
+import { zkETHerProtocol } from '../../services/zkETHerProtocol';
+import { MIN_PASSPHRASE_LENGTH } from '../../services/keyBackup';
+import { isValidMnemonic, MNEMONIC_WORDS } from '../../crypto/keyDerivation';
 
 export default function GeneratePrivacyKeysScreen() {
-  const { setCurrentStep, kycData } = useOnboarding();
+  const { setCurrentStep, kycData, walletAddress } = useOnboarding();
   const [step, setStep] = useState<'explanation' | 'generating' | 'complete'>('explanation');
   const [progress, setProgress] = useState(0);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [timeRemaining, setTimeRemaining] = useState(0);
   const [generatedKeys, setGeneratedKeys] = useState<{
     publicKey: string;
+    spendingPublicKey?: string;
     keyId: string;
     createdAt: string;
   } | null>(null);
   const [showPrivateKey, setShowPrivateKey] = useState(false);
   const [privateKey, setPrivateKey] = useState<string | null>(null);
+  const [mnemonic, setMnemonic] = useState<string | null>(null);
+  const [backupMode, setBackupMode] = useState<'none' | 'backup' | 'restore' | 'phrase'>('none');
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [backupText, setBackupText] = useState('');
+  const [recoveryPhrase, setRecoveryPhrase] = useState('');
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
   
   // Create animated values for the 5x4 grid (20 dots like PWA)
   const animatedValues = useRef(
@@ -84,7 +96,8 @@ export default function GeneratePrivacyKeysScreen() {
     }
   }, [step]);
 
-  const handleGenerate = async () => {
+  // `phrase` recovers keys derived from an existing recovery phrase instead of creating a new one
+  const handleGenerate = async (phrase?: string) => {
     setStep('generating');
     setProgress(0);
     setTimeRemaining(Math.floor((100) / 30));
@@ -108,9 +121,11 @@ export default function GeneratePrivacyKeysScreen() {
         setTimeRemaining(prev => Math.max(1, Math.floor((100 - progress) / 30)));
       }, 1000);
       
-      // Actually generate keys
+      // Actually generate keys; a recovery also restores the keys rotated to since
       const onchainId = (kycData as any)?.extractedData?.onchainId;
-      const keyInfo = await secureKeyService.generateAndStoreKeys(onchainId);
+      const keyInfo = phrase
+        ? await zkETHerProtocol.recoverPrivacyKeys(walletAddress, phrase, onchainId)
+        : await secureKeyService.generateAndStoreKeys(onchainId);
       
       // Complete progress
       if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
@@ -124,7 +139,7 @@ export default function GeneratePrivacyKeysScreen() {
       console.error('❌ Failed to generate keys:', error);
       if (progressIntervalRef.current) clearInterval(progressIntervalRef.current);
       if (timeIntervalRef.current) clearInterval(timeIntervalRef.current);
-      Alert.alert('Error', 'Failed to generate secure keys. Please try again.');
+      Alert.alert('Error', error instanceof Error && phrase ? error.message : 'Failed to generate secure keys. Please try again.');
       setStep('explanation');
     }
   };
@@ -133,6 +148,141 @@ export default function GeneratePrivacyKeysScreen() {
     nextStep();
   };
 
+  const closeBackupPanel = () => {
+    setBackupMode('none');
+    setPassphrase('');
+    setPassphraseConfirm('');
+    setBackupText('');
+    setRecoveryPhrase('');
+  };
+
+  const handleRecoverFromPhrase = () => {
+    if (!isValidMnemonic(recoveryPhrase)) {
+      Alert.alert('Invalid Recovery Phrase', `Enter all ${MNEMONIC_WORDS} words of your recovery phrase, in order.`);
+      return;
+    }
+    const phrase = recoveryPhrase;
+    closeBackupPanel();
+    handleGenerate(phrase);
+  };
+
+  const handleCreateBackup = async () => {
+    if (passphrase !== passphraseConfirm) {
+      Alert.alert('Passphrases differ', 'Enter the same passphrase twice.');
+      return;
+    }
+    setIsBackupBusy(true);
+    try {
+      const backup = await secureKeyService.exportBackup(passphrase);
+      const { action } = await Share.share({ message: backup });
+      if (action === Share.sharedAction) {
+        Alert.alert('Backup Saved', 'Keep the backup and your passphrase in separate places. Both are needed to restore.');
+        closeBackupPanel();
+      }
+    } catch (error) {
+      console.error('❌ Failed to back up keys:', error);
+      Alert.alert('Backup Failed', error instanceof Error ? error.message : 'Failed to back up keys');
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    setIsBackupBusy(true);
+    try {
+      const keyInfo = await secureKeyService.restoreBackup(backupText, passphrase);
+      closeBackupPanel();
+      setGeneratedKeys(keyInfo);
+      setStep('complete');
+    } catch (error) {
+      console.error('❌ Failed to restore keys:', error);
+      Alert.alert('Restore Failed', error instanceof Error ? error.message : 'Failed to restore keys');
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const renderBackupPanel = () => {
+    if (backupMode === 'none') return null;
+    if (backupMode === 'phrase') {
+      return (
+        <Card style={styles.keysCard}>
+          <CardContent>
+            <Text style={styles.keyLabel}>Recover from recovery phrase</Text>
+            <TextInput
+              style={styles.backupTextInput}
+              value={recoveryPhrase}
+              onChangeText={setRecoveryPhrase}
+              placeholder={`Your ${MNEMONIC_WORDS} words, separated by spaces`}
+              placeholderTextColor="#666666"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Button
+              title="RECOVER KEYS"
+              onPress={handleRecoverFromPhrase}
+              disabled={!recoveryPhrase.trim()}
+            />
+            <TouchableOpacity onPress={closeBackupPanel} style={styles.debugButton}>
+              <Text style={styles.debugButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          </CardContent>
+        </Card>
+      );
+    }
+    const isRestore = backupMode === 'restore';
+
+    return (
+      <Card style={styles.keysCard}>
+        <CardContent>
+          <Text style={styles.keyLabel}>{isRestore ? 'Restore from backup' : 'Encrypted backup'}</Text>
+          {isRestore ? (
+            <TextInput
+              style={styles.backupTextInput}
+              value={backupText}
+              onChangeText={setBackupText}
+              placeholder="Paste your zkETHer key backup"
+              placeholderTextColor="#666666"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          ) : (
+            <Text style={styles.backupHint}>
+              Your private key is encrypted with this passphrase. It cannot be recovered if you forget it.
+            </Text>
+          )}
+          <Input
+            value={passphrase}
+            onChangeText={setPassphrase}
+            placeholder={isRestore ? 'Backup passphrase' : `Passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+            secureTextEntry
+            style={styles.backupInput}
+          />
+          {!isRestore && (
+            <Input
+              value={passphraseConfirm}
+              onChangeText={setPassphraseConfirm}
+              placeholder="Repeat passphrase"
+              secureTextEntry
+              style={styles.backupInput}
+            />
+          )}
+          <Button
+            title={isRestore ? 'RESTORE KEYS' : 'CREATE BACKUP'}
+            onPress={isRestore ? handleRestoreBackup : handleCreateBackup}
+            loading={isBackupBusy}
+            disabled={isRestore ? !backupText || !passphrase : passphrase.length < MIN_PASSPHRASE_LENGTH}
+          />
+          <TouchableOpacity onPress={closeBackupPanel} style={styles.debugButton}>
+            <Text style={styles.debugButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </CardContent>
+      </Card>
+    );
+  };
+
   const handleClearKeys = async () => {
     try {
       await secureKeyService.deleteKeys();
@@ -178,16 +328,33 @@ export default function GeneratePrivacyKeysScreen() {
         setShowPrivateKey(false);
         setPrivateKey(null);
       } else {
-        const key = await secureKeyService.getPrivateKey();
+        const key = await secureKeyService.getViewingKey();
         if (key) {
           setPrivateKey(key);
           setShowPrivateKey(true);
         } else {
-          Alert.alert('Authentication Required', 'Please authenticate to view private key');
+          Alert.alert('Authentication Required', 'Please authenticate to view your viewing key');
         }
       }
     } catch (error) {
-      Alert.alert('Error', 'Failed to retrieve private key');
+      Alert.alert('Error', 'Failed to retrieve viewing key');
+    }
+  };
+
+  const handleShowMnemonic = async () => {
+    try {
+      if (mnemonic) {
+        setMnemonic(null);
+      } else {
+        const phrase = await secureKeyService.getMnemonic();
+        if (phrase) {
+          setMnemonic(phrase);
+        } else {
+          Alert.alert('Authentication Required', 'Please authenticate to view your recovery phrase');
+        }
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to retrieve recovery phrase');
     }
   };
 
@@ -223,7 +390,7 @@ export default function GeneratePrivacyKeysScreen() {
                 </View>
 
                 <View style={styles.keySection}>
-                  <Text style={styles.keyLabel}>Private Key:</Text>
+                  <Text style={styles.keyLabel}>Viewing Key:</Text>
                   <TouchableOpacity onPress={handleShowPrivateKey}>
                     <Text style={styles.privateKeyText}>
                       {showPrivateKey && privateKey ? 
@@ -232,7 +399,31 @@ export default function GeneratePrivacyKeysScreen() {
                       }
                     </Text>
                     <Text style={styles.tapToReveal}>
-                      {showPrivateKey ? '(Tap to hide)' : '(Tap to reveal - requires authentication)'}
+                      {showPrivateKey ? '(Tap to hide)' : '(Tap to reveal)'}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {generatedKeys.spendingPublicKey && (
+                  <View style={styles.keySection}>
+                    <Text style={styles.keyLabel}>Spending Key:</Text>
+                    <Text style={styles.privateKeyText}>••••••••••••••••••••••••</Text>
+                    <Text style={styles.tapToReveal}>(Unlocked with biometric authentication for each withdrawal)</Text>
+                  </View>
+                )}
+
+                <View style={styles.keySection}>
+                  <Text style={styles.keyLabel}>Recovery Phrase:</Text>
+                  <TouchableOpacity onPress={handleShowMnemonic}>
+                    <Text style={mnemonic ? styles.mnemonicText : styles.privateKeyText}>
+                      {mnemonic
+                        ? mnemonic.split(' ').map((word, index) => `${index + 1}. ${word}`).join('   ')
+                        : '••••••••••••••••••••••••'}
+                    </Text>
+                    <Text style={styles.tapToReveal}>
+                      {mnemonic
+                        ? 'Write these words down in order, then tap to hide'
+                        : '(Tap to reveal - requires authentication)'}
                     </Text>
                   </TouchableOpacity>
                 </View>
@@ -252,11 +443,21 @@ export default function GeneratePrivacyKeysScreen() {
                 <Text style={styles.warningTitle}>Keep these keys safe!</Text>
               </View>
               <Text style={styles.warningText}>• Keys are stored securely on your device</Text>
-              <Text style={styles.warningText}>• Private key requires biometric authentication</Text>
+              <Text style={styles.warningText}>• Spending key requires biometric authentication</Text>
               <Text style={styles.warningText}>• Lost keys = lost funds</Text>
+              <Text style={styles.warningText}>• The recovery phrase restores every key on a new device</Text>
             </CardContent>
           </Card>
 
+          {backupMode === 'none' ? (
+            <Button
+              title="BACK UP KEYS"
+              onPress={() => setBackupMode('backup')}
+              variant="outline"
+              style={styles.backupKeysButton}
+            />
+          ) : renderBackupPanel()}
+
           <Button
             title="CONTINUE TO APP"
             onPress={nextStep}
@@ -400,7 +601,7 @@ export default function GeneratePrivacyKeysScreen() {
             </View>
             <Text style={styles.warningText}>• Lost keys = lost funds</Text>
             <Text style={styles.warningText}>• Keys are generated locally on your device</Text>
-            <Text style={styles.warningText}>• Private key requires biometric authentication</Text>
+            <Text style={styles.warningText}>• Spending key requires biometric authentication</Text>
           </CardContent>
         </Card>
 
@@ -415,11 +616,22 @@ export default function GeneratePrivacyKeysScreen() {
           
           <Button
             title="GENERATE"
-            onPress={handleGenerate}
+            onPress={() => handleGenerate()}
             style={styles.generateButton}
           />
         </View>
 
+        {backupMode === 'none' ? (
+          <>
+            <TouchableOpacity onPress={() => setBackupMode('phrase')} style={styles.debugButton}>
+              <Text style={styles.debugButtonText}>Recover keys from a recovery phrase</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setBackupMode('restore')} style={styles.debugButton}>
+              <Text style={styles.debugButtonText}>Restore keys from a backup</Text>
+            </TouchableOpacity>
+          </>
+        ) : renderBackupPanel()}
+
         {/* Debug button for testing */}
         <TouchableOpacity onPress={handleClearKeys} style={styles.debugButton}>
           <Text style={styles.debugButtonText}>🗑️ Clear Keys (Testing)</Text>
@@ -881,6 +1093,36 @@ const styles = StyleSheet.create({
     margin: 1,
     backgroundColor: '#00ff88',
   },
+  backupKeysButton: {
+    width: '100%',
+    marginBottom: 16,
+  },
+  backupHint: {
+    fontSize: 12,
+    color: '#888888',
+    fontFamily: 'monospace',
+    marginBottom: 12,
+  },
+  mnemonicText: {
+    fontSize: 13,
+    lineHeight: 20,
+    color: '#ffffff',
+    fontFamily: 'monospace',
+  },
+  backupInput: {
+    marginBottom: 12,
+  },
+  backupTextInput: {
+    minHeight: 80,
+    marginBottom: 12,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+    borderRadius: 4,
+    color: '#ffffff',
+    fontFamily: 'monospace',
+    fontSize: 12,
+  },
   debugButton: {
     marginTop: 16,
     padding: 8,
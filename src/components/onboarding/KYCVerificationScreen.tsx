@@ -9,7 +9,7 @@ import DocumentProcessingScreen from './DocumentProcessingScreen';
 import BiometricVerificationScreen from './BiometricVerificationScreen';
 import VerificationProcessingScreen from './VerificationProcessingScreen';
 import VerificationSuccessScreen from './VerificationSuccessScreen';
-import { sandboxApiService } from '../../services/sandboxApi';
+import { kycPipeline } from '../../services/kycPipeline';
 import { onchainIdService } from '../../services/onchainIdService';
 import { secureKeyService } from '../../services/secureKeyService';
 
@@ -93,6 +93,8 @@ export default function KYCVerificationScreen() {
       };
       
       setKYCData(finalKycData);
+      // The verification results now live in the KYC data; drop the resumable copy
+      await kycPipeline.clear();
       setCurrentStep('keys' as any);
     } catch (error) {
       console.error('❌ Failed to generate keys:', error);
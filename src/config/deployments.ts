@@ -0,0 +1,51 @@
+/**
+ * zkETHer deployment registry
+ * Contract addresses per chain, read from deployments.json (written by `npm run export-deployments`
+ * from the DeployToAnvil / DeployProduction broadcasts). Free of React Native imports so the
+ * Node scripts can share it; the app resolves the wallet's current chain through networkService.
+ */
+
+import manifest from './deployments.json';
+
+export interface DeploymentContracts {
+  claimIssuer: `0x${string}`;
+  zkETHerToken: `0x${string}`;
+}
+
+export interface DeploymentRecord {
+  script: string;          // forge script that produced the broadcast
+  commit: string | null;   // zkETHer-Protocol commit it was broadcast from
+  deployedAt: number;      // unix seconds
+  contracts: DeploymentContracts;
+}
+
+// Keyed by decimal chain id
+export type DeploymentManifest = Record<string, DeploymentRecord>;
+
+export interface Deployment extends DeploymentRecord {
+  chainId: number;
+}
+
+const DEPLOYMENTS = manifest as DeploymentManifest;
+
+/**
+ * Chain ids zkETHer is deployed on
+ */
+export function getDeployedChainIds(): number[] {
+  return Object.keys(DEPLOYMENTS).map(Number);
+}
+
+export function isDeployedOn(chainId: number): boolean {
+  return String(chainId) in DEPLOYMENTS;
+}
+
+/**
+ * Deployment on `chainId`; throws if zkETHer has not been deployed there
+ */
+export function getDeployment(chainId: number): Deployment {
+  const record = DEPLOYMENTS[String(chainId)];
+  if (!record) {
+    throw new Error(`zkETHer is not deployed on chain ${chainId}`);
+  }
+  return { chainId, ...record };
+}
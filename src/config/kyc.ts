@@ -0,0 +1,66 @@
+// KYC provider configuration for Expo/React Native
+// EXPO_PUBLIC_ values are bundled into the app - only use Sandbox test credentials here
+import { ConsistencyThresholds, DEFAULT_CONSISTENCY_THRESHOLDS } from '../services/identityConsistency';
+import type { KycStep } from '../services/kycProvider';
+import type { MockKycOutcome } from '../services/mockKycProvider';
+
+export type KycProviderName = 'mock' | 'sandbox';
+
+export interface KycConfig {
+  provider: KycProviderName;
+  timeoutMs: number;
+  faceMatchThreshold: number;   // minimum face match confidence (0-1) the KYC pipeline accepts
+  consistency: ConsistencyThresholds;  // Aadhaar/PAN name and DOB cross-check
+  sandbox: {
+    baseUrl: string;
+    apiKey: string;
+    apiSecret: string;
+  };
+  // Outcome the mock returns for each step unless a one-off outcome was scripted
+  mock: {
+    outcomes: Partial<Record<KycStep, MockKycOutcome>>;
+    lowConfidenceScore: number;
+  };
+}
+
+const KYC_STEPS: KycStep[] = ['aadhaar', 'pan', 'faceMatch', 'eligibility'];
+
+// "pan,faceMatch" -> { pan: outcome, faceMatch: outcome }
+function parseSteps(value: string | undefined, outcome: MockKycOutcome): Partial<Record<KycStep, MockKycOutcome>> {
+  const steps = (value || '').split(',').map(step => step.trim()).filter(Boolean);
+  for (const step of steps) {
+    if (!KYC_STEPS.includes(step as KycStep)) {
+      throw new Error(`Unknown KYC step "${step}" - expected one of ${KYC_STEPS.join(', ')}`);
+    }
+  }
+  return Object.fromEntries(steps.map(step => [step, outcome]));
+}
+
+export const kycConfig: KycConfig = {
+  provider: process.env.EXPO_PUBLIC_KYC_PROVIDER === 'sandbox' ? 'sandbox' : 'mock',
+  timeoutMs: Number(process.env.EXPO_PUBLIC_KYC_TIMEOUT_MS || 30000),
+  faceMatchThreshold: Number(process.env.EXPO_PUBLIC_KYC_FACE_MATCH_THRESHOLD || 0.8),
+  consistency: {
+    ...DEFAULT_CONSISTENCY_THRESHOLDS,
+    nameMatchThreshold: Number(
+      process.env.EXPO_PUBLIC_KYC_NAME_MATCH_THRESHOLD || DEFAULT_CONSISTENCY_THRESHOLDS.nameMatchThreshold
+    ),
+    requireDob: process.env.EXPO_PUBLIC_KYC_REQUIRE_DOB !== 'false'
+  },
+  sandbox: {
+    baseUrl: process.env.EXPO_PUBLIC_SANDBOX_BASE_URL || 'https://test-api.sandbox.co.in',
+    apiKey: process.env.EXPO_PUBLIC_SANDBOX_API_KEY || '',
+    apiSecret: process.env.EXPO_PUBLIC_SANDBOX_API_SECRET || ''
+  },
+  mock: {
+    // Later entries win when a step is listed twice
+    outcomes: {
+      ...parseSteps(process.env.EXPO_PUBLIC_KYC_MOCK_LOW_CONFIDENCE, 'low_confidence'),
+      ...parseSteps(process.env.EXPO_PUBLIC_KYC_MOCK_FAIL, 'failure'),
+      ...parseSteps(process.env.EXPO_PUBLIC_KYC_MOCK_TIMEOUT, 'timeout')
+    },
+    lowConfidenceScore: Number(process.env.EXPO_PUBLIC_KYC_MOCK_LOW_CONFIDENCE_SCORE || 0.55)
+  }
+};
+
+export default kycConfig;
@@ -0,0 +1,25 @@
+// Off-chain zkETHer services the app talks to
+// On a phone or emulator `localhost` is the device itself, so local services are reached through the
+// development machine's address - the same host the Anvil RPC in walletConnect.ts points at.
+// EXPO_PUBLIC_ values are bundled into the app.
+
+export const DEV_HOST = process.env.EXPO_PUBLIC_DEV_HOST || '10.200.9.12';
+
+export interface ServiceConfig {
+  relayerUrls: string[];   // relayers to ask for quotes
+  issuerUrl: string;       // claim issuer service that writes the user's ONCHAINID and claims
+}
+
+// "http://a:8546, http://b:8546" -> ['http://a:8546', 'http://b:8546']
+function parseUrls(value: string): string[] {
+  return value.split(',').map(url => url.trim().replace(/\/+$/, '')).filter(Boolean);
+}
+
+export const serviceConfig: ServiceConfig = {
+  // `npm run relayer` is the local Anvil stand-in
+  relayerUrls: parseUrls(process.env.EXPO_PUBLIC_RELAYER_URLS || `http://${DEV_HOST}:8546`),
+  // `npm run issuer` is the local Anvil stand-in
+  issuerUrl: parseUrls(process.env.EXPO_PUBLIC_ISSUER_URL || `http://${DEV_HOST}:8547`)[0]
+};
+
+export default serviceConfig;
@@ -4,6 +4,7 @@ import { defaultWagmiConfig, createAppKit } from '@reown/appkit-wagmi-react-nati
 import { mainnet, polygon, arbitrum, base, optimism, sepolia } from '@wagmi/core/chains';
 import { defineChain } from 'viem';
 import { QueryClient } from '@tanstack/react-query';
+import { DEV_HOST } from './services';
 
 // Project ID from https://cloud.walletconnect.com
 export const projectId = '10a7a0c3bff08e7c28df40c7c67eb0fa';
@@ -30,11 +31,11 @@ const anvil = defineChain({
     symbol: 'ETH',
   },
   rpcUrls: {
-    public: { http: ['http://10.200.9.12:8545'] },
-    default: { http: ['http://10.200.9.12:8545'] },
+    public: { http: [`http://${DEV_HOST}:8545`] },
+    default: { http: [`http://${DEV_HOST}:8545`] },
   },
   blockExplorers: {
-    default: { name: 'Local', url: 'http://10.200.9.12:8545' },
+    default: { name: 'Local', url: `http://${DEV_HOST}:8545` },
   },
 });
 
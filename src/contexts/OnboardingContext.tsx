@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import * as SecureStore from 'expo-secure-store';
 import { OnboardingContextType, KYCData, OnboardingStep } from '../types/index';
+import { kycPipeline } from '../services/kycPipeline';
 
 const OnboardingContext = createContext<OnboardingContextType | undefined>(undefined);
 
@@ -142,6 +143,7 @@ export const OnboardingProvider: React.FC<OnboardingProviderProps> = ({ children
         SecureStore.deleteItemAsync('wallet_type'),
         SecureStore.deleteItemAsync('kyc_completed'),
         SecureStore.deleteItemAsync('kyc_data'),
+        kycPipeline.clear(),
       ]);
     } catch (error) {
       console.error('Error clearing persisted data:', error);
@@ -0,0 +1,12 @@
+/**
+ * zkETHer contract bindings
+ * Typed ABIs generated from the Foundry artifacts, plus the ones the app talks to.
+ */
+
+import { SIMPLE_SANDBOX_CLAIM_ISSUER_ABI, SIMPLE_ZKETHER_TOKEN_ABI } from './abis';
+
+export * from './abis';
+
+// Contracts deployed by zkETHer-Protocol/script/DeployToAnvil.s.sol
+export const ZKETHER_TOKEN_ABI = SIMPLE_ZKETHER_TOKEN_ABI;
+export const CLAIM_ISSUER_ABI = SIMPLE_SANDBOX_CLAIM_ISSUER_ABI;
@@ -0,0 +1,87 @@
+/**
+ * src/crypto/commitments.ts against circom/vectors/commitment.json - the same vectors
+ * circom/scripts/check-vectors.js runs through the compiled commitment circuit.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it } from 'node:test';
+import {
+  computeCommitment,
+  computeNullifierHash,
+  computeSpendingKeyHash,
+  generateNoteCommitment,
+  publicKeyToField,
+  spendSecretFromKey,
+  toBytes32
+} from './commitments';
+
+interface CommitmentVector {
+  ownerPublicKey: string;
+  spendingPrivateKey: string;
+  input: { secret: string; nullifier: string; amount: string; ownerPubKey: string; spendingKeyHash: string };
+  commitment: string;
+  nullifierHash: string;
+}
+
+const { vectors } = JSON.parse(
+  readFileSync(join(__dirname, '..', '..', 'circom', 'vectors', 'commitment.json'), 'utf8')
+) as { vectors: CommitmentVector[] };
+
+describe('commitments', () => {
+  it('has vectors to check', () => {
+    assert.ok(vectors.length > 0);
+  });
+
+  vectors.forEach((vector, i) => {
+    describe(`vector ${i}`, () => {
+      it('maps the owner public key to the circuit input', () => {
+        assert.equal(publicKeyToField(vector.ownerPublicKey).toString(), vector.input.ownerPubKey);
+      });
+
+      it('hashes the spending key to the circuit input', () => {
+        assert.equal(computeSpendingKeyHash(spendSecretFromKey(vector.spendingPrivateKey)).toString(), vector.input.spendingKeyHash);
+      });
+
+      it('computes the circuit commitment', () => {
+        const commitment = computeCommitment({
+          secret: toBytes32(BigInt(vector.input.secret)),
+          nullifier: toBytes32(BigInt(vector.input.nullifier)),
+          amount: vector.input.amount,
+          ownerPublicKey: vector.ownerPublicKey,
+          spendingKeyHash: vector.input.spendingKeyHash
+        });
+        assert.equal(commitment.toString(), vector.commitment);
+      });
+
+      it('computes the circuit nullifier hash', () => {
+        assert.equal(computeNullifierHash(vector.input.nullifier, vector.input.spendingKeyHash).toString(), vector.nullifierHash);
+      });
+    });
+  });
+
+  it('generateNoteCommitment agrees with computeCommitment and computeNullifierHash', () => {
+    const vector = vectors[vectors.length - 1];
+    const spendingKeyHash = toBytes32(BigInt(vector.input.spendingKeyHash));
+    const note = generateNoteCommitment(vector.input.amount, vector.ownerPublicKey, spendingKeyHash);
+
+    const commitment = computeCommitment({ ...note, amount: vector.input.amount, ownerPublicKey: vector.ownerPublicKey, spendingKeyHash });
+    assert.equal(note.commitment, toBytes32(commitment));
+    assert.equal(note.nullifierHash, toBytes32(computeNullifierHash(note.nullifier, spendingKeyHash)));
+  });
+
+  it('binds the commitment and nullifier hash to the spending key', () => {
+    const [vector] = vectors;
+    const input = {
+      secret: toBytes32(BigInt(vector.input.secret)),
+      nullifier: toBytes32(BigInt(vector.input.nullifier)),
+      amount: vector.input.amount,
+      ownerPublicKey: vector.ownerPublicKey
+    };
+    const otherKeyHash = toBytes32(computeSpendingKeyHash(spendSecretFromKey(vectors[1].spendingPrivateKey)));
+
+    assert.notEqual(computeCommitment({ ...input, spendingKeyHash: otherKeyHash }).toString(), vector.commitment);
+    assert.notEqual(computeNullifierHash(vector.input.nullifier, otherKeyHash).toString(), vector.nullifierHash);
+  });
+});
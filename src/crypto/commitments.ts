@@ -0,0 +1,147 @@
+/**
+ * zkETHer Commitments
+ * SNARK-friendly note commitments and nullifier hashes built on Poseidon (circomlib parameters).
+ *
+ *   spendingKeyHash = Poseidon(spendSecret)
+ *   commitment      = Poseidon(secret, nullifier, amount, ownerPubKey, spendingKeyHash)
+ *   nullifierHash   = Poseidon(nullifier, spendingKeyHash)
+ *
+ * spendSecret is the owner's spending private key as a field element. spendingKeyHash is public - it
+ * travels with the owner's receiving key - but spending a note means proving knowledge of spendSecret,
+ * so a note's secret and nullifier (which its viewing key decrypts) are not enough to withdraw it.
+ *
+ * Everything here is plain TypeScript with no React Native imports, so the same code runs in the
+ * app, in Node scripts and matches circom/circuits/commitment.circom bit for bit.
+ */
+
+import { poseidon1 } from 'poseidon-lite/poseidon1';
+import { poseidon2 } from 'poseidon-lite/poseidon2';
+import { poseidon5 } from 'poseidon-lite/poseidon5';
+
+// BN254 scalar field - every circuit signal lives in this field
+export const SNARK_SCALAR_FIELD =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+export type Hex = `0x${string}`;
+
+export interface NoteSecrets {
+  secret: Hex;
+  nullifier: Hex;
+}
+
+export interface CommitmentInput extends NoteSecrets {
+  amount: bigint | string;   // wei
+  ownerPublicKey: string;    // 32-byte X25519 public key, 0x-prefixed hex
+  spendingKeyHash: string;   // owner's Poseidon(spendSecret), 0x-prefixed hex
+}
+
+export interface NoteCommitment extends NoteSecrets {
+  commitment: Hex;
+  nullifierHash: Hex;
+}
+
+/**
+ * Reduce an arbitrary integer-like value into the scalar field
+ */
+export function toFieldElement(value: bigint | string | number): bigint {
+  const n = typeof value === 'bigint' ? value : BigInt(value);
+  if (n < 0n) {
+    throw new Error('Field elements must be non-negative');
+  }
+  return n % SNARK_SCALAR_FIELD;
+}
+
+/**
+ * Encode a field element as a 0x-prefixed bytes32 string (Solidity / event format)
+ */
+export function toBytes32(value: bigint): Hex {
+  return `0x${value.toString(16).padStart(64, '0')}`;
+}
+
+/**
+ * Map an X25519 public key to the field element committed inside the note
+ */
+export function publicKeyToField(publicKey: string): bigint {
+  const hex = publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`;
+  if (!/^0x[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Owner public key must be 32 bytes of hex');
+  }
+  return toFieldElement(hex);
+}
+
+/**
+ * Field element the withdraw circuit proves knowledge of, from a 32-byte spending private key
+ */
+export function spendSecretFromKey(spendingPrivateKey: string): bigint {
+  const hex = spendingPrivateKey.startsWith('0x') ? spendingPrivateKey : `0x${spendingPrivateKey}`;
+  if (!/^0x[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Spending key must be 32 bytes of hex');
+  }
+  return toFieldElement(hex);
+}
+
+/**
+ * Poseidon(spendSecret) - committed in every note of the key, and safe to publish
+ */
+export function computeSpendingKeyHash(spendSecret: bigint | string): bigint {
+  return poseidon1([toFieldElement(spendSecret)]);
+}
+
+/**
+ * Generate a uniformly random 31-byte value, which is always below the field modulus
+ */
+export function randomFieldElement(): bigint {
+  const bytes = new Uint8Array(31);
+  crypto.getRandomValues(bytes);
+  const hex = Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return BigInt(`0x${hex}`);
+}
+
+/**
+ * Generate fresh secret and nullifier preimage for a new note
+ */
+export function createNoteSecrets(): NoteSecrets {
+  return {
+    secret: toBytes32(randomFieldElement()),
+    nullifier: toBytes32(randomFieldElement())
+  };
+}
+
+/**
+ * Poseidon(secret, nullifier, amount, ownerPubKey, spendingKeyHash)
+ */
+export function computeCommitment(input: CommitmentInput): bigint {
+  return poseidon5([
+    toFieldElement(input.secret),
+    toFieldElement(input.nullifier),
+    toFieldElement(input.amount),
+    publicKeyToField(input.ownerPublicKey),
+    toFieldElement(input.spendingKeyHash)
+  ]);
+}
+
+/**
+ * Poseidon(nullifier, spendingKeyHash) - published on withdrawal to prevent double spends
+ */
+export function computeNullifierHash(nullifier: bigint | string, spendingKeyHash: bigint | string): bigint {
+  return poseidon2([toFieldElement(nullifier), toFieldElement(spendingKeyHash)]);
+}
+
+/**
+ * Create a new note for the owner's viewing key and spending key hash, and return its commitment
+ * and nullifier hash
+ */
+export function generateNoteCommitment(
+  amount: bigint | string,
+  ownerPublicKey: string,
+  spendingKeyHash: string
+): NoteCommitment {
+  const secrets = createNoteSecrets();
+  return {
+    ...secrets,
+    commitment: toBytes32(computeCommitment({ ...secrets, amount, ownerPublicKey, spendingKeyHash })),
+    nullifierHash: toBytes32(computeNullifierHash(secrets.nullifier, spendingKeyHash))
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * The pure TypeScript verifier against circom/vectors/ownership_proof.json, a proof made by snarkjs
+ * for the ownership circuit and checked with assets/keys/ownership_verification_key.json.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it } from 'node:test';
+import type { CircomProofResult } from '../../modules/mopro';
+import { VerificationKey, verifyGroth16 } from './groth16';
+import { OwnershipClaim, ownershipSignals } from './ownership';
+
+const readJson = (...path: string[]) => JSON.parse(readFileSync(join(__dirname, '..', '..', ...path), 'utf8'));
+
+const vk = readJson('assets', 'keys', 'ownership_verification_key.json') as VerificationKey;
+const fixture = readJson('circom', 'vectors', 'ownership_proof.json') as {
+  account: string;
+  claim: OwnershipClaim;
+  proof: CircomProofResult['proof'];
+};
+const proofResult: CircomProofResult = { proof: fixture.proof, inputs: ownershipSignals(fixture.claim, fixture.account) };
+
+describe('verifyGroth16', () => {
+  it('accepts the known-good proof', () => {
+    assert.equal(verifyGroth16(vk, proofResult), true);
+  });
+
+  it('rejects a tampered proof', () => {
+    // A different point on the curve in place of C
+    assert.equal(verifyGroth16(vk, { ...proofResult, proof: { ...fixture.proof, c: fixture.proof.a } }), false);
+    // A point off the curve
+    const c = { ...fixture.proof.c, y: (BigInt(fixture.proof.c.y) + 1n).toString() };
+    assert.equal(verifyGroth16(vk, { ...proofResult, proof: { ...fixture.proof, c } }), false);
+  });
+
+  it('rejects altered or malformed public inputs', () => {
+    const inputs = [...proofResult.inputs];
+    inputs[1] = (BigInt(inputs[1]) + 1n).toString();
+    assert.equal(verifyGroth16(vk, { ...proofResult, inputs }), false);
+    assert.equal(verifyGroth16(vk, { ...proofResult, inputs: proofResult.inputs.slice(1) }), false);
+    assert.equal(verifyGroth16(vk, { ...proofResult, inputs: [...proofResult.inputs.slice(1), (2n ** 254n).toString()] }), false);
+  });
+
+  it('throws on a verification key it cannot use', () => {
+    assert.throws(() => verifyGroth16({ ...vk, protocol: 'plonk' }, proofResult), /Unsupported verification key/);
+    assert.throws(() => verifyGroth16({ ...vk, IC: vk.IC.slice(1) }, proofResult), /IC length/);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * zkETHer Groth16 Verifier
+ * Pure TypeScript Groth16 verification over BN254, compatible with snarkjs verification keys
+ * (`snarkjs zkey export verificationkey`) and the CircomProofResult produced by modules/mopro.
+ *
+ * No native bindings and no zkey: runs in Node scripts, on web and in the app alike.
+ *
+ *   e(A, B) == e(alpha, beta) · e(vk_x, gamma) · e(C, delta),   vk_x = IC[0] + Σ inputs[i] · IC[i + 1]
+ */
+
+import { bn254 } from '@noble/curves/bn254';
+import type { CircomProofResult, G1, G2 } from '../../modules/mopro';
+
+type G1Point = ReturnType<typeof bn254.G1.ProjectivePoint.fromAffine>;
+type G2Point = ReturnType<typeof bn254.G2.ProjectivePoint.fromAffine>;
+
+// snarkjs encodes points as [x, y, z] strings; G2 coordinates are [c0, c1] pairs
+export type SnarkjsG1 = [string, string, string];
+export type SnarkjsG2 = [[string, string], [string, string], [string, string]];
+
+export interface VerificationKey {
+  protocol: string;
+  curve: string;
+  nPublic: number;
+  vk_alpha_1: SnarkjsG1;
+  vk_beta_2: SnarkjsG2;
+  vk_gamma_2: SnarkjsG2;
+  vk_delta_2: SnarkjsG2;
+  IC: SnarkjsG1[];
+}
+
+const { Fp, Fp2, Fp12, Fr } = bn254.fields;
+
+/**
+ * Convert a Jacobian G1 point (x, y, z) as emitted by arkworks/snarkjs into a curve point
+ */
+export function toG1Point(point: G1): G1Point {
+  const z = Fp.create(BigInt(point.z));
+  if (Fp.is0(z)) {
+    return bn254.G1.ProjectivePoint.ZERO;
+  }
+  const zInv = Fp.inv(z);
+  const zInv2 = Fp.sqr(zInv);
+  const p = bn254.G1.ProjectivePoint.fromAffine({
+    x: Fp.mul(Fp.create(BigInt(point.x)), zInv2),
+    y: Fp.mul(Fp.create(BigInt(point.y)), Fp.mul(zInv2, zInv))
+  });
+  p.assertValidity();
+  return p;
+}
+
+/**
+ * Convert a Jacobian G2 point ([x0, x1], [y0, y1], [z0, z1]) into a curve point
+ */
+export function toG2Point(point: G2): G2Point {
+  const fp2 = ([c0, c1]: string[]) => Fp2.fromBigTuple([BigInt(c0), BigInt(c1)]);
+  const z = fp2(point.z);
+  if (Fp2.is0(z)) {
+    return bn254.G2.ProjectivePoint.ZERO;
+  }
+  const zInv = Fp2.inv(z);
+  const zInv2 = Fp2.sqr(zInv);
+  const p = bn254.G2.ProjectivePoint.fromAffine({
+    x: Fp2.mul(fp2(point.x), zInv2),
+    y: Fp2.mul(fp2(point.y), Fp2.mul(zInv2, zInv))
+  });
+  p.assertValidity();
+  return p;
+}
+
+function fromSnarkjsG1([x, y, z]: SnarkjsG1): G1Point {
+  return toG1Point({ x, y, z });
+}
+
+function fromSnarkjsG2([x, y, z]: SnarkjsG2): G2Point {
+  return toG2Point({ x, y, z });
+}
+
+/**
+ * Verify a Groth16 proof against a snarkjs verification key.
+ * Malformed proofs (points off the curve, out-of-range inputs) verify as false rather than throwing;
+ * a key that is not a BN254 Groth16 key is a caller error and throws.
+ */
+export function verifyGroth16(vk: VerificationKey, proofResult: CircomProofResult): boolean {
+  if (vk.protocol !== 'groth16' || !['bn128', 'bn254'].includes(vk.curve)) {
+    throw new Error(`Unsupported verification key: ${vk.protocol} over ${vk.curve}`);
+  }
+  if (vk.IC.length !== vk.nPublic + 1) {
+    throw new Error('Verification key IC length does not match nPublic');
+  }
+
+  const inputs = proofResult.inputs.map(input => BigInt(input));
+  if (inputs.length !== vk.nPublic || inputs.some(input => input < 0n || input >= Fr.ORDER)) {
+    return false;
+  }
+
+  let a: G1Point;
+  let b: G2Point;
+  let c: G1Point;
+  try {
+    a = toG1Point(proofResult.proof.a);
+    b = toG2Point(proofResult.proof.b);
+    c = toG1Point(proofResult.proof.c);
+  } catch {
+    return false;
+  }
+  if (a.equals(bn254.G1.ProjectivePoint.ZERO) || c.equals(bn254.G1.ProjectivePoint.ZERO) || b.equals(bn254.G2.ProjectivePoint.ZERO)) {
+    return false;
+  }
+
+  const vkX = inputs.reduce(
+    (acc, input, i) => (input === 0n ? acc : acc.add(fromSnarkjsG1(vk.IC[i + 1]).multiply(input))),
+    fromSnarkjsG1(vk.IC[0])
+  );
+
+  // e(-A, B) · e(alpha, beta) · e(vk_x, gamma) · e(C, delta) == 1
+  const result = bn254.pairingBatch([
+    { g1: a.negate(), g2: b },
+    { g1: fromSnarkjsG1(vk.vk_alpha_1), g2: fromSnarkjsG2(vk.vk_beta_2) },
+    { g1: vkX, g2: fromSnarkjsG2(vk.vk_gamma_2) },
+    { g1: c, g2: fromSnarkjsG2(vk.vk_delta_2) }
+  ]);
+
+  return Fp12.eql(result, Fp12.ONE);
+}
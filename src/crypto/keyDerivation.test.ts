@@ -0,0 +1,72 @@
+/**
+ * Key derivation from a fixed recovery phrase, and how many key sets recovery brings back.
+ * The pinned keys were reproduced independently with Node's crypto (PBKDF2 seed, HKDF, X25519).
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { countRecoverableKeySets, deriveKeys } from './keyDerivation';
+
+const MNEMONIC = `${'abandon '.repeat(23)}art`;
+
+const viewingKey = async (index: number) => (await deriveKeys(MNEMONIC, index)).viewing.publicKey;
+
+describe('deriveKeys', () => {
+  it('derives the pinned keys for index 0', async () => {
+    assert.deepEqual(await deriveKeys(MNEMONIC, 0), {
+      keyId: '0ee813b6e0b2b8463893700c7d3b00eb',
+      index: 0,
+      viewing: {
+        privateKey: '0xb279925ceaeb0c8ca150655ba5539b4bf884c1920e0b994dda359bc91a73daca',
+        publicKey: '0x44f1266c2c7684b4568d66adb536ab8907d6ae4e8fc88a80da292aff4aa24d4e'
+      },
+      spending: {
+        privateKey: '0xc1ce94c3af402be3b83ef5a8d39c7b7e2069773e6296291c46f60c2fecee8bb3',
+        publicKey: '0xfa32062bf53144537b4c0cff4eb73f74d11990bf6cb18eacaa75acb7f6a86827'
+      }
+    });
+  });
+
+  it('derives the pinned keys for index 1', async () => {
+    assert.deepEqual(await deriveKeys(MNEMONIC, 1), {
+      keyId: 'b79ed253f7619cf7f0c297026afbea36',
+      index: 1,
+      viewing: {
+        privateKey: '0xc04f64bd76a5df6c09c2d2a322e39af4c54175c598a506d514479e0e61d55190',
+        publicKey: '0x0ab7afc3f183effee74ba3c7d5c7620e858a7b2c11640cedb8bc3ae718221759'
+      },
+      spending: {
+        privateKey: '0x448f9cc14af25fcad41b7a12ac1be4e68f935ae9dcf1a9ca17b3b9805ceb4181',
+        publicKey: '0x07c3acbfbe978dc8e9395c24edf2bfaeed540afc25719558b977372b7fa4e40c'
+      }
+    });
+  });
+
+  it('ignores case and spacing in the phrase', async () => {
+    assert.deepEqual(await deriveKeys(`  ${MNEMONIC.toUpperCase().replace(/ /g, '   ')}\n`, 1), await deriveKeys(MNEMONIC, 1));
+  });
+
+  it('refuses an invalid phrase or index', async () => {
+    await assert.rejects(deriveKeys(`${'abandon '.repeat(23)}abandon`), /24 valid BIP-39 words/);
+    await assert.rejects(deriveKeys(MNEMONIC, -1), /non-negative integer/);
+  });
+});
+
+describe('countRecoverableKeySets', () => {
+  it('recovers the first key set when nothing was published', async () => {
+    assert.equal(await countRecoverableKeySets(MNEMONIC, []), 1);
+  });
+
+  it('recovers the active key when the first key was never published', async () => {
+    assert.equal(await countRecoverableKeySets(MNEMONIC, [await viewingKey(1), await viewingKey(2)]), 3);
+  });
+
+  it('recovers key sets whose publication failed, up to the last published one', async () => {
+    assert.equal(await countRecoverableKeySets(MNEMONIC, [await viewingKey(3)]), 4);
+  });
+
+  it('stops the gap limit after the last match when a published key is not ours', async () => {
+    const foreign = `0x${'ab'.repeat(32)}`;
+    assert.equal(await countRecoverableKeySets(MNEMONIC, [await viewingKey(1), foreign], 3), 2);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * zkETHer Key Derivation
+ * Deterministic zkETHer keys from a BIP-39 mnemonic, so 24 words recover every key.
+ *
+ *   seed            = BIP-39 seed(mnemonic, no passphrase)                     (64 bytes)
+ *   viewing key     = HKDF-SHA256(seed, salt "zkETHer-keys", info "zkether/v1/viewing/<index>")
+ *   spending key    = HKDF-SHA256(seed, salt "zkETHer-keys", info "zkether/v1/spending/<index>")
+ *   public keys     = X25519 base-point multiplication (RFC 7748)
+ *   keyId           = first 16 bytes of SHA-256("zkether/v1/key-id" || viewing public key)
+ *
+ * The viewing key is the X25519 key notes are encrypted to; the spending key is kept apart so it can
+ * be locked down harder. `index` numbers successive key sets from the same mnemonic (0 for the first).
+ * Like commitments.ts this is plain TypeScript, so Node scripts derive the same keys as the app.
+ */
+
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { generateMnemonic, mnemonicToSeed, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { Hex } from './commitments';
+
+export const DERIVATION_VERSION = 'v1';
+export const MNEMONIC_WORDS = 24;
+
+const HKDF_SALT = utf8ToBytes('zkETHer-keys');
+const KEY_BYTES = 32;
+const KEY_ID_BYTES = 16;
+
+export type KeyPurpose = 'viewing' | 'spending';
+
+export interface X25519KeyPair {
+  publicKey: Hex;
+  privateKey: Hex;
+}
+
+export interface DerivedKeys {
+  keyId: string;            // 32 hex chars, no 0x - same shape as randomly generated key ids
+  index: number;
+  viewing: X25519KeyPair;
+  spending: X25519KeyPair;
+}
+
+/**
+ * New 24-word English mnemonic (256 bits of entropy)
+ */
+export function createMnemonic(): string {
+  return generateMnemonic(wordlist, 256);
+}
+
+/**
+ * Lowercase, single-spaced form of a mnemonic as typed by the user
+ */
+export function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * True for a 24-word English mnemonic with a valid checksum
+ */
+export function isValidMnemonic(mnemonic: string): boolean {
+  const normalized = normalizeMnemonic(mnemonic);
+  return normalized.split(' ').length === MNEMONIC_WORDS && validateMnemonic(normalized, wordlist);
+}
+
+export function derivationPath(purpose: KeyPurpose, index: number): string {
+  return `zkether/${DERIVATION_VERSION}/${purpose}/${index}`;
+}
+
+function deriveKeyPair(seed: Uint8Array, purpose: KeyPurpose, index: number): X25519KeyPair {
+  const privateKey = hkdf(sha256, seed, HKDF_SALT, utf8ToBytes(derivationPath(purpose, index)), KEY_BYTES);
+  return {
+    privateKey: `0x${bytesToHex(privateKey)}`,
+    publicKey: `0x${bytesToHex(x25519.getPublicKey(privateKey))}`
+  };
+}
+
+export function keyIdForPublicKey(viewingPublicKey: Hex): string {
+  const digest = sha256(concatBytes(
+    utf8ToBytes(`zkether/${DERIVATION_VERSION}/key-id`),
+    hexToBytes(viewingPublicKey.slice(2))
+  ));
+  return bytesToHex(digest.slice(0, KEY_ID_BYTES));
+}
+
+/**
+ * Viewing and spending key pairs number `index` for `mnemonic`
+ */
+export async function deriveKeys(mnemonic: string, index: number = 0): Promise<DerivedKeys> {
+  if (!isValidMnemonic(mnemonic)) {
+    throw new Error(`Recovery phrase must be ${MNEMONIC_WORDS} valid BIP-39 words`);
+  }
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error('Key index must be a non-negative integer');
+  }
+
+  const seed = await mnemonicToSeed(normalizeMnemonic(mnemonic));
+  const viewing = deriveKeyPair(seed, 'viewing', index);
+  const spending = deriveKeyPair(seed, 'spending', index);
+  seed.fill(0);
+
+  return { keyId: keyIdForPublicKey(viewing.publicKey), index, viewing, spending };
+}
+
+// Indices derived past the last published key before recovery gives up looking for more
+export const RECOVERY_GAP_LIMIT = 20;
+
+/**
+ * Number of key sets to recover from `mnemonic` (indices 0 to n - 1), given the viewing keys published
+ * for the account. Rotation moves through the indices in order but publishing is optional, so every index
+ * up to the last published one was in use even if its key was never published. Derivation stops once every
+ * published key is matched, or `gapLimit` indices after the last match.
+ */
+export async function countRecoverableKeySets(
+  mnemonic: string,
+  publishedKeys: string[],
+  gapLimit: number = RECOVERY_GAP_LIMIT
+): Promise<number> {
+  const unmatched = new Set(publishedKeys.map(key => key.toLowerCase()));
+  let count = 1;
+  for (let index = 0; unmatched.size > 0 && index < count + gapLimit; index++) {
+    const { viewing } = await deriveKeys(mnemonic, index);
+    if (unmatched.delete(viewing.publicKey.toLowerCase())) {
+      count = index + 1;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,74 @@
+/**
+ * The deposit tree at the circuit's depth of 20. The pinned roots were checked against
+ * circom/circuits/merkle_tree.circom: the path of leaf 2 in the three-leaf tree satisfies MerkleTreeChecker(20).
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { IncrementalMerkleTree, MERKLE_TREE_DEPTH, ROOT_HISTORY_SIZE, ZERO_VALUE, computeRootFromPath } from './merkleTree';
+
+const hex = (value: bigint) => `0x${value.toString(16).padStart(64, '0')}`;
+
+describe('IncrementalMerkleTree', () => {
+  it('has the known empty leaf and roots at depth 20', () => {
+    const tree = new IncrementalMerkleTree();
+    assert.equal(tree.depth, MERKLE_TREE_DEPTH);
+    assert.equal(hex(ZERO_VALUE), '0x1f70923bd4888ca4af1085559bd73c8bf218a7ea82404809d6edc6fc1464a433');
+    assert.equal(hex(tree.root), '0x0330437fbfcee4a33c84fee5111216968b98818f8eeacf4f6e26720a43b4d1fa');
+
+    tree.insert(1n);
+    assert.equal(hex(tree.root), '0x0016b5a04534dc7cb0aac808a9e5eab28f0e0130e403919b1c5b01a152faa315');
+    tree.insert(2n);
+    assert.equal(hex(tree.root), '0x0c5ba3d42c15e1adb8bd72fffdcdcde12d2c7e386838eaf7747aba1a03866d08');
+    tree.insert(3n);
+    assert.equal(hex(tree.root), '0x008d66c7e82dabd56c2147e724805f20e3e8cbc66bf8aa9f568976de7f87e354');
+  });
+
+  it('keeps the last 30 roots', () => {
+    const tree = new IncrementalMerkleTree();
+    const roots = [tree.root];
+    for (let leaf = 1n; leaf <= 40n; leaf++) {
+      tree.insert(leaf);
+      roots.push(tree.root);
+    }
+
+    const known = tree.getKnownRoots();
+    assert.equal(known.length, ROOT_HISTORY_SIZE);
+    assert.deepEqual(known, roots.slice(-ROOT_HISTORY_SIZE).reverse());
+    assert.equal(tree.isKnownRoot(roots[40 - ROOT_HISTORY_SIZE + 1]), true);
+    assert.equal(tree.isKnownRoot(roots[40 - ROOT_HISTORY_SIZE]), false);
+    assert.equal(tree.isKnownRoot(roots[0]), false);
+  });
+
+  it('gives paths to the current root for the first and last leaves', () => {
+    const tree = new IncrementalMerkleTree();
+    tree.insertMany([11n, 12n, 13n, 14n, 15n]);
+
+    for (const leafIndex of [0, 4]) {
+      const path = tree.getPath(leafIndex);
+      assert.equal(path.pathElements.length, MERKLE_TREE_DEPTH);
+      assert.equal(path.root, tree.root);
+      assert.equal(computeRootFromPath(path), tree.root);
+    }
+    assert.deepEqual(tree.getPath(4).pathIndices.slice(0, 3), [0, 0, 1]);
+    assert.throws(() => tree.getPath(5), /not in the tree/);
+  });
+
+  it('gives a path to the last leaf of a full tree', () => {
+    const tree = new IncrementalMerkleTree(4);
+    tree.insertMany(Array.from({ length: 16 }, (_, i) => BigInt(i + 1)));
+
+    const path = tree.getPath(15);
+    assert.deepEqual(path.pathIndices, [1, 1, 1, 1]);
+    assert.equal(computeRootFromPath(path), tree.root);
+    assert.throws(() => tree.insert(17n), /full/);
+  });
+
+  it('rejects a path with a tampered sibling', () => {
+    const tree = new IncrementalMerkleTree();
+    tree.insertMany([11n, 12n]);
+    const path = tree.getPath(0);
+    path.pathElements[0] += 1n;
+    assert.notEqual(computeRootFromPath(path), tree.root);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * zkETHer Deposit Tree
+ * Fixed-depth incremental Merkle tree over note commitments, hashed with Poseidon(left, right).
+ * Mirrors the tree the withdrawal circuit proves membership against.
+ *
+ * Pure TypeScript: runs unchanged in the app and in Node scripts.
+ */
+
+import { poseidon2 } from 'poseidon-lite/poseidon2';
+import { keccak256, toBytes } from 'viem';
+import { SNARK_SCALAR_FIELD, toFieldElement } from './commitments';
+
+export const MERKLE_TREE_DEPTH = 20;
+export const ROOT_HISTORY_SIZE = 30;
+
+// Value of an empty leaf: keccak256("zkETHer") mod p
+export const ZERO_VALUE = BigInt(keccak256(toBytes('zkETHer'))) % SNARK_SCALAR_FIELD;
+
+export interface MerklePath {
+  leaf: bigint;
+  leafIndex: number;
+  root: bigint;
+  pathElements: bigint[]; // sibling at each level, leaf level first
+  pathIndices: number[];  // 0 = node is a left child, 1 = right child
+}
+
+export function hashLeftRight(left: bigint, right: bigint): bigint {
+  return poseidon2([left, right]);
+}
+
+export class IncrementalMerkleTree {
+  readonly depth: number;
+  readonly capacity: number;
+
+  private readonly zeros: bigint[];
+  private readonly layers: bigint[][];
+  private readonly leafIndices = new Map<bigint, number>();
+  private roots: bigint[] = [];
+
+  constructor(depth: number = MERKLE_TREE_DEPTH, private readonly rootHistorySize: number = ROOT_HISTORY_SIZE) {
+    if (depth < 1 || depth > 32) {
+      throw new Error('Merkle tree depth must be between 1 and 32');
+    }
+
+    this.depth = depth;
+    this.capacity = 2 ** depth;
+    this.zeros = [ZERO_VALUE];
+    for (let level = 1; level <= depth; level++) {
+      this.zeros.push(hashLeftRight(this.zeros[level - 1], this.zeros[level - 1]));
+    }
+    this.layers = Array.from({ length: depth + 1 }, () => []);
+    this.roots = [this.zeros[depth]];
+  }
+
+  /**
+   * Current root
+   */
+  get root(): bigint {
+    return this.roots[this.roots.length - 1];
+  }
+
+  /**
+   * Number of leaves inserted so far - also the index the next leaf will take
+   */
+  get leafCount(): number {
+    return this.layers[0].length;
+  }
+
+  /**
+   * Append a commitment and return its leaf index
+   */
+  insert(leaf: bigint | string): number {
+    const value = toFieldElement(leaf);
+    const leafIndex = this.leafCount;
+    if (leafIndex >= this.capacity) {
+      throw new Error('Merkle tree is full');
+    }
+
+    let index = leafIndex;
+    let node = value;
+    this.layers[0].push(node);
+
+    for (let level = 0; level < this.depth; level++) {
+      const isRight = index % 2 === 1;
+      const sibling = isRight ? this.layers[level][index - 1] : this.zeros[level];
+      node = isRight ? hashLeftRight(sibling, node) : hashLeftRight(node, sibling);
+      index = Math.floor(index / 2);
+      this.layers[level + 1][index] = node;
+    }
+
+    this.leafIndices.set(value, leafIndex);
+    this.roots.push(node);
+    if (this.roots.length > this.rootHistorySize) {
+      this.roots.shift();
+    }
+    return leafIndex;
+  }
+
+  insertMany(leaves: Array<bigint | string>): void {
+    leaves.forEach(leaf => this.insert(leaf));
+  }
+
+  /**
+   * Leaf index of a commitment, or -1 if it is not in the tree
+   */
+  indexOf(commitment: bigint | string): number {
+    return this.leafIndices.get(toFieldElement(commitment)) ?? -1;
+  }
+
+  /**
+   * Authentication path from a leaf to the current root
+   */
+  getPath(leafIndex: number): MerklePath {
+    if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= this.leafCount) {
+      throw new Error(`Leaf index ${leafIndex} is not in the tree`);
+    }
+
+    const pathElements: bigint[] = [];
+    const pathIndices: number[] = [];
+    let index = leafIndex;
+
+    for (let level = 0; level < this.depth; level++) {
+      const siblingIndex = index ^ 1;
+      pathElements.push(this.layers[level][siblingIndex] ?? this.zeros[level]);
+      pathIndices.push(index % 2);
+      index = Math.floor(index / 2);
+    }
+
+    return {
+      leaf: this.layers[0][leafIndex],
+      leafIndex,
+      root: this.root,
+      pathElements,
+      pathIndices
+    };
+  }
+
+  /**
+   * Recent roots, newest first; a withdrawal may prove against any of them
+   */
+  getKnownRoots(): bigint[] {
+    return [...this.roots].reverse();
+  }
+
+  isKnownRoot(root: bigint | string): boolean {
+    const value = toFieldElement(root);
+    return this.roots.includes(value);
+  }
+}
+
+/**
+ * Recompute the root implied by a path - used to sanity check paths before proving
+ */
+export function computeRootFromPath(path: Pick<MerklePath, 'leaf' | 'pathElements' | 'pathIndices'>): bigint {
+  return path.pathElements.reduce(
+    (node, sibling, level) =>
+      path.pathIndices[level] === 1 ? hashLeftRight(sibling, node) : hashLeftRight(node, sibling),
+    path.leaf
+  );
+}
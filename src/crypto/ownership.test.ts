@@ -0,0 +1,56 @@
+/**
+ * src/crypto/ownership.ts against circom/vectors/ownership_proof.json, a proof made by the compiled
+ * ownership circuit for vector 1 of circom/vectors/commitment.json.
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it } from 'node:test';
+import type { CircomProofResult } from '../../modules/mopro';
+import { spendSecretFromKey, toBytes32 } from './commitments';
+import type { VerificationKey } from './groth16';
+import { OwnershipClaim, buildOwnershipInputs, ownershipSignals, verifyOwnershipProof } from './ownership';
+
+const readJson = (...path: string[]) => JSON.parse(readFileSync(join(__dirname, '..', '..', ...path), 'utf8'));
+
+const vk = readJson('assets', 'keys', 'ownership_verification_key.json') as VerificationKey;
+const fixture = readJson('circom', 'vectors', 'ownership_proof.json') as {
+  account: string;
+  claim: OwnershipClaim;
+  proof: CircomProofResult['proof'];
+};
+const vector = readJson('circom', 'vectors', 'commitment.json').vectors[1];
+
+const note = {
+  amount: vector.input.amount,
+  secret: toBytes32(BigInt(vector.input.secret)),
+  nullifier: toBytes32(BigInt(vector.input.nullifier)),
+  commitment: toBytes32(BigInt(vector.commitment)),
+  ownerPublicKey: vector.ownerPublicKey,
+  spendingKeyHash: toBytes32(BigInt(vector.input.spendingKeyHash))
+};
+
+describe('ownership', () => {
+  it('puts the claim and account into the public inputs in circuit order', () => {
+    const inputs = buildOwnershipInputs(note, fixture.account, spendSecretFromKey(vector.spendingPrivateKey));
+    const publicInputs = [inputs.commitment, inputs.amount, inputs.nullifierHash, inputs.account].map(([value]) => value);
+    assert.deepEqual(publicInputs, ownershipSignals(fixture.claim, fixture.account));
+  });
+
+  it('refuses a spending key the note was not created for', () => {
+    assert.throws(
+      () => buildOwnershipInputs(note, fixture.account, spendSecretFromKey(`0x${'11'.repeat(32)}`)),
+      /Spending key does not match the note/
+    );
+  });
+
+  it('verifies the circuit proof for its claim and account', () => {
+    assert.equal(verifyOwnershipProof(vk, fixture.claim, fixture.account, fixture.proof), true);
+  });
+
+  it('rejects the proof for another account or amount', () => {
+    assert.equal(verifyOwnershipProof(vk, fixture.claim, '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC', fixture.proof), false);
+    assert.equal(verifyOwnershipProof(vk, { ...fixture.claim, amount: '1' }, fixture.account, fixture.proof), false);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * zkETHer Note Ownership Proofs
+ * Builds the witness input for circom/circuits/ownership.circom and checks its proofs. A disclosure
+ * bundle carries one per note, so an auditor learns that the user owns a commitment, its amount and its
+ * nullifier hash without learning the secret and nullifier that would let them withdraw it.
+ *
+ *   public:  commitment, amount, nullifierHash, account
+ *   private: secret, nullifier, ownerPubKey, spendSecret
+ */
+
+import { getAddress } from 'viem';
+import type { CircomProofResult } from '../../modules/mopro';
+import type { Note } from '../types/index';
+import {
+  Hex,
+  computeCommitment,
+  computeNullifierHash,
+  computeSpendingKeyHash,
+  publicKeyToField,
+  toFieldElement
+} from './commitments';
+import { VerificationKey, verifyGroth16 } from './groth16';
+
+export type OwnershipNote = Pick<Note, 'amount' | 'secret' | 'nullifier' | 'commitment' | 'ownerPublicKey' | 'spendingKeyHash'>;
+
+// What the proof attests to, besides the account it was made for
+export interface OwnershipClaim {
+  commitment: Hex;
+  amount: string;         // wei
+  nullifierHash: Hex;
+}
+
+// Public signals in the order the circuit declares them
+export const OWNERSHIP_PUBLIC_SIGNALS = ['commitment', 'amount', 'nullifierHash', 'account'] as const;
+
+export type OwnershipCircuitInputs = { [signal: string]: string[] };
+
+/**
+ * Build the witness input JSON proving that `account` owns `note`
+ * `spendSecret` comes from the owner's spending key (secureKeyService.authorizeSpend)
+ */
+export function buildOwnershipInputs(note: OwnershipNote, account: string, spendSecret: bigint): OwnershipCircuitInputs {
+  if (computeSpendingKeyHash(spendSecret) !== toFieldElement(note.spendingKeyHash)) {
+    throw new Error('Spending key does not match the note');
+  }
+  const commitment = computeCommitment({
+    secret: note.secret as Hex,
+    nullifier: note.nullifier as Hex,
+    amount: BigInt(note.amount),
+    ownerPublicKey: note.ownerPublicKey,
+    spendingKeyHash: note.spendingKeyHash
+  });
+  if (commitment !== toFieldElement(note.commitment)) {
+    throw new Error('Note does not open its commitment');
+  }
+
+  const field = (value: bigint | string) => [toFieldElement(value).toString()];
+
+  return {
+    commitment: field(commitment),
+    amount: field(BigInt(note.amount)),
+    nullifierHash: field(computeNullifierHash(note.nullifier, note.spendingKeyHash)),
+    account: field(getAddress(account)),
+    secret: field(note.secret),
+    nullifier: field(note.nullifier),
+    ownerPubKey: [publicKeyToField(note.ownerPublicKey).toString()],
+    spendSecret: field(spendSecret)
+  };
+}
+
+/**
+ * Public input vector of an ownership proof for `claim` made for `account`, in circuit order
+ */
+export function ownershipSignals(claim: OwnershipClaim, account: string): string[] {
+  return [
+    toFieldElement(claim.commitment),
+    toFieldElement(claim.amount),
+    toFieldElement(claim.nullifierHash),
+    toFieldElement(getAddress(account))
+  ].map(signal => signal.toString());
+}
+
+/**
+ * Check a disclosed ownership proof against the claim it came with, never against the proof's own inputs
+ */
+export function verifyOwnershipProof(
+  vk: VerificationKey,
+  claim: OwnershipClaim,
+  account: string,
+  proof: CircomProofResult['proof']
+): boolean {
+  return verifyGroth16(vk, { proof, inputs: ownershipSignals(claim, account) });
+}
@@ -0,0 +1,73 @@
+/**
+ * Proof calldata encoding round-trips, checked by verifying the decoded proof again
+ */
+
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it } from 'node:test';
+import type { CircomProofResult } from '../../modules/mopro';
+import { VerificationKey, verifyGroth16 } from './groth16';
+import { OwnershipClaim, ownershipSignals } from './ownership';
+import {
+  decodeProofBytes,
+  encodeProofBytes,
+  fromDisplayFormat,
+  fromSolidityProof,
+  toAffineProof,
+  toSolidityCalldata,
+  toSolidityProof
+} from './proofCalldata';
+
+const readJson = (...path: string[]) => JSON.parse(readFileSync(join(__dirname, '..', '..', ...path), 'utf8'));
+
+const vk = readJson('assets', 'keys', 'ownership_verification_key.json') as VerificationKey;
+const fixture = readJson('circom', 'vectors', 'ownership_proof.json') as {
+  account: string;
+  claim: OwnershipClaim;
+  proof: CircomProofResult['proof'];
+};
+const proofResult: CircomProofResult = { proof: fixture.proof, inputs: ownershipSignals(fixture.claim, fixture.account) };
+
+describe('proofCalldata', () => {
+  it('swaps G2 coordinates into EVM order', () => {
+    const affine = toAffineProof(fixture.proof);
+    const solidity = toSolidityProof(fixture.proof);
+    assert.deepEqual(solidity.a, affine.a);
+    assert.deepEqual(solidity.c, affine.c);
+    assert.deepEqual(solidity.b, [
+      [affine.b[0][1], affine.b[0][0]],
+      [affine.b[1][1], affine.b[1][0]]
+    ]);
+  });
+
+  it('round-trips the split form', () => {
+    const calldata = toSolidityCalldata(proofResult);
+    assert.deepEqual(calldata.inputs, proofResult.inputs.map(input => BigInt(input)));
+
+    const proof = fromSolidityProof(calldata);
+    assert.deepEqual(toSolidityProof(proof), toSolidityProof(fixture.proof));
+    assert.equal(verifyGroth16(vk, { proof, inputs: proofResult.inputs }), true);
+  });
+
+  it('round-trips the bytes form', () => {
+    const encoded = encodeProofBytes(fixture.proof);
+    assert.equal(encoded.length, 2 + 8 * 64);
+
+    const proof = decodeProofBytes(encoded);
+    assert.equal(proof.protocol, 'groth16');
+    assert.equal(encodeProofBytes(proof), encoded);
+    assert.equal(verifyGroth16(vk, { proof, inputs: proofResult.inputs }), true);
+  });
+
+  it('round-trips the display format', () => {
+    const proof = decodeProofBytes(encodeProofBytes(fixture.proof));
+    const formatted = { publicSignals: JSON.stringify(proofResult.inputs), proof: JSON.stringify(proof) };
+    assert.deepEqual(fromDisplayFormat(formatted), { proof, inputs: proofResult.inputs });
+  });
+
+  it('refuses to encode a point off the curve', () => {
+    const a = { ...fixture.proof.a, y: (BigInt(fixture.proof.a.y) + 1n).toString() };
+    assert.throws(() => encodeProofBytes({ ...fixture.proof, a }));
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * zkETHer Proof Calldata
+ * Converts a CircomProofResult (Jacobian G1/G2 strings from modules/mopro) into what Solidity verifiers take:
+ *
+ *   bytes form:  abi.encode(uint[2] a, uint[2][2] b, uint[2] c)
+ *   split form:  (uint[2] a, uint[2][2] b, uint[2] c, uint[] input)
+ *
+ * G2 coordinates are Fp2 elements c0 + c1·u; the EVM pairing precompile wants them as [c1, c0].
+ * fromSolidityProof/decodeProofBytes/fromDisplayFormat are the inverses, so a proof survives
+ * encode -> decode -> MoproService.formatProofForDisplay unchanged once it is affine.
+ */
+
+import { decodeAbiParameters, encodeAbiParameters } from 'viem';
+import type { CircomProof, CircomProofResult } from '../../modules/mopro';
+import type { Hex } from './commitments';
+import { toG1Point, toG2Point } from './groth16';
+
+export type Uint2 = readonly [bigint, bigint];
+export type Uint2x2 = readonly [Uint2, Uint2];
+
+export interface AffineProof {
+  a: Uint2;
+  b: Uint2x2;  // [[x.c0, x.c1], [y.c0, y.c1]]
+  c: Uint2;
+}
+
+export interface SolidityProof {
+  a: Uint2;
+  b: Uint2x2;  // [[x.c1, x.c0], [y.c1, y.c0]]
+  c: Uint2;
+}
+
+export interface SolidityCalldata extends SolidityProof {
+  inputs: bigint[];
+}
+
+export const PROOF_ABI_PARAMETERS = [
+  { name: 'a', type: 'uint256[2]' },
+  { name: 'b', type: 'uint256[2][2]' },
+  { name: 'c', type: 'uint256[2]' }
+] as const;
+
+/**
+ * Normalise proof points to affine coordinates, rejecting points that are not on the curve
+ */
+export function toAffineProof(proof: CircomProof): AffineProof {
+  const a = toG1Point(proof.a).toAffine();
+  const b = toG2Point(proof.b).toAffine();
+  const c = toG1Point(proof.c).toAffine();
+  return {
+    a: [a.x, a.y],
+    b: [
+      [b.x.c0, b.x.c1],
+      [b.y.c0, b.y.c1]
+    ],
+    c: [c.x, c.y]
+  };
+}
+
+/**
+ * Affine proof with G2 coordinates swapped into EVM order
+ */
+export function toSolidityProof(proof: CircomProof): SolidityProof {
+  const { a, b, c } = toAffineProof(proof);
+  return {
+    a,
+    b: [
+      [b[0][1], b[0][0]],
+      [b[1][1], b[1][0]]
+    ],
+    c
+  };
+}
+
+/**
+ * Arguments for a verifier taking (uint[2], uint[2][2], uint[2], uint[])
+ */
+export function toSolidityCalldata(proofResult: CircomProofResult): SolidityCalldata {
+  return {
+    ...toSolidityProof(proofResult.proof),
+    inputs: proofResult.inputs.map(input => BigInt(input))
+  };
+}
+
+/**
+ * abi.encode(a, b, c) for contracts that take the proof as `bytes`
+ */
+export function encodeProofBytes(proof: CircomProof): Hex {
+  const { a, b, c } = toSolidityProof(proof);
+  return encodeAbiParameters(PROOF_ABI_PARAMETERS, [a, b, c]);
+}
+
+/**
+ * Inverse of toSolidityProof: back to the CircomProof shape, in affine form (z = 1)
+ */
+export function fromSolidityProof(
+  proof: SolidityProof,
+  meta: Pick<CircomProof, 'protocol' | 'curve'> = { protocol: 'groth16', curve: 'bn128' }
+): CircomProof {
+  const { a, b, c } = proof;
+  return {
+    a: { x: a[0].toString(), y: a[1].toString(), z: '1' },
+    b: {
+      x: [b[0][1].toString(), b[0][0].toString()],
+      y: [b[1][1].toString(), b[1][0].toString()],
+      z: ['1', '0']
+    },
+    c: { x: c[0].toString(), y: c[1].toString(), z: '1' },
+    protocol: meta.protocol,
+    curve: meta.curve
+  };
+}
+
+/**
+ * Inverse of encodeProofBytes
+ */
+export function decodeProofBytes(
+  data: Hex,
+  meta: Pick<CircomProof, 'protocol' | 'curve'> = { protocol: 'groth16', curve: 'bn128' }
+): CircomProof {
+  const [a, b, c] = decodeAbiParameters(PROOF_ABI_PARAMETERS, data);
+  return fromSolidityProof({ a, b, c }, meta);
+}
+
+/**
+ * Rebuild a CircomProofResult from the strings produced by MoproService.formatProofForDisplay
+ */
+export function fromDisplayFormat(formatted: { publicSignals: string; proof: string }): CircomProofResult {
+  return {
+    proof: JSON.parse(formatted.proof) as CircomProof,
+    inputs: JSON.parse(formatted.publicSignals) as string[]
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Signed Sandbox API responses in the SandboxAPITypes struct layout.
+ *
+ * Responses are ABI-encoded exactly like Solidity's `abi.encode(response)`. The Sandbox key signs
+ * keccak256(abi.encode(<every field but signature>)) as an EIP-191 personal message, which is what
+ * SimpleSandboxClaimIssuer.validateSandboxResponse and EnhancedzkETHerToken.verifySandboxTDSSignature recover.
+ */
+
+import {
+  Address,
+  Hex,
+  LocalAccount,
+  decodeAbiParameters,
+  encodeAbiParameters,
+  keccak256,
+  recoverMessageAddress
+} from 'viem';
+
+export interface SandboxExtractedData {
+  name: string;
+  aadhaar_number: string;
+  pan_number: string;
+  dob: string;
+  user_address: string;
+  father_name: string;
+}
+
+export interface SandboxVerificationResponse {
+  verification_id: string;
+  status: string;
+  timestamp: bigint;           // unix seconds
+  verification_type: string;
+  confidence_score: bigint;    // scaled by 10000 (0.98 = 9800)
+  extracted_data: SandboxExtractedData;
+  signature: Hex;
+}
+
+export interface SandboxTDSCalculationResponse {
+  transaction_id: string;
+  gross_amount: bigint;
+  tds_rate: bigint;            // scaled by 10000 (1% = 100)
+  tds_amount: bigint;
+  net_amount: bigint;
+  tds_certificate: string;     // base64 encoded
+  signature: Hex;
+}
+
+export type Unsigned<T extends { signature: Hex }> = Omit<T, 'signature'>;
+
+const EXTRACTED_DATA_COMPONENTS = [
+  { name: 'name', type: 'string' },
+  { name: 'aadhaar_number', type: 'string' },
+  { name: 'pan_number', type: 'string' },
+  { name: 'dob', type: 'string' },
+  { name: 'user_address', type: 'string' },
+  { name: 'father_name', type: 'string' }
+] as const;
+
+const VERIFICATION_FIELDS = [
+  { name: 'verification_id', type: 'string' },
+  { name: 'status', type: 'string' },
+  { name: 'timestamp', type: 'uint256' },
+  { name: 'verification_type', type: 'string' },
+  { name: 'confidence_score', type: 'uint256' },
+  { name: 'extracted_data', type: 'tuple', components: EXTRACTED_DATA_COMPONENTS }
+] as const;
+
+const TDS_CALCULATION_FIELDS = [
+  { name: 'transaction_id', type: 'string' },
+  { name: 'gross_amount', type: 'uint256' },
+  { name: 'tds_rate', type: 'uint256' },
+  { name: 'tds_amount', type: 'uint256' },
+  { name: 'net_amount', type: 'uint256' },
+  { name: 'tds_certificate', type: 'string' }
+] as const;
+
+// SandboxAPITypes.VerificationResponse
+export const VERIFICATION_RESPONSE_ABI_PARAMETERS = [
+  { type: 'tuple', components: [...VERIFICATION_FIELDS, { name: 'signature', type: 'bytes' }] }
+] as const;
+
+// SandboxAPITypes.TDSCalculationResponse
+export const TDS_CALCULATION_RESPONSE_ABI_PARAMETERS = [
+  { type: 'tuple', components: [...TDS_CALCULATION_FIELDS, { name: 'signature', type: 'bytes' }] }
+] as const;
+
+/**
+ * Hash the Sandbox key signs for a verification response (before the EIP-191 prefix)
+ */
+export function verificationResponseHash(response: Unsigned<SandboxVerificationResponse>): Hex {
+  return keccak256(encodeAbiParameters(VERIFICATION_FIELDS, [
+    response.verification_id,
+    response.status,
+    response.timestamp,
+    response.verification_type,
+    response.confidence_score,
+    response.extracted_data
+  ]));
+}
+
+/**
+ * Hash the Sandbox key signs for a TDS calculation (before the EIP-191 prefix)
+ */
+export function tdsCalculationResponseHash(response: Unsigned<SandboxTDSCalculationResponse>): Hex {
+  return keccak256(encodeAbiParameters(TDS_CALCULATION_FIELDS, [
+    response.transaction_id,
+    response.gross_amount,
+    response.tds_rate,
+    response.tds_amount,
+    response.net_amount,
+    response.tds_certificate
+  ]));
+}
+
+export async function signVerificationResponse(
+  response: Unsigned<SandboxVerificationResponse>,
+  sandboxKey: LocalAccount
+): Promise<SandboxVerificationResponse> {
+  const signature = await sandboxKey.signMessage({ message: { raw: verificationResponseHash(response) } });
+  return { ...response, signature };
+}
+
+export async function signTDSCalculationResponse(
+  response: Unsigned<SandboxTDSCalculationResponse>,
+  sandboxKey: LocalAccount
+): Promise<SandboxTDSCalculationResponse> {
+  const signature = await sandboxKey.signMessage({ message: { raw: tdsCalculationResponseHash(response) } });
+  return { ...response, signature };
+}
+
+/**
+ * `sandboxResponse` bytes for the ClaimIssuer's issue*Claim functions
+ */
+export function encodeVerificationResponse(response: SandboxVerificationResponse): Hex {
+  return encodeAbiParameters(VERIFICATION_RESPONSE_ABI_PARAMETERS, [response]);
+}
+
+export function decodeVerificationResponse(data: Hex): SandboxVerificationResponse {
+  const [response] = decodeAbiParameters(VERIFICATION_RESPONSE_ABI_PARAMETERS, data);
+  return { ...response, extracted_data: { ...response.extracted_data } };
+}
+
+/**
+ * Address that signed a verification response - compare with the ClaimIssuer's sandboxPublicKey
+ */
+export async function recoverVerificationSigner(response: SandboxVerificationResponse): Promise<Address> {
+  return recoverMessageAddress({ message: { raw: verificationResponseHash(response) }, signature: response.signature });
+}
+
+export async function recoverTDSCalculationSigner(response: SandboxTDSCalculationResponse): Promise<Address> {
+  return recoverMessageAddress({ message: { raw: tdsCalculationResponseHash(response) }, signature: response.signature });
+}
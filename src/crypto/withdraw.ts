@@ -0,0 +1,180 @@
+/**
+ * zkETHer Withdrawal Inputs
+ * Builds the witness input for circom/circuits/withdraw.circom and packs the resulting proof into the
+ * `_proof` bytes taken by the token's withdraw(_amount, _nullifierHash, _proof).
+ *
+ *   public:  root, nullifierHash, amount, recipient, relayer, fee
+ *   private: secret, nullifier, ownerPubKey, spendSecret, pathElements[20], pathIndices[20]
+ *
+ * `_proof` = abi.encode(uint256[2] a, uint256[2][2] b, uint256[2] c,
+ *                       uint256 root, address recipient, address relayer, uint256 fee)
+ * with a, b, c in Solidity order (see proofCalldata.ts).
+ * amount and nullifierHash travel as the function's own arguments, so the contract can rebuild the
+ * full public input vector in circuit order.
+ */
+
+import { decodeAbiParameters, encodeAbiParameters, getAddress } from 'viem';
+import type { CircomProofResult } from '../../modules/mopro';
+import type { Note } from '../types/index';
+import {
+  Hex,
+  computeCommitment,
+  computeNullifierHash,
+  computeSpendingKeyHash,
+  publicKeyToField,
+  toBytes32,
+  toFieldElement
+} from './commitments';
+import { MERKLE_TREE_DEPTH, MerklePath, computeRootFromPath } from './merkleTree';
+import { fromSolidityProof, toSolidityProof } from './proofCalldata';
+
+export type WithdrawNote = Pick<Note, 'amount' | 'secret' | 'nullifier' | 'commitment' | 'ownerPublicKey' | 'spendingKeyHash'>;
+
+export interface WithdrawRequest {
+  recipient: string;  // address that receives the ETH
+  relayer?: string;   // address paid the fee, zero address for self-submitted withdrawals
+  fee?: bigint;       // wei, deducted from the note amount
+}
+
+// Public signals in the order the circuit declares them
+export const WITHDRAW_PUBLIC_SIGNALS = ['root', 'nullifierHash', 'amount', 'recipient', 'relayer', 'fee'] as const;
+
+export type WithdrawCircuitInputs = { [signal: string]: string[] };
+
+export interface WithdrawCalldata {
+  amount: bigint;
+  nullifierHash: Hex;
+  proof: Hex;
+}
+
+export interface DecodedWithdrawal {
+  root: bigint;
+  nullifierHash: Hex;
+  amount: bigint;
+  recipient: `0x${string}`;
+  relayer: `0x${string}`;
+  fee: bigint;
+  proofResult: CircomProofResult;  // proof plus public signals in circuit order, ready for verifyGroth16
+}
+
+// Layout of the `_proof` bytes
+const WITHDRAW_PROOF_ABI_PARAMETERS = [
+  { type: 'uint256[2]' },
+  { type: 'uint256[2][2]' },
+  { type: 'uint256[2]' },
+  { type: 'uint256' },
+  { type: 'address' },
+  { type: 'address' },
+  { type: 'uint256' }
+] as const;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Build the witness input JSON for a withdrawal, after checking it against the note and path locally
+ * `spendSecret` comes from the owner's spending key (secureKeyService.authorizeSpend)
+ */
+export function buildWithdrawInputs(
+  note: WithdrawNote,
+  merklePath: MerklePath,
+  request: WithdrawRequest,
+  spendSecret: bigint
+): WithdrawCircuitInputs {
+  const amount = BigInt(note.amount);
+  const fee = request.fee ?? 0n;
+  const recipient = getAddress(request.recipient);
+  const relayer = getAddress(request.relayer ?? ZERO_ADDRESS);
+
+  if (fee < 0n || fee > amount) {
+    throw new Error('Relayer fee must be between 0 and the note amount');
+  }
+  if (merklePath.pathElements.length !== MERKLE_TREE_DEPTH || merklePath.pathIndices.length !== MERKLE_TREE_DEPTH) {
+    throw new Error(`Merkle path must have ${MERKLE_TREE_DEPTH} levels`);
+  }
+
+  // Catch mismatched notes and stale paths here instead of as an opaque witness failure on device
+  if (computeSpendingKeyHash(spendSecret) !== toFieldElement(note.spendingKeyHash)) {
+    throw new Error('Spending key does not match the note');
+  }
+  const commitment = computeCommitment({
+    secret: note.secret as Hex,
+    nullifier: note.nullifier as Hex,
+    amount,
+    ownerPublicKey: note.ownerPublicKey,
+    spendingKeyHash: note.spendingKeyHash
+  });
+  if (commitment !== toFieldElement(note.commitment) || commitment !== merklePath.leaf) {
+    throw new Error('Note does not match the commitment in the Merkle path');
+  }
+  if (computeRootFromPath(merklePath) !== merklePath.root) {
+    throw new Error('Merkle path does not lead to its root');
+  }
+
+  const field = (value: bigint | string) => [toFieldElement(value).toString()];
+
+  return {
+    root: field(merklePath.root),
+    nullifierHash: field(computeNullifierHash(note.nullifier, note.spendingKeyHash)),
+    amount: field(amount),
+    recipient: field(recipient),
+    relayer: field(relayer),
+    fee: field(fee),
+    secret: field(note.secret),
+    nullifier: field(note.nullifier),
+    ownerPubKey: [publicKeyToField(note.ownerPublicKey).toString()],
+    spendSecret: field(spendSecret),
+    pathElements: merklePath.pathElements.map(element => element.toString()),
+    pathIndices: merklePath.pathIndices.map(index => index.toString())
+  };
+}
+
+/**
+ * Pack a withdrawal proof into withdraw(_amount, _nullifierHash, _proof) arguments
+ */
+export function encodeWithdrawCalldata(proofResult: CircomProofResult): WithdrawCalldata {
+  const signals = proofResult.inputs.map(input => BigInt(input));
+  if (signals.length !== WITHDRAW_PUBLIC_SIGNALS.length) {
+    throw new Error(`Expected ${WITHDRAW_PUBLIC_SIGNALS.length} public signals, got ${signals.length}`);
+  }
+  const [root, nullifierHash, amount, recipient, relayer, fee] = signals;
+  const { a, b, c } = toSolidityProof(proofResult.proof);
+
+  const proof = encodeAbiParameters(WITHDRAW_PROOF_ABI_PARAMETERS, [
+    a,
+    b,
+    c,
+    root,
+    toAddress(recipient),
+    toAddress(relayer),
+    fee
+  ]);
+
+  return { amount, nullifierHash: toBytes32(nullifierHash), proof };
+}
+
+/**
+ * Inverse of encodeWithdrawCalldata - lets a relayer check the bound recipient/relayer/fee and verify
+ * the proof before paying gas for it
+ */
+export function decodeWithdrawCalldata(calldata: WithdrawCalldata): DecodedWithdrawal {
+  const [a, b, c, root, recipient, relayer, fee] = decodeAbiParameters(WITHDRAW_PROOF_ABI_PARAMETERS, calldata.proof);
+  const nullifierHash = toFieldElement(calldata.nullifierHash);
+  const signals = [root, nullifierHash, calldata.amount, BigInt(recipient), BigInt(relayer), fee];
+
+  return {
+    root,
+    nullifierHash: toBytes32(nullifierHash),
+    amount: calldata.amount,
+    recipient: getAddress(recipient),
+    relayer: getAddress(relayer),
+    fee,
+    proofResult: {
+      proof: fromSolidityProof({ a, b, c }),
+      inputs: signals.map(signal => signal.toString())
+    }
+  };
+}
+
+function toAddress(value: bigint): `0x${string}` {
+  return getAddress(`0x${value.toString(16).padStart(40, '0')}`);
+}
@@ -0,0 +1,75 @@
+/**
+ * zkETHer Circuit Registry
+ * Every circuit the app can prove, with its bundled assets and the checksums they must match.
+ * Bump `version` whenever a circuit's assets change so devices drop their old copies;
+ * `npm run checksums` in circom/ prints the digests for assets/keys.
+ */
+
+import { ProofLibOption } from '../../modules/mopro';
+
+export type CircuitId = 'multiplier2' | 'withdraw' | 'ownership';
+
+export interface CircuitAsset {
+  fileName: string;
+  asset: number;   // require()d asset module
+  sha256: string;  // hex, no 0x prefix
+}
+
+export interface CircuitDefinition {
+  id: CircuitId;
+  version: string;
+  zkey: CircuitAsset;
+  wasm?: CircuitAsset;  // only needed for in-browser witness generation
+  proofLib: ProofLibOption;
+}
+
+export const CIRCUIT_REGISTRY: Record<CircuitId, CircuitDefinition> = {
+  multiplier2: {
+    id: 'multiplier2',
+    version: '1',
+    zkey: {
+      fileName: 'multiplier2_final.zkey',
+      asset: require('../../assets/keys/multiplier2_final.zkey'),
+      sha256: '22b699b84769bc00f3b2917a87a71b36bd2d625ea041fa850ea14ce9fb60d485'
+    },
+    proofLib: ProofLibOption.Arkworks
+  },
+  withdraw: {
+    id: 'withdraw',
+    version: '2',
+    zkey: {
+      fileName: 'withdraw_final.zkey',
+      asset: require('../../assets/keys/withdraw_final.zkey'),
+      sha256: '8be5ba3bbd1c6d1217c6b5d92015deadf38ab5fd0969a72a32f1771242048684'
+    },
+    wasm: {
+      fileName: 'withdraw.wasm',
+      asset: require('../../assets/keys/withdraw.wasm'),
+      sha256: '1720776e6482d32817be24baff629b4f40985b9f2c3bf2376476ce693186902d'
+    },
+    proofLib: ProofLibOption.Arkworks
+  },
+  ownership: {
+    id: 'ownership',
+    version: '1',
+    zkey: {
+      fileName: 'ownership_final.zkey',
+      asset: require('../../assets/keys/ownership_final.zkey'),
+      sha256: '3d9a590f53bced2307e68f92e3c3d726d12318b2c3e3f08e4b9eeb7ca78083fe'
+    },
+    wasm: {
+      fileName: 'ownership.wasm',
+      asset: require('../../assets/keys/ownership.wasm'),
+      sha256: '07c5444085f27170fb66f99343d0c47a45f665e8f4b97cf538a03aaf60ec647f'
+    },
+    proofLib: ProofLibOption.Arkworks
+  }
+};
+
+export function getCircuitDefinition(id: CircuitId): CircuitDefinition {
+  const circuit = CIRCUIT_REGISTRY[id];
+  if (!circuit) {
+    throw new Error(`Unknown circuit: ${id}`);
+  }
+  return circuit;
+}
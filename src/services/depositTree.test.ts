@@ -0,0 +1,94 @@
+/**
+ * Rebuilding the deposit tree from Deposit events, against an in-memory log source
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { toBytes32 } from '../crypto/commitments';
+import { IncrementalMerkleTree, computeRootFromPath } from '../crypto/merkleTree';
+import { DepositLogClient, DepositTree } from './depositTree';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+interface FakeDeposit {
+  blockNumber: bigint;
+  commitment: `0x${string}`;
+}
+
+/**
+ * Serves Deposit logs by block range and records every range asked for
+ */
+function fakeClient(deposits: FakeDeposit[], latestBlock: bigint) {
+  const requests: Array<[bigint, bigint]> = [];
+  const client = {
+    getBlockNumber: async () => latestBlock,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+      requests.push([fromBlock, toBlock]);
+      return deposits
+        .filter(deposit => deposit.blockNumber >= fromBlock && deposit.blockNumber <= toBlock)
+        .map(deposit => ({
+          args: { commitment: deposit.commitment, amount: 990n },
+          blockNumber: deposit.blockNumber,
+          transactionHash: toBytes32(deposit.blockNumber)
+        }));
+    }
+  };
+  return { client: client as unknown as DepositLogClient, requests };
+}
+
+const deposits: FakeDeposit[] = [1n, 2n, 3n, 4n, 5n].map(n => ({ blockNumber: n * 3n, commitment: toBytes32(n + 100n) }));
+
+describe('DepositTree', () => {
+  it('inserts deposits in chain order across log batches', async () => {
+    const { client, requests } = fakeClient(deposits, 20n);
+    const depositTree = new DepositTree(client, TOKEN, { startBlock: 1n, batchSize: 4n });
+    await depositTree.sync();
+
+    const expected = new IncrementalMerkleTree();
+    expected.insertMany(deposits.map(deposit => deposit.commitment));
+    assert.equal(depositTree.root, expected.root);
+    assert.equal(depositTree.leafCount, 5);
+    assert.equal(depositTree.syncedBlock, 20n);
+    assert.deepEqual(requests, [[1n, 4n], [5n, 8n], [9n, 12n], [13n, 16n], [17n, 20n]]);
+  });
+
+  it('gives paths and deposit records by commitment', async () => {
+    const { client } = fakeClient(deposits, 20n);
+    const depositTree = new DepositTree(client, TOKEN);
+    await depositTree.sync();
+
+    const last = deposits[deposits.length - 1];
+    const path = depositTree.getPath(last.commitment);
+    assert.equal(path.leafIndex, 4);
+    assert.equal(computeRootFromPath(path), depositTree.root);
+    assert.deepEqual(depositTree.getDeposit(last.commitment), {
+      commitment: last.commitment,
+      amount: 990n,
+      leafIndex: 4,
+      blockNumber: last.blockNumber,
+      transactionHash: toBytes32(last.blockNumber)
+    });
+    assert.equal(depositTree.getDeposit(toBytes32(999n)), null);
+    assert.throws(() => depositTree.getPath(toBytes32(999n)), /not found/);
+  });
+
+  it('only reads new blocks on the next sync', async () => {
+    const { client, requests } = fakeClient(deposits, 9n);
+    const depositTree = new DepositTree(client, TOKEN);
+    await depositTree.sync();
+    assert.equal(depositTree.leafCount, 3);
+
+    (client as { getBlockNumber: () => Promise<bigint> }).getBlockNumber = async () => 20n;
+    await depositTree.sync();
+    assert.equal(depositTree.leafCount, 5);
+    assert.deepEqual(requests, [[0n, 9n], [10n, 20n]]);
+  });
+
+  it('shares one sync between concurrent callers', async () => {
+    const { client, requests } = fakeClient(deposits, 20n);
+    const depositTree = new DepositTree(client, TOKEN);
+    const [first, second] = await Promise.all([depositTree.sync(), depositTree.sync()]);
+    assert.equal(first, second);
+    assert.equal(requests.length, 1);
+  });
+});
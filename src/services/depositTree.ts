@@ -0,0 +1,133 @@
+/**
+ * zkETHer Deposit Tree Sync
+ * Rebuilds the deposit pool's Merkle tree from the token's Deposit events.
+ * Only depends on viem, so Node scripts can use it with their own public client.
+ */
+
+import { getAbiItem, PublicClient } from 'viem';
+import { ZKETHER_TOKEN_ABI } from '../contracts';
+import { IncrementalMerkleTree, MerklePath, MERKLE_TREE_DEPTH } from '../crypto/merkleTree';
+
+export const DEPOSIT_EVENT = getAbiItem({ abi: ZKETHER_TOKEN_ABI, name: 'Deposit' });
+
+export type DepositLogClient = Pick<PublicClient, 'getLogs' | 'getBlockNumber'>;
+
+export interface DepositRecord {
+  commitment: `0x${string}`;
+  amount: bigint;
+  leafIndex: number;
+  blockNumber: bigint;
+  transactionHash: `0x${string}`;
+}
+
+export interface DepositTreeOptions {
+  startBlock?: bigint;  // token deployment block
+  batchSize?: bigint;   // blocks per eth_getLogs request
+  depth?: number;
+}
+
+export class DepositTree {
+  readonly tree: IncrementalMerkleTree;
+
+  private deposits: DepositRecord[] = [];
+  private nextBlock: bigint;
+  private readonly batchSize: bigint;
+  private syncing: Promise<IncrementalMerkleTree> | null = null;
+
+  constructor(
+    private readonly client: DepositLogClient,
+    private readonly tokenAddress: `0x${string}`,
+    options: DepositTreeOptions = {}
+  ) {
+    this.tree = new IncrementalMerkleTree(options.depth ?? MERKLE_TREE_DEPTH);
+    this.nextBlock = options.startBlock ?? 0n;
+    this.batchSize = options.batchSize ?? 5000n;
+  }
+
+  /**
+   * Pull Deposit events up to the latest block and append them to the tree.
+   * Concurrent callers share the same in-flight sync.
+   */
+  sync(): Promise<IncrementalMerkleTree> {
+    if (!this.syncing) {
+      this.syncing = this.syncToLatest().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  get root(): bigint {
+    return this.tree.root;
+  }
+
+  get leafCount(): number {
+    return this.tree.leafCount;
+  }
+
+  /**
+   * Last block whose deposits are reflected in the tree
+   */
+  get syncedBlock(): bigint {
+    return this.nextBlock - 1n;
+  }
+
+  indexOf(commitment: bigint | string): number {
+    return this.tree.indexOf(commitment);
+  }
+
+  getPath(commitment: bigint | string): MerklePath {
+    const leafIndex = this.tree.indexOf(commitment);
+    if (leafIndex < 0) {
+      throw new Error('Commitment not found in the deposit tree');
+    }
+    return this.tree.getPath(leafIndex);
+  }
+
+  getKnownRoots(): bigint[] {
+    return this.tree.getKnownRoots();
+  }
+
+  getDeposit(commitment: string): DepositRecord | null {
+    const leafIndex = this.tree.indexOf(commitment);
+    return leafIndex < 0 ? null : this.deposits[leafIndex];
+  }
+
+  getDeposits(): DepositRecord[] {
+    return [...this.deposits];
+  }
+
+  private async syncToLatest(): Promise<IncrementalMerkleTree> {
+    const latestBlock = await this.client.getBlockNumber();
+
+    while (this.nextBlock <= latestBlock) {
+      const toBlock = this.nextBlock + this.batchSize - 1n < latestBlock
+        ? this.nextBlock + this.batchSize - 1n
+        : latestBlock;
+
+      const logs = await this.client.getLogs({
+        address: this.tokenAddress,
+        event: DEPOSIT_EVENT,
+        fromBlock: this.nextBlock,
+        toBlock
+      });
+
+      // Logs come back in chain order (block, then log index) - the same order the pool inserts them
+      for (const log of logs) {
+        const commitment = log.args.commitment as `0x${string}`;
+        const leafIndex = this.tree.insert(commitment);
+        this.deposits.push({
+          commitment,
+          amount: log.args.amount as bigint,
+          leafIndex,
+          blockNumber: log.blockNumber as bigint,
+          transactionHash: log.transactionHash as `0x${string}`
+        });
+      }
+
+      this.nextBlock = toBlock + 1n;
+    }
+
+    return this.tree;
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Which notes fall in a disclosure's date range, and bundles opened by the auditor they were made for
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createDisclosureBundle, isNoteInRange, openDisclosureBundle } from './disclosureBundle';
+import { generateHexKeyPair } from './libsodiumHelper.js';
+
+const FROM = new Date('2025-04-01T00:00:00Z');
+const TO = new Date('2026-03-31T23:59:59Z');
+const at = (date: string) => new Date(date).getTime();
+
+describe('isNoteInRange', () => {
+  it('includes a note deposited in the range', () => {
+    assert.equal(isNoteInRange({ depositTimestamp: at('2025-06-01') }, FROM, TO), true);
+  });
+
+  it('includes a note deposited earlier and withdrawn in the range', () => {
+    assert.equal(isNoteInRange({ depositTimestamp: at('2024-06-01'), spentTimestamp: at('2025-06-01') }, FROM, TO), true);
+  });
+
+  it('excludes a note deposited and withdrawn before the range', () => {
+    assert.equal(isNoteInRange({ depositTimestamp: at('2024-06-01'), spentTimestamp: at('2024-09-01') }, FROM, TO), false);
+  });
+
+  it('excludes a note deposited after the range', () => {
+    assert.equal(isNoteInRange({ depositTimestamp: at('2026-06-01') }, FROM, TO), false);
+  });
+
+  it('counts a note spent at an unknown time by its deposit only', () => {
+    assert.equal(isNoteInRange({ depositTimestamp: at('2024-06-01') }, FROM, TO), false);
+  });
+});
+
+describe('disclosure bundles', () => {
+  const payload = {
+    chainId: 31337,
+    token: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    userAddress: '0x70997970C51812dc3A010C7d01b50e54d831dc79',
+    from: FROM.toISOString(),
+    to: TO.toISOString(),
+    createdAt: TO.toISOString(),
+    notes: []
+  };
+
+  it('opens with the auditor key it was encrypted to', async () => {
+    const auditor = await generateHexKeyPair();
+    const bundle = await createDisclosureBundle(payload, auditor.publicKey);
+    assert.deepEqual(await openDisclosureBundle(bundle, auditor.privateKey), payload);
+  });
+
+  it('does not open with another key', async () => {
+    const auditor = await generateHexKeyPair();
+    const other = await generateHexKeyPair();
+    const bundle = await createDisclosureBundle(payload, auditor.publicKey);
+    await assert.rejects(openDisclosureBundle(bundle, other.privateKey), /not encrypted to this auditor key/);
+  });
+});
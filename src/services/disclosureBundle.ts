@@ -0,0 +1,129 @@
+/**
+ * zkETHer Disclosure Bundles
+ * What a user hands an auditor: their notes in a date range, encrypted to the auditor's X25519 public key.
+ *
+ *   { format: 'zkether-disclosure', version: 2, auditorPublicKey, ephemeralPublicKey, nonce, ciphertext }
+ *
+ * The ciphertext is a libsodium box of the JSON DisclosurePayload. Each note is disclosed as its commitment,
+ * amount, leaf index and nullifier hash, with an ownership proof (src/crypto/ownership.ts) that the user's
+ * spending key owns the commitment, that the amount is the note's and that the nullifier hash is its.
+ * The proof is bound to userAddress. The note's secret and nullifier never leave the device, so the auditor
+ * cannot withdraw it. The auditor checks every note against the Deposit and Withdrawal events
+ * (scripts/verify-disclosure.ts), so the user cannot misstate them.
+ */
+
+import type { CircomProofResult } from '../../modules/mopro';
+import { Hex } from '../crypto/commitments';
+import type { Note } from '../types/index';
+import { boxDecrypt, boxEncrypt } from './libsodiumHelper.js';
+
+export const DISCLOSURE_FORMAT = 'zkether-disclosure';
+export const DISCLOSURE_VERSION = 2;
+
+export interface DisclosedNote {
+  commitment: Hex;
+  amount: string;           // wei
+  leafIndex: number;        // position of the commitment in the deposit tree
+  depositBlock: number;     // block of the deposit that added the commitment
+  nullifierHash: Hex;       // published by the note's withdrawal, if any
+  proof: CircomProofResult['proof'];  // ownership proof for the fields above and userAddress
+}
+
+export interface DisclosurePayload {
+  chainId: number;
+  token: string;            // zkETHer token the notes live in
+  userAddress: string;
+  onchainId?: string;
+  from: string;             // ISO timestamps; deposits and withdrawals in [from, to] are disclosed
+  to: string;
+  createdAt: string;
+  notes: DisclosedNote[];
+}
+
+export interface DisclosureBundle {
+  format: typeof DISCLOSURE_FORMAT;
+  version: number;
+  auditorPublicKey: string;
+  ephemeralPublicKey: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+const KEY_HEX = /^0x[0-9a-fA-F]{64}$/;
+
+export function isX25519PublicKey(value: string): boolean {
+  return KEY_HEX.test(value.trim());
+}
+
+/**
+ * True when the note was deposited or withdrawn in [from, to]; notes spent at an unknown time only count
+ * by their deposit
+ */
+export function isNoteInRange(note: Pick<Note, 'depositTimestamp' | 'spentTimestamp'>, from: Date, to: Date): boolean {
+  const within = (time?: number) => time !== undefined && time >= from.getTime() && time <= to.getTime();
+  return within(note.depositTimestamp) || within(note.spentTimestamp);
+}
+
+/**
+ * Encrypt `payload` to the auditor; returns the bundle as JSON text
+ */
+export async function createDisclosureBundle(payload: DisclosurePayload, auditorPublicKey: string): Promise<string> {
+  if (!isX25519PublicKey(auditorPublicKey)) {
+    throw new Error('Auditor key must be a 32-byte X25519 public key (0x + 64 hex characters)');
+  }
+
+  const sealed = await boxEncrypt(new TextEncoder().encode(JSON.stringify(payload)), auditorPublicKey.trim());
+  const bundle: DisclosureBundle = {
+    format: DISCLOSURE_FORMAT,
+    version: DISCLOSURE_VERSION,
+    auditorPublicKey: auditorPublicKey.trim(),
+    ...sealed
+  };
+  return JSON.stringify(bundle);
+}
+
+/**
+ * Parse and validate the bundle envelope without decrypting it
+ */
+export function parseDisclosureBundle(text: string): DisclosureBundle {
+  let bundle: Partial<DisclosureBundle>;
+  try {
+    bundle = JSON.parse(text.trim());
+  } catch {
+    throw new Error('Not a zkETHer disclosure bundle');
+  }
+
+  if (bundle?.format !== DISCLOSURE_FORMAT) {
+    throw new Error('Not a zkETHer disclosure bundle');
+  }
+  if (bundle.version !== DISCLOSURE_VERSION) {
+    throw new Error(`Unsupported disclosure bundle version ${bundle.version}`);
+  }
+  if (
+    !KEY_HEX.test(bundle.auditorPublicKey || '') ||
+    !KEY_HEX.test(bundle.ephemeralPublicKey || '') ||
+    typeof bundle.nonce !== 'string' ||
+    typeof bundle.ciphertext !== 'string'
+  ) {
+    throw new Error('Disclosure bundle is corrupted');
+  }
+  return bundle as DisclosureBundle;
+}
+
+/**
+ * Decrypt a bundle with the auditor's private key
+ */
+export async function openDisclosureBundle(text: string, auditorPrivateKey: string): Promise<DisclosurePayload> {
+  const bundle = parseDisclosureBundle(text);
+
+  const plaintext = await boxDecrypt(bundle, auditorPrivateKey);
+  if (!plaintext) {
+    throw new Error('This disclosure bundle was not encrypted to this auditor key');
+  }
+
+  const payload = JSON.parse(new TextDecoder().decode(plaintext)) as DisclosurePayload;
+  if (!Array.isArray(payload.notes) || !payload.token || Number.isNaN(Date.parse(payload.from)) || Number.isNaN(Date.parse(payload.to))) {
+    throw new Error('Disclosure bundle is corrupted');
+  }
+  return payload;
+}
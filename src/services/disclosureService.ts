@@ -0,0 +1,153 @@
+/**
+ * zkETHer Disclosure Service
+ * Builds auditor disclosure bundles (see disclosureBundle.ts) from the note store and remembers the
+ * user's reporting preferences. Each disclosed note gets an ownership proof made with its spending key.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAbiItem } from 'viem';
+import { ZKETHER_TOKEN_ABI } from '../contracts';
+import { computeNullifierHash, toBytes32 } from '../crypto/commitments';
+import { Note } from '../types/index';
+import { DisclosedNote, createDisclosureBundle, isNoteInRange, isX25519PublicKey } from './disclosureBundle';
+import { moproService } from './moproService';
+import { noteStore } from './noteStore';
+import { secureKeyService } from './secureKeyService';
+import { zkETHerTokenService } from './zkETHerTokenService';
+
+const WITHDRAWAL_EVENT = getAbiItem({ abi: ZKETHER_TOKEN_ABI, name: 'Withdrawal' });
+
+export interface DisclosureSettings {
+  shareWithAuthorities: boolean;
+  auditorPublicKey?: string;     // last auditor a bundle was created for
+}
+
+export interface DisclosureRequest {
+  userAddress: string;
+  auditorPublicKey: string;
+  from: Date;                    // inclusive
+  to: Date;                      // inclusive
+}
+
+export interface DisclosureResult {
+  bundle: string;                // JSON text, encrypted to the auditor
+  notesDisclosed: number;
+  notesSkipped: number;          // in range, but not provably ours (imported, or older than spending key binding)
+}
+
+class DisclosureService {
+  private readonly SETTINGS_KEY = 'zkether_disclosure_settings';
+
+  async getSettings(): Promise<DisclosureSettings> {
+    const stored = await AsyncStorage.getItem(this.SETTINGS_KEY);
+    return stored ? JSON.parse(stored) : { shareWithAuthorities: false };
+  }
+
+  async updateSettings(changes: Partial<DisclosureSettings>): Promise<DisclosureSettings> {
+    const settings = { ...(await this.getSettings()), ...changes };
+    await AsyncStorage.setItem(this.SETTINGS_KEY, JSON.stringify(settings));
+    return settings;
+  }
+
+  /**
+   * Notes deposited or withdrawn in [from, to]
+   */
+  async getNotesInRange(from: Date, to: Date): Promise<Note[]> {
+    const notes = await noteStore.getNotes();
+
+    // Notes a scan found spent have no spend time; read it from their Withdrawal event when only the
+    // withdrawal could fall in the range
+    const undated = notes.filter(note =>
+      note.spent && note.spentTimestamp === undefined && note.spendingKeyHash && note.depositTimestamp < from.getTime()
+    );
+    if (undated.length > 0) {
+      const client = zkETHerTokenService.getPublicClient();
+      const withdrawals = await client.getLogs({
+        address: zkETHerTokenService.getTokenAddress(),
+        event: WITHDRAWAL_EVENT,
+        fromBlock: BigInt(Math.min(...undated.map(note => note.depositBlock)))
+      });
+      for (const note of undated) {
+        const nullifierHash = toBytes32(computeNullifierHash(note.nullifier, note.spendingKeyHash)).toLowerCase();
+        const withdrawal = withdrawals.find(log => (log.args.nullifierHash as string).toLowerCase() === nullifierHash);
+        if (!withdrawal) continue;
+
+        const { timestamp } = await client.getBlock({ blockNumber: withdrawal.blockNumber });
+        note.spentTimestamp = Number(timestamp) * 1000;
+        await noteStore.markSpent(note.commitment, note.spentTimestamp);
+      }
+    }
+
+    return notes.filter(note => isNoteInRange(note, from, to));
+  }
+
+  /**
+   * Build a disclosure bundle for the notes in [from, to], encrypted to the auditor
+   */
+  async createBundle(request: DisclosureRequest): Promise<DisclosureResult> {
+    const auditorPublicKey = request.auditorPublicKey.trim();
+    if (!isX25519PublicKey(auditorPublicKey)) {
+      throw new Error('Auditor key must be a 32-byte X25519 public key (0x + 64 hex characters)');
+    }
+    if (request.from.getTime() > request.to.getTime()) {
+      throw new Error('The start date must be before the end date');
+    }
+
+    const notes = await this.getNotesInRange(request.from, request.to);
+    if (notes.length === 0) {
+      throw new Error('No notes in this date range');
+    }
+
+    // One biometric/PIN prompt per spending key; notes of keys this device does not hold are skipped
+    const spendSecrets = await secureKeyService.authorizeSpends(
+      notes.filter(note => note.spendingKeyHash).map(note => note.spendingKeyHash)
+    );
+
+    const disclosed: DisclosedNote[] = [];
+    for (const note of notes) {
+      const spendSecret = note.spendingKeyHash ? spendSecrets.get(note.spendingKeyHash.toLowerCase()) : undefined;
+      if (spendSecret === undefined) {
+        console.warn('⚠️ Cannot prove ownership of note', note.commitment.slice(0, 10) + '...');
+        continue;
+      }
+      const { proof } = await moproService.generateOwnershipProof(note, request.userAddress, spendSecret);
+
+      disclosed.push({
+        commitment: note.commitment as `0x${string}`,
+        amount: note.amount,
+        leafIndex: note.leafIndex,
+        depositBlock: note.depositBlock,
+        nullifierHash: toBytes32(computeNullifierHash(note.nullifier, note.spendingKeyHash)),
+        proof
+      });
+    }
+
+    if (disclosed.length === 0) {
+      throw new Error('None of the notes in this date range could be proven yours');
+    }
+
+    const bundle = await createDisclosureBundle({
+      chainId: await zkETHerTokenService.getPublicClient().getChainId(),
+      token: zkETHerTokenService.getTokenAddress(),
+      userAddress: request.userAddress,
+      onchainId: (await secureKeyService.getKeyInfo())?.onchainId,
+      from: request.from.toISOString(),
+      to: request.to.toISOString(),
+      createdAt: new Date().toISOString(),
+      notes: disclosed
+    }, auditorPublicKey);
+
+    await this.updateSettings({ auditorPublicKey });
+
+    const result = { bundle, notesDisclosed: disclosed.length, notesSkipped: notes.length - disclosed.length };
+    console.log('🧾 Disclosure bundle created', {
+      auditor: auditorPublicKey.slice(0, 10) + '...',
+      notesDisclosed: result.notesDisclosed,
+      notesSkipped: result.notesSkipped
+    });
+    return result;
+  }
+}
+
+export const disclosureService = new DisclosureService();
+export default disclosureService;
@@ -0,0 +1,107 @@
+/**
+ * Name and date-of-birth matching between the Aadhaar and PAN verifications, on the spellings
+ * Indian documents actually disagree on.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkIdentityConsistency, compareDob, compareNames, normalizeName } from './identityConsistency';
+
+const DOB = '15/08/1990';
+
+const consistent = (aadhaarName: string, panName: string) =>
+  checkIdentityConsistency({ aadhaar: { name: aadhaarName, dob: DOB }, pan: { name: panName, dob: '1990-08-15' } }).consistent;
+
+describe('normalizeName', () => {
+  it('drops honorifics and everything after a relation marker', () => {
+    assert.deepEqual(normalizeName('Shri Ramesh Kumar S/O Suresh Kumar'), ['RAMESH', 'KUMAR']);
+    assert.deepEqual(normalizeName('SMT. Geeta Devi W/O Mahesh'), ['GEETA', 'DEVI']);
+  });
+
+  it('splits dotted initials and expands MD.', () => {
+    assert.deepEqual(normalizeName('R.K. Singh'), ['R', 'K', 'SINGH']);
+    assert.deepEqual(normalizeName('Md. Irfan'), ['MOHAMMED', 'IRFAN']);
+  });
+});
+
+describe('compareNames', () => {
+  it('matches the same name in a different order', () => {
+    assert.equal(compareNames('Patel Kiran', 'KIRAN PATEL').score, 1);
+  });
+
+  it('matches a name written as one word', () => {
+    assert.equal(compareNames('Ramkumar Yadav', 'RAM KUMAR YADAV').score, 1);
+  });
+
+  it('keeps the score below 1 for spelling variants', () => {
+    const { score, explanation } = compareNames('Mohammed Shaikh', 'MOHAMAD SHAIKH');
+    assert.ok(score > 0.9 && score < 1);
+    assert.ok(explanation.some(line => line.includes('spelling variants')));
+  });
+});
+
+describe('checkIdentityConsistency', () => {
+  it('accepts transliteration variants', () => {
+    assert.ok(consistent('Lakshmi Narayanan', 'LAXMI NARAYANAN'));
+    assert.ok(consistent('Shaikh Imran', 'SHEIKH IMRAN'));
+    assert.ok(consistent('Mohammed Rafi', 'MOHAMAD RAFI'));
+    assert.ok(consistent('Md. Rafi', 'MOHAMMED RAFI'));
+    assert.ok(consistent('Geeta Sharma', 'GITA SHARMA'));
+    assert.ok(consistent('Srinivas Rao', 'SHRINIVAS RAO'));
+    assert.ok(consistent('Chandrashekhar Iyer', 'CHANDRASEKAR IYER'));
+  });
+
+  it('accepts initials, honorifics and relation markers', () => {
+    assert.ok(consistent('Rajesh Kumar Singh', 'R.K. SINGH'));
+    assert.ok(consistent('Dr. Anil Mehta', 'ANIL MEHTA'));
+    assert.ok(consistent('Sunita Devi D/O Ram Prasad', 'SUNITA DEVI'));
+  });
+
+  it('rejects short names one letter apart', () => {
+    assert.equal(consistent('Mohan Kumar', 'ROHAN KUMAR'), false);
+    assert.equal(consistent('Kiran Patel', 'KARAN PATEL'), false);
+    assert.equal(consistent('Sunil Kumar', 'SUSHIL KUMAR'), false);
+    assert.equal(consistent('Amit Shah', 'SUMIT SHAH'), false);
+    assert.equal(consistent('Neha Gupta', 'NEHA GUPTE'), false);
+  });
+
+  it('rejects names that only share a surname', () => {
+    assert.equal(consistent('Priya Sharma', 'POOJA SHARMA'), false);
+    assert.equal(consistent('Ravi Prasad', 'RAVINDRA PRASAD'), false);
+  });
+
+  it('accepts a middle name missing from one document', () => {
+    assert.ok(consistent('Ravi Shankar Prasad', 'RAVI PRASAD'));
+  });
+
+  it('rejects a different date of birth', () => {
+    const result = checkIdentityConsistency({
+      aadhaar: { name: 'Anil Mehta', dob: '15/08/1990' },
+      pan: { name: 'ANIL MEHTA', dob: '08/15/1990' }
+    });
+    assert.equal(result.consistent, false);
+    assert.equal(result.dobMatch, 'mismatch');
+  });
+
+  it('matches a year-only Aadhaar on the year, at a lower score', () => {
+    const result = checkIdentityConsistency({
+      aadhaar: { name: 'Anil Mehta', dob: '1990' },
+      pan: { name: 'ANIL MEHTA', dob: '15/08/1990' }
+    });
+    assert.equal(result.consistent, true);
+    assert.equal(result.dobMatch, 'year_only');
+    assert.ok(result.score < 1);
+  });
+
+  it('fails when a date of birth is missing, unless it is optional', () => {
+    const input = { aadhaar: { name: 'Anil Mehta' }, pan: { name: 'ANIL MEHTA', dob: DOB } };
+    assert.equal(checkIdentityConsistency(input).consistent, false);
+    assert.equal(compareDob(undefined, DOB), 'missing');
+    assert.equal(checkIdentityConsistency(input, {
+      nameMatchThreshold: 0.8,
+      tokenSimilarity: 0.8,
+      yearOnlyDobFactor: 0.9,
+      requireDob: false
+    }).consistent, true);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * zkETHer Identity Consistency
+ * Cross-checks the name and date of birth the Aadhaar and PAN verifications return before the
+ * zkETHer eligibility claim is requested.
+ *
+ * Names are compared token by token after normalization, so ordering does not matter:
+ *   - honorifics and relation markers are dropped (SHRI, SMT, DR, S/O ...), MD./MOHD. read as MOHAMMED
+ *   - dotted or run-together initials are split ("R.K." -> R K)
+ *   - spellings are folded phonetically (LAKSHMI ~ LAXMI, SHAIKH ~ SHEIKH, MOHAMMED ~ MOHAMAD); folded
+ *     tokens that still differ must share their first letter and stay within EDIT_ALLOWANCE, so one
+ *     letter does not turn MOHAN into ROHAN or KIRAN into KARAN
+ *   - an initial matches any token it starts with, at INITIAL_MATCH_SCORE
+ *   - a name written as one word matches the same name split in two (RAMKUMAR ~ RAM KUMAR)
+ * The name score is the Dice coefficient over matched tokens: 2 * matched / (tokens in A + tokens in B).
+ *
+ * Dates of birth must be equal; an Aadhaar that carries only the year of birth matches on the year.
+ */
+
+export interface ConsistencyThresholds {
+  nameMatchThreshold: number;   // minimum name score (0-1)
+  tokenSimilarity: number;      // minimum folded-spelling similarity for two tokens to count as the same name
+  yearOnlyDobFactor: number;    // score multiplier when only the year of birth could be compared
+  requireDob: boolean;          // fail when either document has no date of birth
+}
+
+export const DEFAULT_CONSISTENCY_THRESHOLDS: ConsistencyThresholds = {
+  nameMatchThreshold: 0.8,
+  tokenSimilarity: 0.8,
+  yearOnlyDobFactor: 0.9,
+  requireDob: true
+};
+
+export type DobMatch = 'exact' | 'year_only' | 'mismatch' | 'missing';
+
+export interface ConsistencyInput {
+  aadhaar: { name: string; dob?: string };
+  pan: { name: string; dob?: string };
+}
+
+export interface ConsistencyResult {
+  consistent: boolean;
+  score: number;            // name score scaled by the DOB outcome, 0-1
+  nameScore: number;
+  dobMatch: DobMatch;
+  explanation: string[];    // one line per finding, in plain English
+}
+
+const INITIAL_MATCH_SCORE = 0.8;
+
+// Edits allowed between folded spellings, by the longer token's length: none below 6 letters, where
+// a single edit is usually a different name, then one per further 3 letters
+const EDIT_ALLOWANCE: { minLength: number; edits: number }[] = [
+  { minLength: 9, edits: 2 },
+  { minLength: 6, edits: 1 }
+];
+
+const HONORIFICS = new Set([
+  'MR', 'MRS', 'MS', 'MISS', 'MASTER', 'DR', 'PROF', 'SHRI', 'SHREE', 'SRI', 'SHRIMATI', 'SMT', 'SUSHRI',
+  'KUM', 'KU', 'SMTI', 'CAPT', 'COL', 'ADV', 'LATE'
+]);
+
+// Abbreviations that stand for a name rather than a title
+const ABBREVIATIONS: Record<string, string> = {
+  MD: 'MOHAMMED',
+  MOHD: 'MOHAMMED',
+  SK: 'SHEIKH'
+};
+
+// Relation markers print the father's or husband's name after them; the rest of the name is not the holder's
+const RELATION_MARKERS = /(\b[SDWC]\s*\/\s*O\b|\b(SON|DAUGHTER|WIFE|CARE) OF\b).*$/;
+
+const PHONETIC_FOLDS: [RegExp, string][] = [
+  [/KSH/g, 'X'],
+  [/KS/g, 'X'],
+  [/PH/g, 'F'],
+  [/([BCDGJKT])H/g, '$1'],
+  [/SH/g, 'S'],
+  [/W/g, 'V'],
+  [/Z/g, 'J'],
+  [/Q/g, 'K'],
+  [/EE|II/g, 'I'],
+  [/OO|UU/g, 'U'],
+  [/AA/g, 'A'],
+  [/[AE]I/g, 'E'],
+  [/Y$/g, 'I'],
+  [/(.)\1+/g, '$1']
+];
+
+/**
+ * Name tokens with honorifics, relation markers and punctuation removed
+ */
+export function normalizeName(name: string): string[] {
+  const cleaned = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(RELATION_MARKERS, '')
+    // "R.K.SINGH" -> "R K SINGH"
+    .replace(/\./g, ' ')
+    .replace(/[^A-Z ]/g, ' ');
+
+  return cleaned
+    .split(/\s+/)
+    .filter(token => token && !HONORIFICS.has(token))
+    .map(token => ABBREVIATIONS[token] || token)
+    // Run-together initials such as "RK" in "RK SINGH" are only split when every letter is a consonant
+    .flatMap(token => token.length === 2 && !/[AEIOU]/.test(token) ? token.split('') : [token]);
+}
+
+function foldSpelling(token: string): string {
+  return PHONETIC_FOLDS.reduce((folded, [pattern, replacement]) => folded.replace(pattern, replacement), token);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function spellingSimilarity(a: string, b: string): number {
+  const foldedA = foldSpelling(a);
+  const foldedB = foldSpelling(b);
+  if (foldedA === foldedB) return 1;
+  if (foldedA[0] !== foldedB[0]) return 0;
+
+  const length = Math.max(foldedA.length, foldedB.length);
+  const allowed = EDIT_ALLOWANCE.find(allowance => length >= allowance.minLength)?.edits ?? 0;
+  const distance = levenshtein(foldedA, foldedB);
+  return distance <= allowed ? 1 - distance / length : 0;
+}
+
+function tokenScore(a: string, b: string, thresholds: ConsistencyThresholds): number {
+  if (a === b) return 1;
+  if (a.length === 1 || b.length === 1) {
+    return (a.length === 1 ? b : a).startsWith(a.length === 1 ? a : b) ? INITIAL_MATCH_SCORE : 0;
+  }
+  const similarity = spellingSimilarity(a, b);
+  return similarity >= thresholds.tokenSimilarity ? similarity : 0;
+}
+
+/**
+ * Pair every token with its best-scoring partner, best pairs first, each token used once
+ */
+function matchTokens(a: string[], b: string[], thresholds: ConsistencyThresholds) {
+  const candidates = a.flatMap((tokenA, i) => b.map((tokenB, j) => ({ i, j, score: tokenScore(tokenA, tokenB, thresholds) })))
+    .filter(candidate => candidate.score > 0)
+    // Prefer full-name matches over initials so "R" does not steal "RAJESH" from "RAJESH"
+    .sort((x, y) => y.score - x.score);
+
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const pairs: { a: string; b: string; score: number }[] = [];
+  for (const { i, j, score } of candidates) {
+    if (usedA.has(i) || usedB.has(j)) continue;
+    usedA.add(i);
+    usedB.add(j);
+    pairs.push({ a: a[i], b: b[j], score });
+  }
+  return {
+    pairs,
+    unmatchedA: a.filter((_, i) => !usedA.has(i)),
+    unmatchedB: b.filter((_, j) => !usedB.has(j))
+  };
+}
+
+/**
+ * Score how likely two renderings of a name belong to the same person, 0-1
+ */
+export function compareNames(
+  aadhaarName: string,
+  panName: string,
+  thresholds: ConsistencyThresholds = DEFAULT_CONSISTENCY_THRESHOLDS
+): { score: number; explanation: string[] } {
+  const a = normalizeName(aadhaarName);
+  const b = normalizeName(panName);
+  if (a.length === 0 || b.length === 0) {
+    return { score: 0, explanation: ['A name is missing'] };
+  }
+
+  // Same letters with the spaces in different places: "RAMKUMAR" vs "RAM KUMAR"
+  if (a.join('') === b.join('')) {
+    return {
+      score: 1,
+      explanation: [a.join(' ') === b.join(' ') ? 'Names match' : 'Names match once spacing is ignored']
+    };
+  }
+
+  const { pairs, unmatchedA, unmatchedB } = matchTokens(a, b, thresholds);
+  const matched = pairs.reduce((sum, pair) => sum + pair.score, 0);
+  const score = (2 * matched) / (a.length + b.length);
+
+  const explanation: string[] = [];
+  for (const pair of pairs) {
+    if (pair.a === pair.b) continue;
+    explanation.push(pair.a.length === 1 || pair.b.length === 1
+      ? `Initial ${pair.a.length === 1 ? pair.a : pair.b} matches ${pair.a.length === 1 ? pair.b : pair.a}`
+      : `${pair.a} and ${pair.b} are spelling variants`);
+  }
+  if (unmatchedA.length > 0) explanation.push(`Only on Aadhaar: ${unmatchedA.join(' ')}`);
+  if (unmatchedB.length > 0) explanation.push(`Only on PAN: ${unmatchedB.join(' ')}`);
+  if (explanation.length === 0) explanation.push('Names match apart from word order');
+
+  return { score, explanation };
+}
+
+/**
+ * Parse DD/MM/YYYY, DD-MM-YYYY, YYYY-MM-DD or a bare year
+ */
+function parseDob(dob: string | undefined): { year: number; month?: number; day?: number } | null {
+  const value = dob?.trim();
+  if (!value) return null;
+
+  let match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return { day: Number(match[1]), month: Number(match[2]), year: Number(match[3]) };
+  match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  match = value.match(/^(\d{4})$/);
+  if (match) return { year: Number(match[1]) };
+  return null;
+}
+
+export function compareDob(dobA: string | undefined, dobB: string | undefined): DobMatch {
+  const a = parseDob(dobA);
+  const b = parseDob(dobB);
+  if (!a || !b) return 'missing';
+  if (a.year !== b.year) return 'mismatch';
+  if (a.day === undefined || b.day === undefined) return 'year_only';
+  return a.month === b.month && a.day === b.day ? 'exact' : 'mismatch';
+}
+
+/**
+ * Decide whether the Aadhaar and PAN verifications describe the same person
+ */
+export function checkIdentityConsistency(
+  input: ConsistencyInput,
+  thresholds: ConsistencyThresholds = DEFAULT_CONSISTENCY_THRESHOLDS
+): ConsistencyResult {
+  const name = compareNames(input.aadhaar.name, input.pan.name, thresholds);
+  const dobMatch = compareDob(input.aadhaar.dob, input.pan.dob);
+
+  const explanation = [`Name score ${Math.round(name.score * 100)}%: ${name.explanation.join('; ')}`];
+  let dobFactor = 1;
+  switch (dobMatch) {
+    case 'exact':
+      explanation.push('Dates of birth match');
+      break;
+    case 'year_only':
+      dobFactor = thresholds.yearOnlyDobFactor;
+      explanation.push('Only the year of birth could be compared, and it matches');
+      break;
+    case 'mismatch':
+      dobFactor = 0;
+      explanation.push(`Dates of birth differ (Aadhaar ${input.aadhaar.dob}, PAN ${input.pan.dob})`);
+      break;
+    case 'missing':
+      dobFactor = thresholds.requireDob ? 0 : 1;
+      explanation.push('Date of birth missing on ' + (parseDob(input.aadhaar.dob) ? 'PAN' : 'Aadhaar'));
+      break;
+  }
+
+  return {
+    consistent: name.score >= thresholds.nameMatchThreshold && dobFactor > 0,
+    score: name.score * dobFactor,
+    nameScore: name.score,
+    dobMatch,
+    explanation
+  };
+}
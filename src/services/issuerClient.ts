@@ -0,0 +1,71 @@
+/**
+ * zkETHer Claim Issuer Client
+ * Hands verification results to the claim issuer service, which owns the management key and
+ * writes the user's ONCHAINID and claims on-chain.
+ */
+
+import { serviceConfig } from '../config/services';
+import {
+  ISSUER_PATHS,
+  ISSUER_PROTOCOL_VERSION,
+  IssuerInfo,
+  VerificationRequest,
+  VerificationResponse
+} from './issuerProtocol';
+
+class IssuerClient {
+  private readonly INFO_TIMEOUT_MS = 10000;
+  // Identity creation plus four claim transactions, each waited for
+  private readonly VERIFICATION_TIMEOUT_MS = 2 * 60 * 1000;
+
+  async getInfo(): Promise<IssuerInfo> {
+    return this.request<IssuerInfo>(ISSUER_PATHS.info, {}, this.INFO_TIMEOUT_MS);
+  }
+
+  /**
+   * Submit verification results; resolves once the identity and claims are mined.
+   * Checks the issuer serves `chainId` and `claimIssuer` first, so claims never land on another deployment.
+   */
+  async submitVerification(
+    request: VerificationRequest,
+    chainId: number,
+    claimIssuer: `0x${string}`
+  ): Promise<VerificationResponse> {
+    const info = await this.getInfo();
+    if (info.version !== ISSUER_PROTOCOL_VERSION) {
+      throw new Error(`Unsupported issuer protocol version ${info.version}`);
+    }
+    if (info.chainId !== chainId || info.claimIssuer.toLowerCase() !== claimIssuer.toLowerCase()) {
+      throw new Error(`Issuer serves ${info.claimIssuer} on chain ${info.chainId}, not ${claimIssuer} on chain ${chainId}`);
+    }
+
+    return this.request<VerificationResponse>(
+      ISSUER_PATHS.verifications,
+      { method: 'POST', body: JSON.stringify(request) },
+      this.VERIFICATION_TIMEOUT_MS
+    );
+  }
+
+  private async request<T>(path: string, init: RequestInit, timeoutMs: number): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(`${serviceConfig.issuerUrl}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init.headers },
+        signal: controller.signal
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body?.error || `Issuer responded with HTTP ${response.status}`);
+      }
+      return body as T;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+export const issuerClient = new IssuerClient();
+export default issuerClient;
@@ -0,0 +1,51 @@
+/**
+ * zkETHer Claim Issuer Protocol
+ * Wire format between the app and the claim issuer service (see scripts/issuer-server.ts).
+ * The issuer holds the ClaimIssuer management key: it creates the user's ONCHAINID and submits
+ * the claim transactions, so the app never holds issuer keys. Each claim carries a Sandbox-signed
+ * VerificationResponse (src/crypto/sandboxResponses.ts) that the ClaimIssuer verifies on-chain.
+ *
+ *   GET  /v1/info            -> IssuerInfo
+ *   POST /v1/verifications   VerificationRequest -> VerificationResponse
+ *
+ * Errors are returned as IssuerErrorResponse with a 4xx/5xx status.
+ */
+
+import { ConsistencyResult } from './identityConsistency';
+
+export const ISSUER_PROTOCOL_VERSION = 1;
+
+export const ISSUER_PATHS = {
+  info: '/v1/info',
+  verifications: '/v1/verifications'
+};
+
+export interface IssuerInfo {
+  version: number;
+  issuer: `0x${string}`;       // management key the claims are signed with
+  chainId: number;
+  claimIssuer: `0x${string}`;  // ClaimIssuer contract the issuer submits to
+  sandboxKey: `0x${string}`;   // signer of the Sandbox responses attached to claims
+}
+
+// Verification results as returned by the Sandbox API
+export interface VerificationRequest {
+  userAddress: string;
+  aadhaarData: { status: string; data: { name: string; aadhaar: string; dob?: string; address?: string; } };
+  panData: { status: string; data: { pan: string; name: string; dob?: string; father_name?: string; } };
+  faceMatchData: { status: string; data: { match: boolean; confidence: number; } };
+}
+
+export type IssuedClaim = 'aadhaar_verified' | 'pan_verified' | 'face_matched' | 'zkether_eligible';
+
+export interface VerificationResponse {
+  onchainID: `0x${string}`;
+  claims: IssuedClaim[];
+  isVerified: boolean;                    // all four claims are held
+  consistency: ConsistencyResult;         // Aadhaar/PAN name and DOB cross-check gating the eligibility claim
+  transactionHashes: `0x${string}`[];     // identity creation and claim transactions, in order
+}
+
+export interface IssuerErrorResponse {
+  error: string;
+}
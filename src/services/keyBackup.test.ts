@@ -0,0 +1,61 @@
+/**
+ * Passphrase-encrypted key backups: round-trips, wrong passphrases and KDF parameters from a crafted file
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { argon2idAsync } from '@noble/hashes/argon2';
+import { BackupPayload, KeyBackup, createKeyBackup, openKeyBackup } from './keyBackup';
+import { bytesToHex, generateHexKeyPair, hexToBytes, secretboxEncryptBytes } from './libsodiumHelper.js';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+async function payload(): Promise<BackupPayload> {
+  const viewing = await generateHexKeyPair();
+  const spending = await generateHexKeyPair();
+  return {
+    privateKey: viewing.privateKey,
+    spendingPrivateKey: spending.privateKey,
+    keyInfo: {
+      keyId: 'zkether-key-1',
+      publicKey: viewing.publicKey,
+      spendingPublicKey: spending.publicKey,
+      createdAt: '2026-01-01T00:00:00.000Z'
+    }
+  };
+}
+
+describe('key backups', () => {
+  it('round-trips the keys under the passphrase', async () => {
+    const keys = await payload();
+    const backup = await createKeyBackup(keys, PASSPHRASE);
+    assert.equal(backup.includes(keys.privateKey.slice(2)), false);
+    assert.deepEqual(await openKeyBackup(backup, PASSPHRASE), keys);
+  });
+
+  it('refuses a wrong passphrase', async () => {
+    const backup = await createKeyBackup(await payload(), PASSPHRASE);
+    await assert.rejects(openKeyBackup(backup, 'correct horse battery stable'), /Wrong passphrase or corrupted backup/);
+  });
+
+  it('refuses a short passphrase when creating a backup', async () => {
+    await assert.rejects(createKeyBackup(await payload(), 'short'), /at least 12 characters/);
+  });
+
+  it('caps the memory a crafted backup can ask for', async () => {
+    // Encrypted under the 64 MiB ceiling while claiming 4 TiB
+    const salt = bytesToHex(new Uint8Array(16).fill(7));
+    const key = await argon2idAsync(PASSPHRASE, hexToBytes(salt), { t: 1, m: 65536, p: 1, dkLen: 32 });
+    const keys = await payload();
+    const { nonce, ciphertext } = await secretboxEncryptBytes(new TextEncoder().encode(JSON.stringify(keys)), bytesToHex(key));
+    const backup: KeyBackup = {
+      format: 'zkether-key-backup',
+      version: 1,
+      kdf: { algorithm: 'argon2id', salt, t: 1, m: 2 ** 32, p: 1 },
+      cipher: 'xsalsa20-poly1305',
+      nonce,
+      ciphertext
+    };
+    assert.deepEqual(await openKeyBackup(JSON.stringify(backup), PASSPHRASE), keys);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * zkETHer Key Backups
+ * Passphrase-encrypted export of the X25519 privacy key and its StoredKeyInfo, so the keys (and with
+ * them every note) survive losing the phone.
+ *
+ *   { format: 'zkether-key-backup', version: 1, kdf: { algorithm: 'argon2id', salt, t, m, p },
+ *     cipher: 'xsalsa20-poly1305', nonce, ciphertext }
+ *
+ * The secretbox key is Argon2id(passphrase, salt) - @noble/hashes, since the libsodium-wrappers build
+ * the app ships has no crypto_pwhash. The KDF parameters travel with the backup, so they can be raised
+ * later without breaking old backups. The plaintext is the JSON BackupPayload.
+ *
+ * A backup of a rotated key set carries the whole key history. Retired keys derived from the recovery
+ * phrase are re-derived on restore from their derivationIndex; a retired key from before recovery
+ * phrases existed travels as its private key in retiredKeys.
+ */
+
+import { argon2idAsync } from '@noble/hashes/argon2';
+import type { KeyHistoryEntry, StoredKeyInfo } from './secureKeyService';
+import {
+  bytesToHex,
+  derivePublicKey,
+  hexToBytes,
+  secretboxDecryptBytes,
+  secretboxEncryptBytes
+} from './libsodiumHelper.js';
+
+export const KEY_BACKUP_FORMAT = 'zkether-key-backup';
+export const KEY_BACKUP_VERSION = 1;
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+
+// OWASP's minimum Argon2id profile (19 MiB, 2 passes) - a few seconds on a phone
+const ARGON2_PARAMS = { t: 2, m: 19456, p: 1 };
+
+// Ceiling on the parameters a backup file asks for (64 MiB, 10 passes, 4 lanes), so a crafted backup
+// cannot make the phone allocate gigabytes. Parameters above it derive a different key and fail to open.
+const ARGON2_MAX_PARAMS = { t: 10, m: 65536, p: 4 };
+
+export interface KeyBackup {
+  format: typeof KEY_BACKUP_FORMAT;
+  version: number;
+  kdf: { algorithm: 'argon2id'; salt: string; t: number; m: number; p: number };
+  cipher: 'xsalsa20-poly1305';
+  nonce: string;
+  ciphertext: string;
+}
+
+export interface BackupPayload {
+  privateKey: string;
+  keyInfo: StoredKeyInfo;
+  spendingPrivateKey?: string;   // present when keyInfo.spendingPublicKey is set
+  mnemonic?: string;             // recovery phrase the keys were derived from
+  history?: KeyHistoryEntry[];   // every key set, oldest first; absent in backups made before rotation existed
+  retiredKeys?: RetiredKey[];    // retired keys in `history` without a derivationIndex
+}
+
+export interface RetiredKey {
+  keyId: string;
+  privateKey: string;            // viewing key, which also authorizes spending for these keys
+}
+
+async function deriveBackupKey(passphrase: string, kdf: KeyBackup['kdf']): Promise<string> {
+  const key = await argon2idAsync(passphrase, hexToBytes(kdf.salt), {
+    t: Math.min(kdf.t, ARGON2_MAX_PARAMS.t),
+    m: Math.min(kdf.m, ARGON2_MAX_PARAMS.m),
+    p: Math.min(kdf.p, ARGON2_MAX_PARAMS.p),
+    dkLen: KEY_BYTES
+  });
+  return bytesToHex(key);
+}
+
+function isHex(value: unknown, bytes?: number): value is string {
+  return typeof value === 'string' &&
+    /^0x([0-9a-fA-F]{2})*$/.test(value) &&
+    (bytes === undefined || value.length === 2 + bytes * 2);
+}
+
+/**
+ * Parse and validate the backup envelope without decrypting it
+ */
+export function parseKeyBackup(text: string): KeyBackup {
+  let backup: Partial<KeyBackup>;
+  try {
+    backup = JSON.parse(text.trim());
+  } catch {
+    throw new Error('Not a zkETHer key backup');
+  }
+
+  if (backup?.format !== KEY_BACKUP_FORMAT) {
+    throw new Error('Not a zkETHer key backup');
+  }
+  if (backup.version !== KEY_BACKUP_VERSION) {
+    throw new Error(`Unsupported key backup version ${backup.version}`);
+  }
+  const kdf = backup.kdf;
+  if (
+    kdf?.algorithm !== 'argon2id' ||
+    !isHex(kdf.salt, SALT_BYTES) ||
+    ![kdf.t, kdf.m, kdf.p].every(value => Number.isInteger(value) && value > 0)
+  ) {
+    throw new Error('Key backup has invalid key derivation parameters');
+  }
+  if (backup.cipher !== 'xsalsa20-poly1305' || !isHex(backup.nonce, NONCE_BYTES) || !isHex(backup.ciphertext)) {
+    throw new Error('Key backup is corrupted');
+  }
+  return backup as KeyBackup;
+}
+
+/**
+ * Encrypt `payload` under `passphrase`; returns the backup as JSON text
+ */
+export async function createKeyBackup(payload: BackupPayload, passphrase: string): Promise<string> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = new Uint8Array(SALT_BYTES);
+  crypto.getRandomValues(salt);
+  const kdf: KeyBackup['kdf'] = { algorithm: 'argon2id', salt: bytesToHex(salt), ...ARGON2_PARAMS };
+
+  const backupKey = await deriveBackupKey(passphrase, kdf);
+  const { nonce, ciphertext } = await secretboxEncryptBytes(
+    new TextEncoder().encode(JSON.stringify(payload)),
+    backupKey
+  );
+
+  const backup: KeyBackup = {
+    format: KEY_BACKUP_FORMAT,
+    version: KEY_BACKUP_VERSION,
+    kdf,
+    cipher: 'xsalsa20-poly1305',
+    nonce,
+    ciphertext
+  };
+  return JSON.stringify(backup);
+}
+
+/**
+ * Decrypt a backup; throws on a wrong passphrase, a tampered backup or a key pair that does not belong together
+ */
+export async function openKeyBackup(text: string, passphrase: string): Promise<BackupPayload> {
+  const backup = parseKeyBackup(text);
+
+  const backupKey = await deriveBackupKey(passphrase, backup.kdf);
+  const plaintext = await secretboxDecryptBytes({ nonce: backup.nonce, ciphertext: backup.ciphertext }, backupKey);
+  if (!plaintext) {
+    throw new Error('Wrong passphrase or corrupted backup');
+  }
+
+  const payload = JSON.parse(new TextDecoder().decode(plaintext)) as BackupPayload;
+  if (!isHex(payload.privateKey, KEY_BYTES) || !payload.keyInfo?.keyId || !isHex(payload.keyInfo.publicKey, KEY_BYTES)) {
+    throw new Error('Key backup is corrupted');
+  }
+  if ((await derivePublicKey(payload.privateKey)).toLowerCase() !== payload.keyInfo.publicKey.toLowerCase()) {
+    throw new Error('Key backup private key does not match its public key');
+  }
+  if (payload.keyInfo.spendingPublicKey) {
+    if (
+      !isHex(payload.spendingPrivateKey, KEY_BYTES) ||
+      (await derivePublicKey(payload.spendingPrivateKey)).toLowerCase() !== payload.keyInfo.spendingPublicKey.toLowerCase()
+    ) {
+      throw new Error('Key backup spending key does not match its public key');
+    }
+  }
+  for (const retired of payload.retiredKeys ?? []) {
+    const entry = payload.history?.find(candidate => candidate.keyId === retired.keyId);
+    if (
+      !entry ||
+      !isHex(retired.privateKey, KEY_BYTES) ||
+      (await derivePublicKey(retired.privateKey)).toLowerCase() !== entry.publicKey.toLowerCase()
+    ) {
+      throw new Error('Key backup retired key does not match its public key');
+    }
+  }
+  return payload;
+}
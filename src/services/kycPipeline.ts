@@ -0,0 +1,300 @@
+/**
+ * zkETHer KYC Pipeline
+ * Runs Aadhaar, PAN and face match verification with the configured KYC provider, then has the claim
+ * issuer write the ONCHAINID claims. Each step's result is persisted as soon as it succeeds, so a failed
+ * or interrupted run resumes at the failed step instead of starting over.
+ * Progress holds identity data, so it is encrypted like the note store: a device-local secretbox key in
+ * SecureStore, the ciphertext in AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { kycConfig } from '../config/kyc';
+import { AadhaarData, FaceMatchData, KycProviderError, PANData, zkETHerEligibilityData } from './kycProvider';
+import { kycService } from './kycService';
+import { ConsistencyResult, checkIdentityConsistency } from './identityConsistency';
+import { VerificationOutput, zkETHerProtocol } from './zkETHerProtocol';
+import { generateSecretKey, secretboxEncrypt, secretboxDecrypt } from './libsodiumHelper.js';
+
+export type KycPipelineStep = 'aadhaar' | 'pan' | 'faceMatch' | 'claims';
+
+export const KYC_PIPELINE_STEPS: KycPipelineStep[] = ['aadhaar', 'pan', 'faceMatch', 'claims'];
+
+export type KycFailureReason =
+  | 'aadhaar_not_found'        // Aadhaar number unknown to UIDAI
+  | 'pan_invalid'              // PAN does not exist or does not match the name/DOB sent
+  | 'pan_name_mismatch'        // PAN holder's name differs from the Aadhaar name
+  | 'dob_mismatch'             // PAN and Aadhaar dates of birth differ or one is missing
+  | 'face_mismatch'            // selfie is not the Aadhaar photo's holder
+  | 'face_low_confidence'      // face match confidence below kycConfig.faceMatchThreshold
+  | 'provider_timeout'         // KYC provider did not answer in time
+  | 'provider_error'           // KYC provider or network error
+  | 'claims_incomplete'        // claim issuer did not issue every claim
+  | 'claim_issuance_failed';   // claim issuer unreachable or its transactions failed
+
+export interface KycStepFailure {
+  step: KycPipelineStep;
+  reason: KycFailureReason;
+  message: string;
+  failedAt: number;
+}
+
+// Identity fields the verification runs on; document images are passed per run and never persisted
+export interface KycSubject {
+  userAddress: string;
+  name: string;
+  dob: string;            // DD/MM/YYYY
+  aadhaarNumber: string;
+  panNumber: string;
+}
+
+export interface KycImages {
+  aadhaarPhoto: string;   // base64
+  selfieImage: string;    // base64
+}
+
+export interface KycProgress {
+  subject: KycSubject;
+  aadhaar?: AadhaarData;
+  pan?: PANData;
+  consistency?: ConsistencyResult;   // Aadhaar/PAN cross-check, recorded with the PAN step
+  faceMatch?: FaceMatchData;
+  claims?: VerificationOutput;
+  eligibility?: zkETHerEligibilityData;
+  failure?: KycStepFailure;
+  updatedAt: number;
+}
+
+export type KycStepStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export type KycStepListener = (step: KycPipelineStep, status: KycStepStatus, progress: KycProgress) => void;
+
+class KycStepError extends Error {
+  constructor(public reason: KycFailureReason, message: string) {
+    super(message);
+  }
+}
+
+class KycPipeline {
+  private readonly PROGRESS_KEY = 'zkether_kyc_progress';
+  private readonly STORE_KEY_KEY = 'zkether_kyc_progress_key';
+
+  /**
+   * Saved progress, or null if no verification has been started
+   */
+  async getProgress(): Promise<KycProgress | null> {
+    try {
+      const stored = await AsyncStorage.getItem(this.PROGRESS_KEY);
+      if (!stored) return null;
+
+      const storeKey = await this.getStoreKey();
+      return JSON.parse(await secretboxDecrypt(JSON.parse(stored), storeKey)) as KycProgress;
+    } catch (error) {
+      console.error('❌ Failed to load KYC progress:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Status of every step in `progress` - completed steps are skipped when the run resumes
+   */
+  getStepStatuses(progress: KycProgress | null): Record<KycPipelineStep, KycStepStatus> {
+    return Object.fromEntries(KYC_PIPELINE_STEPS.map(step => [
+      step,
+      progress?.failure?.step === step ? 'failed' : progress?.[step] ? 'completed' : 'pending'
+    ])) as Record<KycPipelineStep, KycStepStatus>;
+  }
+
+  /**
+   * Run every step that has not succeeded yet, stopping at the first failure.
+   * Progress saved for a different subject (other wallet or documents) is discarded.
+   */
+  async run(subject: KycSubject, images: KycImages, onStep?: KycStepListener): Promise<KycProgress> {
+    const saved = await this.getProgress();
+    let progress: KycProgress = saved && this.isSameSubject(saved.subject, subject)
+      ? { ...saved, subject, failure: undefined }
+      : { subject, updatedAt: Date.now() };
+
+    for (const step of KYC_PIPELINE_STEPS) {
+      if (progress[step]) continue;
+
+      onStep?.(step, 'processing', progress);
+      try {
+        progress = await this.save(await this.runStep(step, progress, images));
+        onStep?.(step, 'completed', progress);
+      } catch (error) {
+        progress = await this.save({ ...progress, failure: this.toFailure(step, error) });
+        console.error(`❌ KYC ${step} failed:`, progress.failure);
+        onStep?.(step, 'failed', progress);
+        return progress;
+      }
+    }
+
+    console.log('✅ KYC pipeline completed:', { onchainID: progress.claims?.onchainID });
+    return progress;
+  }
+
+  /**
+   * Re-run `step` and everything after it that has not succeeded; earlier results are kept.
+   * Pass a corrected subject (e.g. a re-entered PAN number) to retry with new input.
+   */
+  async retry(
+    step: KycPipelineStep,
+    subject: KycSubject,
+    images: KycImages,
+    onStep?: KycStepListener
+  ): Promise<KycProgress> {
+    const saved = await this.getProgress();
+    if (saved) {
+      const { [step]: _discarded, ...kept } = saved;
+      await this.save({ ...kept, subject: { ...saved.subject, ...this.changedFields(subject, step) } });
+    }
+    return this.run(subject, images, onStep);
+  }
+
+  isComplete(progress: KycProgress | null): boolean {
+    return KYC_PIPELINE_STEPS.every(step => progress?.[step]);
+  }
+
+  /**
+   * Forget saved progress (after onboarding completes or on reset)
+   */
+  async clear(): Promise<void> {
+    await AsyncStorage.removeItem(this.PROGRESS_KEY);
+    await SecureStore.deleteItemAsync(this.STORE_KEY_KEY);
+  }
+
+  private async runStep(step: KycPipelineStep, progress: KycProgress, images: KycImages): Promise<KycProgress> {
+    const { subject } = progress;
+
+    switch (step) {
+      case 'aadhaar': {
+        const aadhaar = await kycService.verifyAadhaar(subject.aadhaarNumber.replace(/\s/g, ''), subject.name);
+        if (aadhaar.status !== 'success') {
+          throw new KycStepError('aadhaar_not_found', 'Aadhaar number could not be verified');
+        }
+        return { ...progress, aadhaar };
+      }
+
+      case 'pan': {
+        const pan = await kycService.verifyPAN(subject.panNumber, subject.name, subject.dob);
+        if (pan.status !== 'success') {
+          throw new KycStepError('pan_invalid', 'PAN could not be verified for this name and date of birth');
+        }
+        const consistency = checkIdentityConsistency(
+          { aadhaar: progress.aadhaar!.data, pan: pan.data },
+          kycConfig.consistency
+        );
+        console.log('🔍 Aadhaar/PAN consistency:', consistency);
+        if (!consistency.consistent) {
+          throw new KycStepError(
+            consistency.nameScore < kycConfig.consistency.nameMatchThreshold ? 'pan_name_mismatch' : 'dob_mismatch',
+            consistency.explanation.join('. ')
+          );
+        }
+        return { ...progress, pan, consistency };
+      }
+
+      case 'faceMatch': {
+        const faceMatch = await kycService.verifyFaceMatch(images.aadhaarPhoto, images.selfieImage);
+        if (faceMatch.status !== 'success' || !faceMatch.data.match) {
+          throw new KycStepError('face_mismatch', 'Selfie does not match the Aadhaar photo');
+        }
+        if (faceMatch.data.confidence < kycConfig.faceMatchThreshold) {
+          throw new KycStepError(
+            'face_low_confidence',
+            `Face match confidence ${Math.round(faceMatch.data.confidence * 100)}% is below ` +
+            `the required ${Math.round(kycConfig.faceMatchThreshold * 100)}%`
+          );
+        }
+        return { ...progress, faceMatch };
+      }
+
+      case 'claims': {
+        let claims: VerificationOutput;
+        try {
+          claims = await zkETHerProtocol.processKYCVerification({
+            userAddress: subject.userAddress,
+            aadhaarData: progress.aadhaar!,
+            panData: progress.pan!,
+            faceMatchData: progress.faceMatch!
+          });
+        } catch (error) {
+          throw new KycStepError('claim_issuance_failed', error instanceof Error ? error.message : String(error));
+        }
+        if (!claims.isVerified) {
+          const reasons = claims.consistency.consistent ? '' : ` (${claims.consistency.explanation.join('. ')})`;
+          throw new KycStepError('claims_incomplete', `Claims not issued: ${claims.missingClaims.join(', ')}${reasons}`);
+        }
+        const eligibility = await kycService.checkEligibility(subject.userAddress);
+        return { ...progress, claims, eligibility };
+      }
+    }
+  }
+
+  private toFailure(step: KycPipelineStep, error: unknown): KycStepFailure {
+    if (error instanceof KycStepError) {
+      return { step, reason: error.reason, message: error.message, failedAt: Date.now() };
+    }
+    if (error instanceof KycProviderError) {
+      return {
+        step,
+        reason: error.code === 'timeout' ? 'provider_timeout' : 'provider_error',
+        message: error.message,
+        failedAt: Date.now()
+      };
+    }
+    return {
+      step,
+      reason: 'provider_error',
+      message: error instanceof Error ? error.message : String(error),
+      failedAt: Date.now()
+    };
+  }
+
+  // Inputs a retry of `step` may correct without invalidating the other steps
+  private changedFields(subject: KycSubject, step: KycPipelineStep): Partial<KycSubject> {
+    switch (step) {
+      case 'aadhaar':
+        return { aadhaarNumber: subject.aadhaarNumber };
+      case 'pan':
+        return { panNumber: subject.panNumber, dob: subject.dob };
+      default:
+        return {};
+    }
+  }
+
+  private isSameSubject(a: KycSubject, b: KycSubject): boolean {
+    return a.userAddress.toLowerCase() === b.userAddress.toLowerCase() &&
+      a.aadhaarNumber.replace(/\s/g, '') === b.aadhaarNumber.replace(/\s/g, '') &&
+      a.panNumber.toUpperCase() === b.panNumber.toUpperCase() &&
+      a.dob === b.dob &&
+      this.normalizeName(a.name) === this.normalizeName(b.name);
+  }
+
+  private normalizeName(name: string): string {
+    return name.toUpperCase().replace(/[^A-Z ]/g, '').replace(/\s+/g, ' ').trim();
+  }
+
+  private async save(progress: KycProgress): Promise<KycProgress> {
+    const next = { ...progress, updatedAt: Date.now() };
+    const storeKey = await this.getStoreKey();
+    const payload = await secretboxEncrypt(JSON.stringify(next), storeKey);
+    await AsyncStorage.setItem(this.PROGRESS_KEY, JSON.stringify(payload));
+    return next;
+  }
+
+  private async getStoreKey(): Promise<string> {
+    const existing = await SecureStore.getItemAsync(this.STORE_KEY_KEY);
+    if (existing) return existing;
+
+    const storeKey = await generateSecretKey();
+    await SecureStore.setItemAsync(this.STORE_KEY_KEY, storeKey, {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    });
+    return storeKey;
+  }
+}
+
+export const kycPipeline = new KycPipeline();
+export default kycPipeline;
@@ -0,0 +1,92 @@
+/**
+ * KYC Provider Interface for zkETHer Protocol
+ * Both the Sandbox.co.in client and the scriptable mock implement this, and kycService picks one from app config:
+ * 1. Aadhaar Verification
+ * 2. PAN Verification
+ * 3. Face Match Verification
+ * 4. zkETHer Eligibility
+ */
+
+export type KycStep = 'aadhaar' | 'pan' | 'faceMatch' | 'eligibility';
+
+export interface AadhaarData {
+  status: string;
+  transaction_id?: string;
+  data: {
+    name: string;
+    aadhaar: string;
+    dob?: string;
+    address?: string;
+  };
+}
+
+export interface PANData {
+  status: string;
+  transaction_id?: string;
+  data: {
+    pan: string;
+    name: string;
+    dob?: string;
+    father_name?: string;
+  };
+}
+
+export interface FaceMatchData {
+  status: string;
+  transaction_id?: string;
+  data: {
+    match: boolean;
+    confidence: number;
+  };
+}
+
+export interface zkETHerEligibilityData {
+  status: string;
+  data: {
+    eligible: boolean;
+    onchainId?: string;
+    claims: string[];
+  };
+}
+
+export interface VerificationResponse {
+  verification_id: string;
+  status: string;
+  timestamp: number;
+  verification_type: string;
+  confidence_score: number;
+  data: unknown;   // the provider's record of the verification, in its own shape - narrow it before reading
+}
+
+export type KycErrorCode =
+  | 'timeout'      // the provider did not answer within the configured timeout
+  | 'http'         // the provider answered with an error status
+  | 'config';      // missing credentials or other local misconfiguration
+
+export class KycProviderError extends Error {
+  constructor(public step: KycStep | 'status', public code: KycErrorCode, message: string) {
+    super(message);
+    this.name = 'KycProviderError';
+  }
+}
+
+export interface KycProvider {
+  readonly name: string;
+
+  verifyAadhaar(aadhaarNumber: string, name: string): Promise<AadhaarData>;
+
+  /**
+   * @param dob date of birth as DD/MM/YYYY - Sandbox matches it against the PAN record
+   */
+  verifyPAN(panNumber: string, name: string, dob: string): Promise<PANData>;
+
+  /**
+   * @param aadhaarPhoto base64 photo from the Aadhaar record
+   * @param selfieImage base64 selfie taken during onboarding
+   */
+  verifyFaceMatch(aadhaarPhoto: string, selfieImage: string): Promise<FaceMatchData>;
+
+  checkEligibility(userAddress: string): Promise<zkETHerEligibilityData>;
+
+  getVerificationStatus(verificationId: string): Promise<VerificationResponse>;
+}
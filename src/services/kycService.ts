@@ -0,0 +1,21 @@
+/**
+ * KYC Service
+ * Picks the KYC provider from app config (src/config/kyc.ts): the scriptable mock by default,
+ * Sandbox.co.in with EXPO_PUBLIC_KYC_PROVIDER=sandbox.
+ */
+
+import { KycConfig, kycConfig } from '../config/kyc';
+import { KycProvider } from './kycProvider';
+import { MockKycProvider } from './mockKycProvider';
+import { SandboxKycProvider } from './sandboxKycProvider';
+
+export function createKycProvider(config: KycConfig): KycProvider {
+  if (config.provider === 'sandbox') {
+    return new SandboxKycProvider({ ...config.sandbox, timeoutMs: config.timeoutMs });
+  }
+  return new MockKycProvider({ ...config.mock, timeoutMs: config.timeoutMs });
+}
+
+export const kycService = createKycProvider(kycConfig);
+console.log('🪪 KYC provider:', kycService.name);
+export default kycService;
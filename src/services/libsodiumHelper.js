@@ -63,3 +63,148 @@ export async function generateHexKeyPair() {
     throw error;
   }
 }
+
+/**
+ * X25519 public key belonging to a private key
+ * @param {string} privateKeyHex
+ * @returns {Promise<string>} hex encoded public key
+ */
+export async function derivePublicKey(privateKeyHex) {
+  await sodium.ready;
+  return bytesToHex(sodium.crypto_scalarmult_base(hexToBytes(privateKeyHex)));
+}
+
+/**
+ * Generate a random symmetric key for libsodium secretbox
+ * @returns {Promise<string>} hex encoded key
+ */
+export async function generateSecretKey() {
+  await sodium.ready;
+  return bytesToHex(sodium.crypto_secretbox_keygen());
+}
+
+/**
+ * Encrypt a UTF-8 string with XSalsa20-Poly1305 (libsodium secretbox)
+ * @param {string} plaintext
+ * @param {string} keyHex
+ * @returns {Promise<{nonce: string, ciphertext: string}>}
+ */
+export async function secretboxEncrypt(plaintext, keyHex) {
+  await sodium.ready;
+
+  const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+  const ciphertext = sodium.crypto_secretbox_easy(
+    sodium.from_string(plaintext),
+    nonce,
+    hexToBytes(keyHex)
+  );
+
+  return {
+    nonce: bytesToHex(nonce),
+    ciphertext: bytesToHex(ciphertext)
+  };
+}
+
+/**
+ * Decrypt a secretbox payload produced by secretboxEncrypt
+ * @param {{nonce: string, ciphertext: string}} payload
+ * @param {string} keyHex
+ * @returns {Promise<string>}
+ */
+export async function secretboxDecrypt(payload, keyHex) {
+  await sodium.ready;
+
+  const plaintext = sodium.crypto_secretbox_open_easy(
+    hexToBytes(payload.ciphertext),
+    hexToBytes(payload.nonce),
+    hexToBytes(keyHex)
+  );
+
+  return sodium.to_string(plaintext);
+}
+
+/**
+ * Encrypt raw bytes with libsodium secretbox
+ * @param {Uint8Array} message
+ * @param {string} keyHex
+ * @returns {Promise<{nonce: string, ciphertext: string}>}
+ */
+export async function secretboxEncryptBytes(message, keyHex) {
+  await sodium.ready;
+
+  const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+  const ciphertext = sodium.crypto_secretbox_easy(message, nonce, hexToBytes(keyHex));
+
+  return {
+    nonce: bytesToHex(nonce),
+    ciphertext: bytesToHex(ciphertext)
+  };
+}
+
+/**
+ * Open a payload produced by secretboxEncryptBytes
+ * @param {{nonce: string, ciphertext: string}} payload
+ * @param {string} keyHex
+ * @returns {Promise<Uint8Array | null>} null when the key is wrong or the payload was tampered with
+ */
+export async function secretboxDecryptBytes(payload, keyHex) {
+  await sodium.ready;
+
+  try {
+    return sodium.crypto_secretbox_open_easy(
+      hexToBytes(payload.ciphertext),
+      hexToBytes(payload.nonce),
+      hexToBytes(keyHex)
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypt bytes to an X25519 public key (libsodium box) from a fresh ephemeral key pair.
+ * Only the holder of the recipient's private key can open it; the sender keeps nothing.
+ * @param {Uint8Array} message
+ * @param {string} recipientPublicKeyHex
+ * @returns {Promise<{ephemeralPublicKey: string, nonce: string, ciphertext: string}>}
+ */
+export async function boxEncrypt(message, recipientPublicKeyHex) {
+  await sodium.ready;
+
+  const ephemeral = sodium.crypto_box_keypair();
+  const nonce = sodium.randombytes_buf(sodium.crypto_box_NONCEBYTES);
+  const ciphertext = sodium.crypto_box_easy(
+    message,
+    nonce,
+    hexToBytes(recipientPublicKeyHex),
+    ephemeral.privateKey
+  );
+  sodium.memzero(ephemeral.privateKey);
+
+  return {
+    ephemeralPublicKey: bytesToHex(ephemeral.publicKey),
+    nonce: bytesToHex(nonce),
+    ciphertext: bytesToHex(ciphertext)
+  };
+}
+
+/**
+ * Open a payload produced by boxEncrypt
+ * @param {{ephemeralPublicKey: string, nonce: string, ciphertext: string}} payload
+ * @param {string} privateKeyHex
+ * @returns {Promise<Uint8Array | null>} null when the payload was not encrypted to this key
+ */
+export async function boxDecrypt(payload, privateKeyHex) {
+  await sodium.ready;
+
+  try {
+    return sodium.crypto_box_open_easy(
+      hexToBytes(payload.ciphertext),
+      hexToBytes(payload.nonce),
+      hexToBytes(payload.ephemeralPublicKey),
+      hexToBytes(privateKeyHex)
+    );
+  } catch {
+    return null;
+  }
+}
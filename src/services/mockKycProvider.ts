@@ -0,0 +1,166 @@
+/**
+ * Mock KYC Provider for zkETHer Protocol
+ * Succeeds by default; failures, low-confidence scores and timeouts can be configured per step
+ * (see src/config/kyc.ts) or scripted one call at a time with `script()`.
+ */
+
+import {
+  AadhaarData,
+  FaceMatchData,
+  KycProvider,
+  KycProviderError,
+  KycStep,
+  PANData,
+  VerificationResponse,
+  zkETHerEligibilityData
+} from './kycProvider';
+
+export type MockKycOutcome = 'success' | 'failure' | 'low_confidence' | 'timeout';
+
+export interface MockKycOptions {
+  outcomes?: Partial<Record<KycStep, MockKycOutcome>>;
+  lowConfidenceScore?: number;   // face match confidence returned for 'low_confidence', 0-1
+  timeoutMs?: number;            // how long a 'timeout' call hangs before rejecting
+}
+
+const ALL_CLAIMS = ['aadhaar_verified', 'pan_verified', 'face_matched', 'zkether_eligible'];
+
+export class MockKycProvider implements KycProvider {
+  readonly name = 'mock';
+
+  private outcomes: Partial<Record<KycStep, MockKycOutcome>>;
+  private scripted: Partial<Record<KycStep, MockKycOutcome[]>> = {};
+  private responses = new Map<string, VerificationResponse>();
+  private lowConfidenceScore: number;
+  private timeoutMs: number;
+
+  constructor(options: MockKycOptions = {}) {
+    this.outcomes = { ...options.outcomes };
+    this.lowConfidenceScore = options.lowConfidenceScore ?? 0.55;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  /**
+   * Queue outcomes for the next calls of `step`; the configured outcome applies once they are used up
+   */
+  script(step: KycStep, ...outcomes: MockKycOutcome[]): void {
+    this.scripted[step] = [...(this.scripted[step] || []), ...outcomes];
+  }
+
+  /**
+   * Set the outcome `step` returns from now on
+   */
+  setOutcome(step: KycStep, outcome: MockKycOutcome): void {
+    this.outcomes[step] = outcome;
+  }
+
+  reset(): void {
+    this.outcomes = {};
+    this.scripted = {};
+  }
+
+  async verifyAadhaar(aadhaarNumber: string, name: string): Promise<AadhaarData> {
+    const outcome = await this.next('aadhaar', 1500);
+    const result: AadhaarData = {
+      status: outcome === 'failure' ? 'failed' : 'success',
+      transaction_id: this.transactionId('aadhaar'),
+      data: {
+        name: name.toUpperCase(),
+        aadhaar: aadhaarNumber,
+        dob: '15/01/1990',
+        address: 'Mock Address, India'
+      }
+    };
+    this.record('aadhaar', result, outcome);
+    return result;
+  }
+
+  async verifyPAN(panNumber: string, name: string, dob: string): Promise<PANData> {
+    const outcome = await this.next('pan', 1500);
+    const result: PANData = {
+      status: outcome === 'failure' ? 'failed' : 'success',
+      transaction_id: this.transactionId('pan'),
+      data: {
+        pan: panNumber.toUpperCase(),
+        name: name.toUpperCase(),
+        dob,
+        father_name: 'MOCK FATHER NAME'
+      }
+    };
+    this.record('pan', result, outcome);
+    return result;
+  }
+
+  async verifyFaceMatch(aadhaarPhoto: string, selfieImage: string): Promise<FaceMatchData> {
+    const outcome = await this.next('faceMatch', 2000);
+    const result: FaceMatchData = {
+      status: outcome === 'failure' ? 'failed' : 'success',
+      transaction_id: this.transactionId('face_match'),
+      data: {
+        match: outcome !== 'failure',
+        confidence: outcome === 'low_confidence' ? this.lowConfidenceScore : outcome === 'failure' ? 0.12 : 0.95
+      }
+    };
+    this.record('face_match', result, outcome);
+    return result;
+  }
+
+  async checkEligibility(userAddress: string): Promise<zkETHerEligibilityData> {
+    const outcome = await this.next('eligibility', 1000);
+    return {
+      status: outcome === 'failure' ? 'failed' : 'success',
+      data: {
+        eligible: outcome !== 'failure',
+        claims: outcome === 'failure' ? [] : ALL_CLAIMS
+      }
+    };
+  }
+
+  async getVerificationStatus(verificationId: string): Promise<VerificationResponse> {
+    await this.delay(500);
+
+    const response = this.responses.get(verificationId);
+    if (!response) {
+      throw new KycProviderError('status', 'http', `Unknown verification ${verificationId}`);
+    }
+    return response;
+  }
+
+  /**
+   * Wait out the simulated API delay and pick this call's outcome; 'timeout' rejects like the real client would
+   */
+  private async next(step: KycStep, delayMs: number): Promise<MockKycOutcome> {
+    const outcome = this.scripted[step]?.shift() || this.outcomes[step] || 'success';
+
+    if (outcome === 'timeout') {
+      await this.delay(this.timeoutMs);
+      throw new KycProviderError(step, 'timeout', `Mock ${step} verification timed out after ${this.timeoutMs}ms`);
+    }
+    await this.delay(delayMs);
+    return outcome;
+  }
+
+  private record(
+    verificationType: string,
+    result: AadhaarData | PANData | FaceMatchData,
+    outcome: MockKycOutcome
+  ): void {
+    const confidence = outcome === 'low_confidence' ? this.lowConfidenceScore : outcome === 'failure' ? 0 : 0.95;
+    this.responses.set(result.transaction_id!, {
+      verification_id: result.transaction_id!,
+      status: result.status,
+      timestamp: Date.now(),
+      verification_type: verificationType,
+      confidence_score: Math.round(confidence * 10000),
+      data: result.data
+    });
+  }
+
+  private transactionId(verificationType: string): string {
+    return `mock_${verificationType}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
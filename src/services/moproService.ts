@@ -1,5 +1,6 @@
 import { Asset } from 'expo-asset';
 import * as FileSystem from 'expo-file-system';
+import { sha256 } from 'viem';
 import { 
   generateCircomProof, 
   verifyCircomProof, 
@@ -8,10 +9,35 @@ import {
   CircomProofResult,
   hello
 } from '../../modules/mopro';
+import { MerklePath } from '../crypto/merkleTree';
+import { OwnershipNote, buildOwnershipInputs } from '../crypto/ownership';
+import {
+  WithdrawCalldata,
+  WithdrawNote,
+  buildWithdrawInputs,
+  encodeWithdrawCalldata
+} from '../crypto/withdraw';
+import {
+  CIRCUIT_REGISTRY,
+  CircuitAsset,
+  CircuitDefinition,
+  CircuitId,
+  getCircuitDefinition
+} from './circuitRegistry';
+import { secureKeyService } from './secureKeyService';
+
+export interface LoadedCircuit {
+  id: CircuitId;
+  version: string;
+  zkeyPath: string;
+  wasmPath?: string;
+  proofLib: ProofLibOption;
+}
 
 export class MoproService {
   private static instance: MoproService;
-  private zkeyPath: string | null = null;
+  private readonly circuitsDir = `${FileSystem.documentDirectory}circuits/`;
+  private circuits = new Map<CircuitId, Promise<LoadedCircuit>>();
 
   private constructor() {}
 
@@ -23,51 +49,23 @@ export class MoproService {
   }
 
   /**
-   * Initialize the service by loading circuit assets
+   * Initialize the service. Circuit assets are copied lazily on first use,
+   * so this only removes copies left behind by older app versions.
    */
   public async initialize(): Promise<void> {
     try {
       console.log('🔧 [MoproService] Starting initialization...');
-      
-      // Use the same approach as working react-native-app
-      const newFileName = "multiplier2_final.zkey";
-      const asset = Asset.fromModule(require('../../assets/keys/multiplier2_final.zkey'));
-      const newFilePath = `${FileSystem.documentDirectory}${newFileName}`;
-      
-      console.log('📁 [MoproService] Target file path:', newFilePath);
-      
-      // Check if file already exists
-      const fileInfo = await FileSystem.getInfoAsync(newFilePath);
-      if (!fileInfo.exists) {
-        console.log('⬇️ [MoproService] File does not exist, downloading asset...');
-        const file = await asset.downloadAsync();
-        if (file.localUri === null) {
-          throw new Error("Failed to download the file");
-        }
-        try {
-          console.log('📋 [MoproService] Moving file from', file.localUri, 'to', newFilePath);
-          await FileSystem.moveAsync({
-            from: file.localUri,
-            to: newFilePath,
-          });
-        } catch (error) {
-          console.error("Error moving the file:", error);
-          throw error;
-        }
-      } else {
-        console.log('✅ [MoproService] File already exists at target location');
+
+      await FileSystem.makeDirectoryAsync(this.circuitsDir, { intermediates: true });
+
+      for (const circuit of Object.values(CIRCUIT_REGISTRY)) {
+        // Before the registry, zkeys were copied straight into the document directory
+        await FileSystem.deleteAsync(`${FileSystem.documentDirectory}${circuit.zkey.fileName}`, { idempotent: true });
+        await this.removeOutdatedVersions(circuit);
       }
-      
-      // Set the path without file:// prefix, exactly like working app
-      this.zkeyPath = newFilePath.replace("file://", "");
-      
+
       console.log('✅ [MoproService] Successfully initialized!');
-      console.log('📍 [MoproService] Zkey path:', this.zkeyPath);
-      console.log('📊 [MoproService] Asset details:', {
-        uri: asset.uri,
-        localUri: asset.localUri,
-        downloaded: asset.downloaded
-      });
+      console.log('📍 [MoproService] Circuits directory:', this.circuitsDir);
     } catch (error) {
       console.error('💥 [MoproService] Initialization failed:', error);
       console.error('🔍 [MoproService] Error details:', {
@@ -78,6 +76,98 @@ export class MoproService {
     }
   }
 
+  /**
+   * Make a circuit's assets available on disk, copying them on first use.
+   * Concurrent callers share one load; a failed load is retried on the next call.
+   */
+  public loadCircuit(id: CircuitId): Promise<LoadedCircuit> {
+    let loading = this.circuits.get(id);
+    if (!loading) {
+      loading = this.prepareCircuit(getCircuitDefinition(id));
+      loading.catch(() => this.circuits.delete(id));
+      this.circuits.set(id, loading);
+    }
+    return loading;
+  }
+
+  private async prepareCircuit(circuit: CircuitDefinition): Promise<LoadedCircuit> {
+    console.log(`📦 [MoproService] Loading circuit ${circuit.id} v${circuit.version}...`);
+
+    const versionDir = `${this.circuitsDir}${circuit.id}/v${circuit.version}/`;
+    await FileSystem.makeDirectoryAsync(versionDir, { intermediates: true });
+    await this.removeOutdatedVersions(circuit);
+
+    const zkeyPath = await this.ensureAsset(versionDir, circuit.zkey);
+    const wasmPath = circuit.wasm ? await this.ensureAsset(versionDir, circuit.wasm) : undefined;
+
+    console.log(`✅ [MoproService] Circuit ${circuit.id} ready at`, zkeyPath);
+    return {
+      id: circuit.id,
+      version: circuit.version,
+      zkeyPath,
+      wasmPath,
+      proofLib: circuit.proofLib
+    };
+  }
+
+  /**
+   * Copy a bundled asset into `dir` unless a copy with the expected checksum is already there
+   */
+  private async ensureAsset(dir: string, circuitAsset: CircuitAsset): Promise<string> {
+    const filePath = `${dir}${circuitAsset.fileName}`;
+
+    const fileInfo = await FileSystem.getInfoAsync(filePath);
+    if (fileInfo.exists) {
+      if (await this.sha256File(filePath) === circuitAsset.sha256) {
+        console.log('✅ [MoproService] File already exists at target location');
+        return filePath.replace("file://", "");
+      }
+      console.warn('⚠️ [MoproService] Checksum mismatch, re-copying', circuitAsset.fileName);
+      await FileSystem.deleteAsync(filePath, { idempotent: true });
+    }
+
+    console.log('⬇️ [MoproService] Copying asset to', filePath);
+    const asset = Asset.fromModule(circuitAsset.asset);
+    const file = await asset.downloadAsync();
+    if (file.localUri === null) {
+      throw new Error("Failed to download the file");
+    }
+    // Copy rather than move so the asset cache stays intact for a later re-copy
+    await FileSystem.copyAsync({
+      from: file.localUri,
+      to: filePath,
+    });
+
+    if (await this.sha256File(filePath) !== circuitAsset.sha256) {
+      await FileSystem.deleteAsync(filePath, { idempotent: true });
+      throw new Error(`Bundled asset ${circuitAsset.fileName} does not match its checksum`);
+    }
+
+    // Native provers take plain paths, without the file:// prefix
+    return filePath.replace("file://", "");
+  }
+
+  private async sha256File(fileUri: string): Promise<string> {
+    const base64 = await FileSystem.readAsStringAsync(fileUri, {
+      encoding: FileSystem.EncodingType.Base64
+    });
+    return sha256(new Uint8Array(Buffer.from(base64, 'base64'))).slice(2);
+  }
+
+  private async removeOutdatedVersions(circuit: CircuitDefinition): Promise<void> {
+    const circuitDir = `${this.circuitsDir}${circuit.id}/`;
+    const dirInfo = await FileSystem.getInfoAsync(circuitDir);
+    if (!dirInfo.exists) return;
+
+    const versions = await FileSystem.readDirectoryAsync(circuitDir);
+    for (const version of versions) {
+      if (version !== `v${circuit.version}`) {
+        console.log(`🧹 [MoproService] Removing outdated ${circuit.id} ${version}`);
+        await FileSystem.deleteAsync(`${circuitDir}${version}`, { idempotent: true });
+      }
+    }
+  }
+
   /**
    * Test basic mopro functionality
    */
@@ -101,10 +191,7 @@ export class MoproService {
    * Generate a Circom proof for multiplication circuit
    */
   public async generateMultiplicationProof(a: string, b: string): Promise<CircomProofResult> {
-    if (!this.zkeyPath) {
-      console.error('❌ [MoproService] Service not initialized!');
-      throw new Error('MoproService not initialized. Call initialize() first.');
-    }
+    const circuit = await this.loadCircuit('multiplier2');
 
     try {
       const startTime = Date.now();
@@ -116,19 +203,19 @@ export class MoproService {
       };
 
       const proofLib: CircomProofLib = {
-        proofLib: ProofLibOption.Arkworks
+        proofLib: circuit.proofLib
       };
 
       console.log('📊 [MoproService] Proof generation parameters:');
       console.log('  - Inputs:', circuitInputs);
       console.log('  - Expected output (a*b):', parseInt(a) * parseInt(b));
-      console.log('  - Zkey path:', this.zkeyPath);
-      console.log('  - Proof library:', 'Arkworks');
+      console.log('  - Zkey path:', circuit.zkeyPath);
+      console.log('  - Proof library:', ProofLibOption[circuit.proofLib]);
       console.log('  - Input JSON:', JSON.stringify(circuitInputs));
 
       console.log('⚡ [MoproService] Calling generateCircomProof...');
       const result = await generateCircomProof(
-        this.zkeyPath,
+        circuit.zkeyPath,
         JSON.stringify(circuitInputs),
         proofLib
       );
@@ -154,32 +241,122 @@ export class MoproService {
         message: (error as Error).message,
         stack: (error as Error).stack,
         inputs: { a, b },
-        zkeyPath: this.zkeyPath
+        zkeyPath: circuit.zkeyPath
       });
       throw error;
     }
   }
 
   /**
-   * Verify a Circom proof
+   * Generate a withdrawal proof for a note and return withdraw(_amount, _nullifierHash, _proof) calldata
+   * Unlocks the note owner's spending key first (biometric/PIN) - spending needs more than the viewing key
    */
-  public async verifyProof(proofResult: CircomProofResult): Promise<boolean> {
-    if (!this.zkeyPath) {
-      console.error('❌ [MoproService] Service not initialized for verification!');
-      throw new Error('MoproService not initialized. Call initialize() first.');
+  public async generateWithdrawProof(
+    note: WithdrawNote,
+    merklePath: MerklePath,
+    recipient: string,
+    fee: bigint = 0n,
+    relayer?: string
+  ): Promise<WithdrawCalldata> {
+    // Notes stored before commitments bound the spending key have none, and the circuit cannot open them
+    if (!note.spendingKeyHash) {
+      throw new Error('This note predates spending key binding and cannot be withdrawn with the current circuit');
     }
+    const spendSecret = await secureKeyService.authorizeSpend(note.spendingKeyHash);
+    const circuit = await this.loadCircuit('withdraw');
+
+    try {
+      const startTime = Date.now();
+      console.log('🔄 [MoproService] Starting withdrawal proof generation...');
+
+      const circuitInputs = buildWithdrawInputs(note, merklePath, { recipient, relayer, fee }, spendSecret);
+
+      const proofLib: CircomProofLib = {
+        proofLib: circuit.proofLib
+      };
+
+      console.log('📊 [MoproService] Withdrawal proof parameters:');
+      console.log('  - Leaf index:', merklePath.leafIndex);
+      console.log('  - Root:', circuitInputs.root[0]);
+      console.log('  - Recipient:', recipient);
+      console.log('  - Fee:', fee.toString());
+      console.log('  - Zkey path:', circuit.zkeyPath);
+
+      const result = await generateCircomProof(
+        circuit.zkeyPath,
+        JSON.stringify(circuitInputs),
+        proofLib
+      );
+
+      const calldata = encodeWithdrawCalldata(result);
+
+      console.log('🎉 [MoproService] Withdrawal proof generated!');
+      console.log('⏱️ [MoproService] Generation time:', Date.now() - startTime, 'ms');
+      console.log('🔢 [MoproService] Nullifier hash:', calldata.nullifierHash);
+
+      return calldata;
+    } catch (error) {
+      console.error('💥 [MoproService] Withdrawal proof generation failed!');
+      console.error('🔍 [MoproService] Error details:', {
+        message: (error as Error).message,
+        stack: (error as Error).stack,
+        leafIndex: merklePath.leafIndex,
+        zkeyPath: circuit.zkeyPath
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Prove that `account` owns a note without revealing its secret or nullifier (for auditor disclosures)
+   * `spendSecret` comes from secureKeyService.authorizeSpends, which unlocks each spending key once for
+   * all the notes in a disclosure
+   */
+  public async generateOwnershipProof(note: OwnershipNote, account: string, spendSecret: bigint): Promise<CircomProofResult> {
+    const circuit = await this.loadCircuit('ownership');
+
+    try {
+      const startTime = Date.now();
+      console.log('🔄 [MoproService] Starting ownership proof generation...');
+
+      const result = await generateCircomProof(
+        circuit.zkeyPath,
+        JSON.stringify(buildOwnershipInputs(note, account, spendSecret)),
+        { proofLib: circuit.proofLib }
+      );
+
+      console.log('🎉 [MoproService] Ownership proof generated!');
+      console.log('⏱️ [MoproService] Generation time:', Date.now() - startTime, 'ms');
+
+      return result;
+    } catch (error) {
+      console.error('💥 [MoproService] Ownership proof generation failed!');
+      console.error('🔍 [MoproService] Error details:', {
+        message: (error as Error).message,
+        commitment: note.commitment,
+        zkeyPath: circuit.zkeyPath
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Verify a Circom proof
+   */
+  public async verifyProof(proofResult: CircomProofResult, circuitId: CircuitId = 'multiplier2'): Promise<boolean> {
+    const circuit = await this.loadCircuit(circuitId);
 
     try {
       const startTime = Date.now();
       console.log('🔍 [MoproService] Starting proof verification...');
       
       const proofLib: CircomProofLib = {
-        proofLib: ProofLibOption.Arkworks
+        proofLib: circuit.proofLib
       };
 
       console.log('📊 [MoproService] Verification parameters:');
-      console.log('  - Zkey path:', this.zkeyPath);
-      console.log('  - Proof library:', 'Arkworks');
+      console.log('  - Zkey path:', circuit.zkeyPath);
+      console.log('  - Proof library:', ProofLibOption[circuit.proofLib]);
       console.log('  - Public inputs:', proofResult.inputs);
       console.log('  - Proof structure:', {
         hasA: !!proofResult.proof?.a,
@@ -191,7 +368,7 @@ export class MoproService {
 
       console.log('⚡ [MoproService] Calling verifyCircomProof...');
       const isValid = await verifyCircomProof(
-        this.zkeyPath,
+        circuit.zkeyPath,
         proofResult,
         proofLib
       );
@@ -216,7 +393,7 @@ export class MoproService {
         message: (error as Error).message,
         stack: (error as Error).stack,
         proofInputs: proofResult?.inputs,
-        zkeyPath: this.zkeyPath
+        zkeyPath: circuit.zkeyPath
       });
       throw error;
     }
@@ -1,10 +1,16 @@
-import { formatEther } from 'viem';
-import { switchChain, getChainId, getBalance } from '@wagmi/core';
+import { Chain, formatEther } from 'viem';
+import { switchChain, getChainId, getBalance, watchChainId } from '@wagmi/core';
 import { wagmiConfig } from '../config/walletConnect';
+import { Deployment, getDeployment, isDeployedOn } from '../config/deployments';
 
 export const ANVIL_CHAIN_ID = 31337;
 export const SEPOLIA_CHAIN_ID = 11155111;
 
+export interface ActiveDeployment extends Deployment {
+  chain: Chain;
+  rpcUrl: string;
+}
+
 class NetworkService {
   async getCurrentChainId(): Promise<number> {
     try {
@@ -66,6 +72,31 @@ class NetworkService {
     }
   }
 
+  /**
+   * zkETHer deployment on the wallet's current chain; throws if zkETHer is not deployed there
+   */
+  getActiveDeployment(): ActiveDeployment {
+    return this.getDeploymentFor(getChainId(wagmiConfig));
+  }
+
+  getDeploymentFor(chainId: number): ActiveDeployment {
+    const chain = wagmiConfig.chains.find(candidate => candidate.id === chainId);
+    if (!chain) {
+      throw new Error(`Chain ${chainId} is not configured in the wallet`);
+    }
+    return { ...getDeployment(chainId), chain, rpcUrl: chain.rpcUrls.default.http[0] };
+  }
+
+  /**
+   * Call `onChange` whenever the wallet switches chain - with null if zkETHer is not deployed there.
+   * Returns the unsubscribe function.
+   */
+  watchActiveDeployment(onChange: (deployment: ActiveDeployment | null) => void): () => void {
+    return watchChainId(wagmiConfig, {
+      onChange: chainId => onChange(isDeployedOn(chainId) ? this.getDeploymentFor(chainId) : null)
+    });
+  }
+
   async getBalance(address: `0x${string}`): Promise<string> {
     try {
       const balance = await getBalance(wagmiConfig, { address });
@@ -0,0 +1,58 @@
+/**
+ * Note encryption (noteEncryption.ts) through the Node-safe sealing it delegates to
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { toBytes32 } from '../crypto/commitments';
+import { generateHexKeyPair } from './libsodiumHelper.js';
+import { ENCRYPTED_NOTE_BYTES, NotePlaintext, openNote, sealNote } from './noteCiphertext';
+
+const note: NotePlaintext = {
+  secret: toBytes32(123456789n),
+  nullifier: toBytes32(987654321n),
+  amount: '990000000000000000'
+};
+
+// Flip one bit of the byte at `offset` in a hex payload
+function flipByte(payload: string, offset: number): string {
+  const bytes = Buffer.from(payload.slice(2), 'hex');
+  bytes[offset] ^= 1;
+  return `0x${bytes.toString('hex')}`;
+}
+
+describe('note encryption', () => {
+  it('round-trips a note to the recipient key', async () => {
+    const recipient = await generateHexKeyPair();
+    const encrypted = await sealNote(note, recipient.publicKey);
+    assert.equal((encrypted.length - 2) / 2, ENCRYPTED_NOTE_BYTES);
+    assert.deepEqual(await openNote(encrypted, recipient.privateKey), note);
+  });
+
+  it('uses a fresh ephemeral key for every note', async () => {
+    const recipient = await generateHexKeyPair();
+    assert.notEqual(await sealNote(note, recipient.publicKey), await sealNote(note, recipient.publicKey));
+  });
+
+  it('gives null for another key', async () => {
+    const recipient = await generateHexKeyPair();
+    const other = await generateHexKeyPair();
+    assert.equal(await openNote(await sealNote(note, recipient.publicKey), other.privateKey), null);
+  });
+
+  it('gives null for a tampered ciphertext', async () => {
+    const recipient = await generateHexKeyPair();
+    const encrypted = await sealNote(note, recipient.publicKey);
+    // Ephemeral key, nonce, box body and MAC
+    for (const offset of [1, 33, 57, ENCRYPTED_NOTE_BYTES - 1]) {
+      assert.equal(await openNote(flipByte(encrypted, offset), recipient.privateKey), null);
+    }
+  });
+
+  it('gives null for a payload in another format', async () => {
+    const recipient = await generateHexKeyPair();
+    const encrypted = await sealNote(note, recipient.publicKey);
+    assert.equal(await openNote(flipByte(encrypted, 0), recipient.privateKey), null);
+    assert.equal(await openNote(encrypted.slice(0, -2), recipient.privateKey), null);
+  });
+});
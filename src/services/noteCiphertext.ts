@@ -0,0 +1,101 @@
+/**
+ * zkETHer Note Ciphertext
+ * Wire format of the EncryptedNote payload (see noteEncryption.ts) and sealing to an explicit key,
+ * kept free of app storage so Node scripts can read notes too.
+ *
+ *   version (1) || ephemeralPublicKey (32) || nonce (24) || box(secret 32 || nullifier 32 || amount 32) + MAC (16)
+ */
+
+import { Hex, toBytes32, toFieldElement } from '../crypto/commitments';
+import { boxDecrypt, boxEncrypt, bytesToHex, hexToBytes } from './libsodiumHelper.js';
+
+export const NOTE_ENCRYPTION_VERSION = 1;
+
+const VERSION_BYTES = 1;
+const PUBLIC_KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+const FIELD_BYTES = 32;
+const PLAINTEXT_BYTES = FIELD_BYTES * 3;
+const MAC_BYTES = 16;
+export const ENCRYPTED_NOTE_BYTES = VERSION_BYTES + PUBLIC_KEY_BYTES + NONCE_BYTES + PLAINTEXT_BYTES + MAC_BYTES;
+
+export interface NotePlaintext {
+  secret: Hex;
+  nullifier: Hex;
+  amount: string;  // wei, decimal string
+}
+
+export interface SealedNote {
+  ephemeralPublicKey: string;
+  nonce: string;
+  ciphertext: string;
+}
+
+export function encodeNotePlaintext(note: NotePlaintext): Uint8Array {
+  return hexToBytes(
+    toBytes32(toFieldElement(note.secret)) +
+    toBytes32(toFieldElement(note.nullifier)).slice(2) +
+    toBytes32(BigInt(note.amount)).slice(2)
+  );
+}
+
+export function decodeNotePlaintext(plaintext: Uint8Array): NotePlaintext {
+  const field = (index: number): Hex => bytesToHex(plaintext.slice(index * FIELD_BYTES, (index + 1) * FIELD_BYTES)) as Hex;
+  return {
+    secret: field(0),
+    nullifier: field(1),
+    amount: BigInt(field(2)).toString()
+  };
+}
+
+export function packEncryptedNote(sealed: SealedNote): Hex {
+  return ('0x' +
+    NOTE_ENCRYPTION_VERSION.toString(16).padStart(2, '0') +
+    sealed.ephemeralPublicKey.slice(2) +
+    sealed.nonce.slice(2) +
+    sealed.ciphertext.slice(2)) as Hex;
+}
+
+/**
+ * Split an EncryptedNote payload; null when it is not in this format
+ */
+export function unpackEncryptedNote(encryptedNote: string): SealedNote | null {
+  const bytes = hexToBytes(encryptedNote);
+  if (bytes.length !== ENCRYPTED_NOTE_BYTES || bytes[0] !== NOTE_ENCRYPTION_VERSION) {
+    return null;
+  }
+
+  let offset = VERSION_BYTES;
+  const take = (length: number): string => {
+    const slice = bytes.slice(offset, offset + length);
+    offset += length;
+    return bytesToHex(slice);
+  };
+
+  return {
+    ephemeralPublicKey: take(PUBLIC_KEY_BYTES),
+    nonce: take(NONCE_BYTES),
+    ciphertext: take(PLAINTEXT_BYTES + MAC_BYTES)
+  };
+}
+
+/**
+ * Encrypt note secrets to the recipient's X25519 public key
+ */
+export async function sealNote(note: NotePlaintext, recipientPublicKey: string): Promise<Hex> {
+  const sealed = await boxEncrypt(encodeNotePlaintext(note), recipientPublicKey);
+  return packEncryptedNote(sealed);
+}
+
+/**
+ * Decrypt a note with an X25519 private key; null when it was not encrypted to this key or was altered
+ */
+export async function openNote(encryptedNote: string, privateKey: string): Promise<NotePlaintext | null> {
+  const sealed = unpackEncryptedNote(encryptedNote);
+  if (!sealed) {
+    return null;
+  }
+
+  const plaintext = await boxDecrypt(sealed, privateKey);
+  return plaintext ? decodeNotePlaintext(plaintext) : null;
+}
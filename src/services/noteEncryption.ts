@@ -0,0 +1,54 @@
+/**
+ * zkETHer Note Encryption
+ * Seals a note's secrets to the recipient's X25519 zkETHer key so the recipient can discover it on-chain.
+ * The depositor encrypts from a fresh ephemeral key (libsodium box) and publishes the result next to the
+ * commitment via depositWithNote, which emits EncryptedNote(commitment, encryptedNote).
+ * The wire format is in noteCiphertext.ts.
+ */
+
+import { computeCommitment, Hex, toFieldElement } from '../crypto/commitments';
+import { NotePlaintext, openNote, sealNote } from './noteCiphertext';
+import { secureKeyService } from './secureKeyService';
+
+export { ENCRYPTED_NOTE_BYTES, NOTE_ENCRYPTION_VERSION } from './noteCiphertext';
+export type { NotePlaintext } from './noteCiphertext';
+
+class NoteEncryptionService {
+  /**
+   * Encrypt note secrets to the recipient's X25519 public key
+   */
+  async encryptNote(note: NotePlaintext, recipientPublicKey: string): Promise<Hex> {
+    return sealNote(note, recipientPublicKey);
+  }
+
+  /**
+   * Decrypt a note with our own zkETHer viewing key.
+   * Returns null when the note was not encrypted to us.
+   */
+  async decryptNote(encryptedNote: string): Promise<NotePlaintext | null> {
+    const viewingKey = await secureKeyService.getViewingKey();
+    if (!viewingKey) {
+      throw new Error('No zkETHer viewing key available to decrypt notes');
+    }
+    return this.decryptNoteWithKey(encryptedNote, viewingKey);
+  }
+
+  /**
+   * Decrypt a note with an explicit private key - lets callers trial-decrypt many notes
+   * after reading the key once. Returns null when the note was not encrypted to this key.
+   */
+  async decryptNoteWithKey(encryptedNote: string, privateKey: string): Promise<NotePlaintext | null> {
+    return openNote(encryptedNote, privateKey);
+  }
+
+  /**
+   * Check that decrypted secrets really open `commitment` for `ownerPublicKey` and `spendingKeyHash`.
+   * A sender could publish a ciphertext that decrypts fine but does not match the deposit.
+   */
+  matchesCommitment(note: NotePlaintext, commitment: string, ownerPublicKey: string, spendingKeyHash: string): boolean {
+    return computeCommitment({ ...note, ownerPublicKey, spendingKeyHash }) === toFieldElement(commitment);
+  }
+}
+
+export const noteEncryption = new NoteEncryptionService();
+export default noteEncryption;
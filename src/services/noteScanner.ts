@@ -0,0 +1,272 @@
+/**
+ * zkETHer Note Scanner
+ * Discovers notes sent to us: walks the token's deposits from a persisted block cursor and
+ * trial-decrypts every EncryptedNote payload with our X25519 private keys, retired ones included.
+ * Notes that decrypt and open their commitment are added to the note store, as are notes
+ * imported from a shared note string.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getAbiItem } from 'viem';
+import { ZKETHER_TOKEN_ABI } from '../contracts';
+import { Hex, computeNullifierHash, toBytes32 } from '../crypto/commitments';
+import { Note } from '../types/index';
+import { DepositTree } from './depositTree';
+import { NotePlaintext, noteEncryption } from './noteEncryption';
+import { parseNote } from './noteString';
+import { noteStore } from './noteStore';
+import { secureKeyService } from './secureKeyService';
+import { zkETHerTokenService } from './zkETHerTokenService';
+
+const ENCRYPTED_NOTE_EVENT = getAbiItem({ abi: ZKETHER_TOKEN_ABI, name: 'EncryptedNote' });
+
+export type ScanStatus = 'idle' | 'scanning' | 'complete' | 'cancelled' | 'error';
+
+export interface ScanProgress {
+  status: ScanStatus;
+  fromBlock: number;
+  toBlock: number;
+  scannedBlock: number;  // last block whose payloads have been tried
+  percent: number;
+  notesFound: number;    // new notes found by the current/last scan
+  error?: string;
+}
+
+export interface ScanOptions {
+  rescan?: boolean;      // ignore the cursor and start again from genesis
+}
+
+class NoteScanner {
+  private readonly CURSOR_KEY_PREFIX = 'zkether_note_scanner_cursor_';
+  private readonly BATCH_SIZE = 2000n;
+
+  private scanning: Promise<ScanProgress> | null = null;
+  private cancelRequested = false;
+  private listeners = new Set<(progress: ScanProgress) => void>();
+  private progress: ScanProgress = {
+    status: 'idle',
+    fromBlock: 0,
+    toBlock: 0,
+    scannedBlock: 0,
+    percent: 0,
+    notesFound: 0
+  };
+
+  /**
+   * Catch up from the saved cursor to the latest block.
+   * Concurrent callers share the running scan; a rescan request waits for it to finish first.
+   */
+  async scan(options: ScanOptions = {}): Promise<ScanProgress> {
+    if (this.scanning) {
+      if (!options.rescan) return this.scanning;
+      await this.scanning.catch(() => undefined);
+    }
+
+    this.cancelRequested = false;
+    this.scanning = this.runScan(options).finally(() => {
+      this.scanning = null;
+    });
+    return this.scanning;
+  }
+
+  /**
+   * Forget the cursor and scan every deposit again, e.g. after restoring keys on a new device
+   */
+  rescanFromGenesis(): Promise<ScanProgress> {
+    return this.scan({ rescan: true });
+  }
+
+  /**
+   * Stop after the current batch; the cursor keeps everything scanned so far
+   */
+  cancel(): void {
+    if (this.scanning) {
+      console.log('⏹️ Note scan cancellation requested');
+      this.cancelRequested = true;
+    }
+  }
+
+  isScanning(): boolean {
+    return this.scanning !== null;
+  }
+
+  getProgress(): ScanProgress {
+    return this.progress;
+  }
+
+  /**
+   * Subscribe to progress updates; returns an unsubscribe function
+   */
+  subscribe(listener: (progress: ScanProgress) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.progress);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Import a note handed to us out of band (note string or scanned QR payload).
+   * The note must belong to the connected chain and its commitment must be in the deposit tree.
+   */
+  async importNote(noteString: string, passphrase?: string): Promise<Note> {
+    const parsed = await parseNote(noteString, passphrase);
+
+    const chainId = await zkETHerTokenService.getPublicClient().getChainId();
+    if (parsed.chainId !== chainId) {
+      throw new Error(`Note is for chain ${parsed.chainId}, but the app is connected to chain ${chainId}`);
+    }
+
+    const tree = await zkETHerTokenService.syncDepositTree();
+    await this.storeNote(tree, parsed, parsed.commitment, parsed.ownerPublicKey, parsed.spendingKeyHash);
+
+    const note = await noteStore.getNote(parsed.commitment);
+    if (!note) {
+      throw new Error('No deposit on-chain matches this note');
+    }
+    console.log('📥 Note imported:', { commitment: parsed.commitment.slice(0, 10) + '...', leafIndex: note.leafIndex });
+    return note;
+  }
+
+  /**
+   * Complete decrypted secrets with their deposit's on-chain data and add the note to the store.
+   * Returns false when the commitment has no deposit yet or the note is already stored.
+   */
+  private async storeNote(
+    tree: DepositTree,
+    note: NotePlaintext,
+    commitment: Hex,
+    ownerPublicKey: string,
+    spendingKeyHash: string
+  ): Promise<boolean> {
+    const deposit = tree.getDeposit(commitment);
+    if (!deposit) return false;
+
+    const client = zkETHerTokenService.getPublicClient();
+    const block = await client.getBlock({ blockNumber: deposit.blockNumber });
+    const spent = await client.readContract({
+      address: zkETHerTokenService.getTokenAddress(),
+      abi: ZKETHER_TOKEN_ABI,
+      functionName: 'nullifierHashes',
+      args: [toBytes32(computeNullifierHash(note.nullifier, spendingKeyHash))]
+    });
+
+    return noteStore.addNote({
+      amount: note.amount,
+      secret: note.secret,
+      nullifier: note.nullifier,
+      commitment,
+      leafIndex: deposit.leafIndex,
+      depositBlock: Number(deposit.blockNumber),
+      depositTimestamp: Number(block.timestamp) * 1000,
+      ownerPublicKey,
+      spendingKeyHash,
+      spent
+    });
+  }
+
+  private async runScan(options: ScanOptions): Promise<ScanProgress> {
+    try {
+      if (!(await secureKeyService.hasKeys())) {
+        throw new Error('Generate your zkETHer keys before scanning for notes');
+      }
+
+      // Every payload we try must already have its Deposit (and leaf index) in the tree
+      const tree = await zkETHerTokenService.syncDepositTree();
+      const client = zkETHerTokenService.getPublicClient();
+      const tokenAddress = zkETHerTokenService.getTokenAddress();
+      const cursorKey = `${this.CURSOR_KEY_PREFIX}${tokenAddress.toLowerCase()}`;
+
+      if (options.rescan) {
+        await AsyncStorage.removeItem(cursorKey);
+      }
+      const cursor = await AsyncStorage.getItem(cursorKey);
+      const fromBlock = cursor ? BigInt(cursor) + 1n : 0n;
+      const toBlock = tree.syncedBlock;
+
+      this.update({
+        status: 'scanning',
+        fromBlock: Number(fromBlock),
+        toBlock: Number(toBlock),
+        scannedBlock: Number(fromBlock) - 1,
+        percent: 0,
+        notesFound: 0,
+        error: undefined
+      });
+
+      if (fromBlock > toBlock) {
+        return this.update({ status: 'complete', percent: 100 });
+      }
+
+      console.log('🔎 Scanning for notes:', { fromBlock: fromBlock.toString(), toBlock: toBlock.toString() });
+
+      // Read the viewing keys once - keys created before the viewing/spending split prompt for biometric/PIN.
+      // Retired keys are tried too: notes sent before a rotation are encrypted to them.
+      const keyPairs = await secureKeyService.getHistoricKeyPairs();
+      if (keyPairs.length === 0) {
+        throw new Error('No zkETHer viewing key available to decrypt notes');
+      }
+
+      let batchStart = fromBlock;
+      while (batchStart <= toBlock) {
+        if (this.cancelRequested) {
+          console.log('⏹️ Note scan cancelled at block', this.progress.scannedBlock);
+          return this.update({ status: 'cancelled' });
+        }
+
+        const batchEnd = batchStart + this.BATCH_SIZE - 1n < toBlock ? batchStart + this.BATCH_SIZE - 1n : toBlock;
+        const logs = await client.getLogs({
+          address: tokenAddress,
+          event: ENCRYPTED_NOTE_EVENT,
+          fromBlock: batchStart,
+          toBlock: batchEnd
+        });
+
+        let found = 0;
+        for (const log of logs) {
+          const commitment = log.args.commitment as Hex;
+          for (const { publicKey, privateKey, spendingKeyHash } of keyPairs) {
+            // Keys without a recorded hash have never handed out a receiving key, so no note commits to them
+            if (!spendingKeyHash) continue;
+            const note = await noteEncryption.decryptNoteWithKey(log.args.encryptedNote as string, privateKey);
+            if (!note || !noteEncryption.matchesCommitment(note, commitment, publicKey, spendingKeyHash)) continue;
+
+            const added = await this.storeNote(tree, note, commitment, publicKey, spendingKeyHash);
+            if (added) found++;
+            break;
+          }
+        }
+
+        // Persist after every batch so a cancelled or interrupted scan resumes where it stopped
+        await AsyncStorage.setItem(cursorKey, batchEnd.toString());
+        const scanned = Number(batchEnd - fromBlock + 1n);
+        const total = Number(toBlock - fromBlock + 1n);
+        this.update({
+          scannedBlock: Number(batchEnd),
+          percent: Math.floor((scanned / total) * 100),
+          notesFound: this.progress.notesFound + found
+        });
+
+        batchStart = batchEnd + 1n;
+      }
+
+      console.log('✅ Note scan complete:', { notesFound: this.progress.notesFound });
+      return this.update({ status: 'complete', percent: 100 });
+    } catch (error) {
+      console.error('❌ Note scan failed:', error);
+      return this.update({
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  private update(changes: Partial<ScanProgress>): ScanProgress {
+    this.progress = { ...this.progress, ...changes };
+    this.listeners.forEach(listener => listener(this.progress));
+    return this.progress;
+  }
+}
+
+export const noteScanner = new NoteScanner();
+export default noteScanner;
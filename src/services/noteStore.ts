@@ -0,0 +1,161 @@
+/**
+ * zkETHer Note Store
+ * Persists the user's shielded notes on the device.
+ * Notes are encrypted with a device-local secretbox key kept in SecureStore;
+ * the ciphertext itself lives in AsyncStorage because SecureStore values are size-limited.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { Note } from '../types/index';
+import { generateSecretKey, secretboxEncrypt, secretboxDecrypt } from './libsodiumHelper.js';
+
+class NoteStore {
+  private readonly NOTES_KEY = 'zkether_notes';
+  private readonly STORE_KEY_KEY = 'zkether_note_store_key';
+
+  private notes: Note[] | null = null;
+  private listeners = new Set<(notes: Note[]) => void>();
+  private writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Get all stored notes, spent and unspent
+   */
+  async getNotes(): Promise<Note[]> {
+    if (this.notes) return this.notes;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.NOTES_KEY);
+      if (!stored) {
+        this.notes = [];
+        return this.notes;
+      }
+
+      const storeKey = await this.getStoreKey();
+      const plaintext = await secretboxDecrypt(JSON.parse(stored), storeKey);
+      this.notes = JSON.parse(plaintext) as Note[];
+      return this.notes;
+    } catch (error) {
+      console.error('❌ Failed to load notes:', error);
+      throw new Error('Failed to decrypt note store');
+    }
+  }
+
+  /**
+   * Get notes that can still be withdrawn, oldest first
+   */
+  async getUnspentNotes(): Promise<Note[]> {
+    const notes = await this.getNotes();
+    return notes
+      .filter(note => !note.spent)
+      .sort((a, b) => a.leafIndex - b.leafIndex);
+  }
+
+  /**
+   * Find a note by its commitment
+   */
+  async getNote(commitment: string): Promise<Note | null> {
+    const notes = await this.getNotes();
+    return notes.find(note => note.commitment.toLowerCase() === commitment.toLowerCase()) || null;
+  }
+
+  /**
+   * Pick the oldest unspent note worth at least `amountWei`
+   */
+  async selectNoteForAmount(amountWei: bigint): Promise<Note | null> {
+    const notes = await this.getUnspentNotes();
+    return notes.find(note => BigInt(note.amount) >= amountWei) || null;
+  }
+
+  /**
+   * Add a note; notes already in the store (same commitment) are left untouched
+   */
+  async addNote(note: Note): Promise<boolean> {
+    return this.serialize(async () => {
+      const existing = await this.getNote(note.commitment);
+      if (existing) {
+        console.log('ℹ️ Note already stored:', note.commitment.slice(0, 10) + '...');
+        return false;
+      }
+
+      const notes = await this.getNotes();
+      await this.persist([...notes, note]);
+      console.log('✅ Note stored:', { commitment: note.commitment.slice(0, 10) + '...', leafIndex: note.leafIndex });
+      return true;
+    });
+  }
+
+  /**
+   * Mark a note as spent once its nullifier has been used on-chain
+   */
+  async markSpent(commitment: string, spentTimestamp: number = Date.now()): Promise<void> {
+    return this.serialize(async () => {
+      const notes = await this.getNotes();
+      await this.persist(
+        notes.map(note =>
+          note.commitment.toLowerCase() === commitment.toLowerCase() ? { ...note, spent: true, spentTimestamp } : note
+        )
+      );
+    });
+  }
+
+  /**
+   * Subscribe to note changes; returns an unsubscribe function
+   */
+  subscribe(listener: (notes: Note[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Delete all stored notes (for testing or reset)
+   */
+  async clear(): Promise<void> {
+    return this.serialize(async () => {
+      await AsyncStorage.removeItem(this.NOTES_KEY);
+      await SecureStore.deleteItemAsync(this.STORE_KEY_KEY);
+      this.notes = [];
+      this.notify();
+      console.log('✅ Note store cleared');
+    });
+  }
+
+  /**
+   * Run read-modify-write operations one after another. Every write replaces the whole encrypted
+   * blob, so a scanner batch and a deposit writing at the same time would otherwise drop a note.
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(operation);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private async persist(notes: Note[]): Promise<void> {
+    const storeKey = await this.getStoreKey();
+    const payload = await secretboxEncrypt(JSON.stringify(notes), storeKey);
+    await AsyncStorage.setItem(this.NOTES_KEY, JSON.stringify(payload));
+    this.notes = notes;
+    this.notify();
+  }
+
+  private async getStoreKey(): Promise<string> {
+    const existing = await SecureStore.getItemAsync(this.STORE_KEY_KEY);
+    if (existing) return existing;
+
+    const storeKey = await generateSecretKey();
+    await SecureStore.setItemAsync(this.STORE_KEY_KEY, storeKey, {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    });
+    return storeKey;
+  }
+
+  private notify() {
+    const notes = this.notes || [];
+    this.listeners.forEach(listener => listener(notes));
+  }
+}
+
+export const noteStore = new NoteStore();
+export default noteStore;
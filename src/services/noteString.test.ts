@@ -0,0 +1,57 @@
+/**
+ * Note strings must give back exactly the note that was serialized - including owner keys above
+ * the field modulus, which are most X25519 keys.
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeCommitment, computeSpendingKeyHash, toBytes32 } from '../crypto/commitments';
+import { ShareableNote, parseNote, serializeNote } from './noteString';
+
+const note = (ownerPublicKey: `0x${string}`): ShareableNote => ({
+  chainId: 31337,
+  amount: '990000000000000000',
+  secret: toBytes32(123456789n),
+  nullifier: toBytes32(987654321n),
+  ownerPublicKey,
+  spendingKeyHash: toBytes32(computeSpendingKeyHash(42n))
+});
+
+describe('noteString', () => {
+  const ownerKeys: `0x${string}`[] = [
+    '0x0000000000000000000000000000000000000000000000000000000000000003',
+    '0x8f40c5adb68f25624ae5b214ea767a6ec94d829d3d7b5e1ad1ba6f3e2138285f',
+    '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff'
+  ];
+
+  for (const ownerPublicKey of ownerKeys) {
+    it(`round-trips owner key ${ownerPublicKey.slice(0, 10)}...`, async () => {
+      const parsed = await parseNote(await serializeNote(note(ownerPublicKey)));
+
+      assert.equal(parsed.ownerPublicKey, ownerPublicKey);
+      assert.equal(parsed.spendingKeyHash, note(ownerPublicKey).spendingKeyHash);
+      assert.equal(parsed.commitment, toBytes32(computeCommitment(note(ownerPublicKey))));
+    });
+  }
+
+  it('round-trips a passphrase-protected note', async () => {
+    const ownerPublicKey = ownerKeys[2];
+    const parsed = await parseNote(await serializeNote(note(ownerPublicKey), 'correct horse'), 'correct horse');
+
+    assert.equal(parsed.ownerPublicKey, ownerPublicKey);
+    assert.equal(parsed.passphraseProtected, true);
+  });
+
+  it('rejects a note string from before the spending key hash', async () => {
+    const serialized = await serializeNote(note(ownerKeys[1]));
+
+    await assert.rejects(parseNote(serialized.replace('-v2-', '-v1-')), /Unsupported note version: v1/);
+  });
+
+  it('rejects a mistyped note', async () => {
+    const serialized = await serializeNote(note(ownerKeys[1]));
+    const typo = serialized.slice(0, -1) + (serialized.endsWith('0') ? '1' : '0');
+
+    await assert.rejects(parseNote(typo), /checksum mismatch/);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * zkETHer Note Strings
+ * Text form of a note so a depositor can hand it to the recipient out of band (Signal, email, QR code).
+ *
+ *   zkether-note-v2-<chainId>-<amountWei>-<hex: secret 32 || nullifier 32 || ownerPubKey 32 || spendingKeyHash 32 || checksum 4>
+ *   zkether-enote-v2-<chainId>-<amountWei>-<hex: salt 16 || nonce 24 || secretbox(secrets 128) + MAC 16 || checksum 4>
+ *
+ * The note can only be withdrawn with the spending key behind spendingKeyHash, so a note string moves a
+ * note to a device of its owner, not to someone else. v1 strings predate the spending key hash.
+ *
+ * The checksum is the first 4 bytes of sha256(header || body) and catches typos and truncation.
+ * The `enote` variant seals the secrets with a key derived from a passphrase (scrypt), so the string
+ * and the passphrase can travel over different channels.
+ */
+
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { concat, sha256, stringToBytes } from 'viem';
+import { Hex, computeCommitment, toBytes32, toFieldElement } from '../crypto/commitments';
+import { bytesToHex, hexToBytes, secretboxDecryptBytes, secretboxEncryptBytes } from './libsodiumHelper.js';
+
+export const NOTE_STRING_VERSION = 'v2';
+
+const PLAIN_KIND = 'note';
+const ENCRYPTED_KIND = 'enote';
+
+const FIELD_BYTES = 32;
+const SECRETS_BYTES = FIELD_BYTES * 4;
+const CHECKSUM_BYTES = 4;
+const SALT_BYTES = 16;
+const NONCE_BYTES = 24;
+const MAC_BYTES = 16;
+
+// Interactive-strength scrypt that still finishes in a few seconds on a phone
+const SCRYPT_PARAMS = { N: 2 ** 14, r: 8, p: 1, dkLen: 32 };
+
+export interface ShareableNote {
+  chainId: number;
+  amount: string;        // wei, decimal string
+  secret: Hex;
+  nullifier: Hex;
+  ownerPublicKey: Hex;
+  spendingKeyHash: Hex;
+}
+
+export interface ParsedNote extends ShareableNote {
+  commitment: Hex;       // recomputed - look it up in the deposit tree before trusting the note
+  passphraseProtected: boolean;
+}
+
+/**
+ * Serialize a note; with a passphrase the secrets are encrypted (`zkether-enote-...`)
+ */
+export async function serializeNote(note: ShareableNote, passphrase?: string): Promise<string> {
+  if (!Number.isSafeInteger(note.chainId) || note.chainId <= 0) {
+    throw new Error('Invalid chain id');
+  }
+  const amount = BigInt(note.amount);
+  if (amount <= 0n) {
+    throw new Error('Note amount must be positive');
+  }
+
+  if (!/^0x[0-9a-fA-F]{64}$/.test(note.ownerPublicKey)) {
+    throw new Error('Owner public key must be 32 bytes of hex');
+  }
+
+  // The owner key goes in as raw bytes: most X25519 keys exceed the field modulus, and reducing
+  // them here would hand the recipient a different key. Only the commitment uses its field form.
+  const secrets = hexToBytes(
+    toBytes32(toFieldElement(note.secret)) +
+    toBytes32(toFieldElement(note.nullifier)).slice(2) +
+    note.ownerPublicKey.slice(2).toLowerCase() +
+    toBytes32(toFieldElement(note.spendingKeyHash)).slice(2)
+  );
+
+  const kind = passphrase ? ENCRYPTED_KIND : PLAIN_KIND;
+  const header = `zkether-${kind}-${NOTE_STRING_VERSION}-${note.chainId}-${amount.toString()}-`;
+
+  let body: Uint8Array = secrets;
+  if (passphrase) {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const key = await deriveKey(passphrase, salt);
+    const sealed = await secretboxEncryptBytes(secrets, key);
+    body = concat([salt, hexToBytes(sealed.nonce), hexToBytes(sealed.ciphertext)]);
+  }
+
+  return header + bytesToHex(concat([body, checksum(header, body)])).slice(2);
+}
+
+/**
+ * Parse a note string (or a scanned QR payload). Passphrase-protected notes need `passphrase`.
+ */
+export async function parseNote(noteString: string, passphrase?: string): Promise<ParsedNote> {
+  const parts = noteString.trim().toLowerCase().split('-');
+  if (parts.length !== 6 || parts[0] !== 'zkether' || (parts[1] !== PLAIN_KIND && parts[1] !== ENCRYPTED_KIND)) {
+    throw new Error('Not a zkETHer note');
+  }
+
+  const [, kind, version, chain, amount, payload] = parts;
+  if (version !== NOTE_STRING_VERSION) {
+    throw new Error(`Unsupported note version: ${version}`);
+  }
+  if (!/^[0-9]+$/.test(chain) || !/^[0-9]+$/.test(amount) || !/^([0-9a-f]{2})+$/.test(payload)) {
+    throw new Error('Malformed note');
+  }
+
+  const encrypted = kind === ENCRYPTED_KIND;
+  const expectedBytes = encrypted
+    ? SALT_BYTES + NONCE_BYTES + SECRETS_BYTES + MAC_BYTES + CHECKSUM_BYTES
+    : SECRETS_BYTES + CHECKSUM_BYTES;
+  const bytes = hexToBytes(payload);
+  if (bytes.length !== expectedBytes) {
+    throw new Error('Malformed note: wrong length');
+  }
+
+  const header = `zkether-${kind}-${version}-${chain}-${amount}-`;
+  const body = bytes.slice(0, bytes.length - CHECKSUM_BYTES);
+  if (bytesToHex(checksum(header, body)) !== bytesToHex(bytes.slice(bytes.length - CHECKSUM_BYTES))) {
+    throw new Error('Note checksum mismatch - the note was mistyped or truncated');
+  }
+
+  let secrets: Uint8Array | null = body;
+  if (encrypted) {
+    if (!passphrase) {
+      throw new Error('This note is protected by a passphrase');
+    }
+    const salt = body.slice(0, SALT_BYTES);
+    const key = await deriveKey(passphrase, salt);
+    secrets = await secretboxDecryptBytes(
+      {
+        nonce: bytesToHex(body.slice(SALT_BYTES, SALT_BYTES + NONCE_BYTES)),
+        ciphertext: bytesToHex(body.slice(SALT_BYTES + NONCE_BYTES))
+      },
+      key
+    );
+    if (!secrets) {
+      throw new Error('Wrong passphrase for this note');
+    }
+  }
+
+  const field = (index: number): Hex => bytesToHex(secrets!.slice(index * FIELD_BYTES, (index + 1) * FIELD_BYTES)) as Hex;
+  const note: ShareableNote = {
+    chainId: Number(chain),
+    amount: BigInt(amount).toString(),
+    secret: field(0),
+    nullifier: field(1),
+    ownerPublicKey: field(2),
+    spendingKeyHash: field(3)
+  };
+
+  return {
+    ...note,
+    commitment: toBytes32(computeCommitment(note)),
+    passphraseProtected: encrypted
+  };
+}
+
+/**
+ * Whether parseNote will need a passphrase for this string
+ */
+export function isPassphraseProtected(noteString: string): boolean {
+  return noteString.trim().toLowerCase().startsWith(`zkether-${ENCRYPTED_KIND}-`);
+}
+
+/**
+ * QR code content for a note string. Upper case keeps every character in the QR alphanumeric set
+ * (0-9, A-Z, '-'), which packs ~40% denser than byte mode; parseNote accepts it as is.
+ */
+export function toQrPayload(noteString: string): string {
+  return noteString.trim().toUpperCase();
+}
+
+function checksum(header: string, body: Uint8Array): Uint8Array {
+  return sha256(concat([stringToBytes(header), body]), 'bytes').slice(0, CHECKSUM_BYTES);
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<string> {
+  const key = await scryptAsync(passphrase.normalize('NFKC'), salt, SCRYPT_PARAMS);
+  return bytesToHex(key);
+}
@@ -0,0 +1,41 @@
+/**
+ * zkETHer Receiving Keys
+ * What a user hands a sender so the sender can create notes only they can spend:
+ *
+ *   0x || viewing public key (32) || spending key hash (32)
+ *
+ * The EncryptedNote payload is sealed to the viewing public key; the spending key hash
+ * (Poseidon(spendSecret), see commitments.ts) goes into the commitment and nullifier hash.
+ */
+
+import { Hex, SNARK_SCALAR_FIELD } from '../crypto/commitments';
+
+export interface ReceivingKey {
+  publicKey: Hex;
+  spendingKeyHash: Hex;
+}
+
+const RECEIVING_KEY_HEX = /^0x[0-9a-fA-F]{128}$/;
+
+export function formatReceivingKey(key: ReceivingKey): string {
+  return `${key.publicKey}${key.spendingKeyHash.slice(2)}`.toLowerCase();
+}
+
+/**
+ * Parse a receiving key pasted or scanned from the recipient
+ */
+export function parseReceivingKey(text: string): ReceivingKey {
+  const value = text.trim();
+  if (!RECEIVING_KEY_HEX.test(value)) {
+    throw new Error('A receiving key is 0x followed by 128 hex characters');
+  }
+
+  const key: ReceivingKey = {
+    publicKey: `0x${value.slice(2, 66).toLowerCase()}`,
+    spendingKeyHash: `0x${value.slice(66).toLowerCase()}`
+  };
+  if (BigInt(key.spendingKeyHash) >= SNARK_SCALAR_FIELD) {
+    throw new Error('Receiving key is corrupted');
+  }
+  return key;
+}
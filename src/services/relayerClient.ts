@@ -0,0 +1,188 @@
+/**
+ * zkETHer Relayer Client
+ * Withdraws a note through a relayer: picks the cheapest live relayer, binds its address and fee into
+ * the withdrawal proof, submits the proof and polls the job until the transaction is mined.
+ */
+
+import { formatEther } from 'viem';
+import { serviceConfig } from '../config/services';
+import { Note } from '../types/index';
+import { moproService } from './moproService';
+import { noteStore } from './noteStore';
+import {
+  RELAYER_PATHS,
+  RELAYER_PROTOCOL_VERSION,
+  RelayJob,
+  RelaySubmitResponse,
+  RelayWithdrawRequest,
+  RelayerQuote
+} from './relayerProtocol';
+import { zkETHerTokenService } from './zkETHerTokenService';
+
+
+export type RelayedWithdrawalStage = 'quoting' | 'proving' | 'submitting' | 'relaying' | 'confirmed';
+
+export interface RelayedWithdrawalUpdate {
+  stage: RelayedWithdrawalStage;
+  relayerUrl?: string;
+  quote?: RelayerQuote;
+  job?: RelayJob;
+}
+
+export interface SelectedRelayer {
+  url: string;
+  quote: RelayerQuote;
+}
+
+class RelayerClient {
+  private readonly REQUEST_TIMEOUT_MS = 10000;
+  private readonly POLL_INTERVAL_MS = 2000;
+  private readonly JOB_TIMEOUT_MS = 5 * 60 * 1000;
+
+  /**
+   * Ask one relayer for its fee on `amountWei`
+   */
+  async getQuote(relayerUrl: string, amountWei: bigint): Promise<RelayerQuote> {
+    return this.request<RelayerQuote>(relayerUrl, `${RELAYER_PATHS.quote}?amount=${amountWei.toString()}`);
+  }
+
+  /**
+   * Quote every configured relayer and pick the cheapest usable one
+   */
+  async selectRelayer(amountWei: bigint): Promise<SelectedRelayer> {
+    const chainId = await zkETHerTokenService.getPublicClient().getChainId();
+    const token = zkETHerTokenService.getTokenAddress().toLowerCase();
+
+    const results = await Promise.allSettled(
+      serviceConfig.relayerUrls.map(async url => ({ url, quote: await this.getQuote(url, amountWei) }))
+    );
+
+    const usable = results
+      .filter((result): result is PromiseFulfilledResult<SelectedRelayer> => result.status === 'fulfilled')
+      .map(result => result.value)
+      .filter(({ quote }) =>
+        quote.version === RELAYER_PROTOCOL_VERSION &&
+        quote.chainId === chainId &&
+        quote.token.toLowerCase() === token &&
+        quote.amount === amountWei.toString() &&
+        BigInt(quote.fee) < amountWei &&
+        quote.validUntil > Date.now()
+      );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.warn('⚠️ Relayer unavailable:', serviceConfig.relayerUrls[index], result.reason);
+      }
+    });
+
+    if (usable.length === 0) {
+      throw new Error('No relayer available for this withdrawal');
+    }
+
+    const best = usable.reduce((a, b) => (BigInt(b.quote.fee) < BigInt(a.quote.fee) ? b : a));
+    console.log('📡 Relayer selected:', { url: best.url, relayer: best.quote.relayer, fee: formatEther(BigInt(best.quote.fee)) });
+    return best;
+  }
+
+  /**
+   * Hand a withdrawal proof to a relayer; returns the job id to poll
+   */
+  async submitWithdrawal(relayerUrl: string, request: RelayWithdrawRequest): Promise<string> {
+    const { jobId } = await this.request<RelaySubmitResponse>(relayerUrl, RELAYER_PATHS.withdraw, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+    return jobId;
+  }
+
+  async getJob(relayerUrl: string, jobId: string): Promise<RelayJob> {
+    return this.request<RelayJob>(relayerUrl, RELAYER_PATHS.job(jobId));
+  }
+
+  /**
+   * Poll a job until it is confirmed; throws if it fails or does not finish in time
+   */
+  async waitForJob(relayerUrl: string, jobId: string, onUpdate?: (job: RelayJob) => void): Promise<RelayJob> {
+    const deadline = Date.now() + this.JOB_TIMEOUT_MS;
+    let lastStatus = '';
+
+    while (Date.now() < deadline) {
+      const job = await this.getJob(relayerUrl, jobId);
+      if (job.status !== lastStatus) {
+        console.log('📡 Relay job', jobId, '→', job.status, job.txHash || '');
+        lastStatus = job.status;
+        onUpdate?.(job);
+      }
+
+      if (job.status === 'confirmed') return job;
+      if (job.status === 'failed') {
+        throw new Error(`Relayer failed to submit the withdrawal: ${job.error || 'unknown error'}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.POLL_INTERVAL_MS));
+    }
+
+    throw new Error('Timed out waiting for the relayer');
+  }
+
+  /**
+   * Withdraw `note` to `recipient` through the cheapest relayer and mark it spent once mined
+   */
+  async withdrawNote(
+    note: Note,
+    recipient: string,
+    onUpdate?: (update: RelayedWithdrawalUpdate) => void
+  ): Promise<RelayJob> {
+    const amount = BigInt(note.amount);
+
+    onUpdate?.({ stage: 'quoting' });
+    const { url, quote } = await this.selectRelayer(amount);
+
+    onUpdate?.({ stage: 'proving', relayerUrl: url, quote });
+    const merklePath = await zkETHerTokenService.getMerklePath(note.commitment);
+    const calldata = await moproService.generateWithdrawProof(
+      note,
+      merklePath,
+      recipient,
+      BigInt(quote.fee),
+      quote.relayer
+    );
+
+    onUpdate?.({ stage: 'submitting', relayerUrl: url, quote });
+    const jobId = await this.submitWithdrawal(url, {
+      amount: calldata.amount.toString(),
+      nullifierHash: calldata.nullifierHash,
+      proof: calldata.proof
+    });
+
+    const job = await this.waitForJob(url, jobId, update =>
+      onUpdate?.({ stage: update.status === 'confirmed' ? 'confirmed' : 'relaying', relayerUrl: url, quote, job: update })
+    );
+
+    await noteStore.markSpent(note.commitment);
+    return job;
+  }
+
+  private async request<T>(relayerUrl: string, path: string, init: RequestInit = {}): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${relayerUrl}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...init.headers },
+        signal: controller.signal
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body?.error || `Relayer responded with HTTP ${response.status}`);
+      }
+      return body as T;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+export const relayerClient = new RelayerClient();
+export default relayerClient;
@@ -0,0 +1,60 @@
+/**
+ * zkETHer Relayer Protocol
+ * Wire format shared by the app's RelayerClient and relayers (see scripts/relayer-server.ts).
+ * A relayer submits a withdrawal on the user's behalf, so the withdrawing wallet never touches the chain.
+ *
+ *   GET  /v1/quote?amount=<wei>   -> RelayerQuote
+ *   POST /v1/withdraw             RelayWithdrawRequest -> RelaySubmitResponse
+ *   GET  /v1/jobs/<jobId>         -> RelayJob
+ *
+ * Errors are returned as RelayerErrorResponse with a 4xx/5xx status.
+ * Amounts are decimal wei strings; the relayer address and fee from the quote must be bound into
+ * the withdrawal proof, otherwise the relayer rejects it.
+ */
+
+export const RELAYER_PROTOCOL_VERSION = 1;
+
+export const RELAYER_PATHS = {
+  quote: '/v1/quote',
+  withdraw: '/v1/withdraw',
+  job: (jobId: string) => `/v1/jobs/${encodeURIComponent(jobId)}`
+};
+
+export interface RelayerQuote {
+  version: number;
+  relayer: `0x${string}`;   // address to bind into the proof
+  chainId: number;
+  token: `0x${string}`;     // zkETHer token the relayer submits to
+  amount: string;           // note amount the quote was made for
+  fee: string;              // wei, to bind into the proof
+  feeBps: number;
+  validUntil: number;       // unix ms
+}
+
+export interface RelayWithdrawRequest {
+  amount: string;
+  nullifierHash: `0x${string}`;
+  proof: `0x${string}`;     // `_proof` bytes from encodeWithdrawCalldata
+}
+
+export interface RelaySubmitResponse {
+  jobId: string;
+}
+
+export type RelayJobStatus = 'queued' | 'submitted' | 'confirmed' | 'failed';
+
+export interface RelayJob {
+  id: string;
+  status: RelayJobStatus;
+  nullifierHash: `0x${string}`;
+  txHash?: `0x${string}`;   // withdrawal transaction, once broadcast
+  payoutTxHash?: `0x${string}`;  // separate transfer to the recipient, for relayers that front the withdrawal
+  blockNumber?: string;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface RelayerErrorResponse {
+  error: string;
+}
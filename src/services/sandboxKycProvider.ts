@@ -0,0 +1,248 @@
+/**
+ * Sandbox.co.in KYC Provider
+ * Talks to Sandbox's REST API: an access token from /authenticate, then JSON requests that answer with
+ * the { code, transaction_id, data } envelope. Eligibility is not a Sandbox product - it is read from
+ * the claims the ClaimIssuer holds for the user on the active deployment.
+ */
+
+import { createPublicClient, getAddress, http, zeroAddress } from 'viem';
+import { CLAIM_ISSUER_ABI } from '../contracts';
+import { networkService } from './networkService';
+import {
+  AadhaarData,
+  FaceMatchData,
+  KycProvider,
+  KycProviderError,
+  KycStep,
+  PANData,
+  VerificationResponse,
+  zkETHerEligibilityData
+} from './kycProvider';
+
+export interface SandboxKycOptions {
+  baseUrl: string;
+  apiKey: string;
+  apiSecret: string;
+  timeoutMs: number;
+}
+
+interface SandboxEnvelope<T> {
+  code: number;
+  timestamp?: number;
+  transaction_id?: string;
+  message?: string;
+  data: T;
+}
+
+const API_VERSION = '1.0';
+// Sandbox access tokens last 24 hours; refresh a little early
+const TOKEN_TTL_MS = 23 * 60 * 60 * 1000;
+// Face match similarity Sandbox counts as the same person
+const FACE_MATCH_THRESHOLD = 0.8;
+const CONSENT_REASON = 'KYC for zkETHer ERC-3643 identity claims';
+
+const CLAIMS = [
+  { claim: 'aadhaar_verified', topic: 1001n },
+  { claim: 'pan_verified', topic: 1002n },
+  { claim: 'face_matched', topic: 1003n },
+  { claim: 'zkether_eligible', topic: 1004n }
+];
+
+export class SandboxKycProvider implements KycProvider {
+  readonly name = 'sandbox';
+
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+
+  constructor(private options: SandboxKycOptions) {}
+
+  async verifyAadhaar(aadhaarNumber: string, name: string): Promise<AadhaarData> {
+    const response = await this.post<{
+      status?: string;
+      name?: string;
+      date_of_birth?: string;
+      full_address?: string;
+    }>('aadhaar', '/kyc/aadhaar/verify', {
+      '@entity': 'in.co.sandbox.kyc.aadhaar.verify.request',
+      aadhaar_number: aadhaarNumber,
+      consent: 'Y',
+      reason: CONSENT_REASON
+    });
+
+    return {
+      status: response.data.status?.toUpperCase() === 'VALID' ? 'success' : 'failed',
+      transaction_id: response.transaction_id,
+      data: {
+        name: response.data.name || name.toUpperCase(),
+        aadhaar: aadhaarNumber,
+        dob: response.data.date_of_birth,
+        address: response.data.full_address
+      }
+    };
+  }
+
+  async verifyPAN(panNumber: string, name: string, dob: string): Promise<PANData> {
+    const response = await this.post<{
+      pan: string;
+      status: string;
+      name_as_per_pan_match: boolean;
+      date_of_birth_match: boolean;
+    }>('pan', '/kyc/pan/verify', {
+      '@entity': 'in.co.sandbox.kyc.pan_verification.request',
+      pan: panNumber.toUpperCase(),
+      name_as_per_pan: name,
+      date_of_birth: dob,
+      consent: 'Y',
+      reason: CONSENT_REASON
+    });
+
+    const { status, name_as_per_pan_match, date_of_birth_match } = response.data;
+    return {
+      status: status === 'valid' && name_as_per_pan_match && date_of_birth_match ? 'success' : 'failed',
+      transaction_id: response.transaction_id,
+      data: {
+        pan: response.data.pan,
+        // Sandbox only confirms the name we sent, it does not return the record's name
+        name: name.toUpperCase(),
+        dob
+      }
+    };
+  }
+
+  async verifyFaceMatch(aadhaarPhoto: string, selfieImage: string): Promise<FaceMatchData> {
+    const response = await this.post<{ similarity: number }>('faceMatch', '/kyc/face/match', {
+      '@entity': 'in.co.sandbox.kyc.face_match.request',
+      source_image: aadhaarPhoto,
+      target_image: selfieImage,
+      consent: 'Y',
+      reason: CONSENT_REASON
+    });
+
+    // Sandbox scores similarity out of 100
+    const confidence = response.data.similarity / 100;
+    return {
+      status: 'success',
+      transaction_id: response.transaction_id,
+      data: {
+        match: confidence >= FACE_MATCH_THRESHOLD,
+        confidence
+      }
+    };
+  }
+
+  async checkEligibility(userAddress: string): Promise<zkETHerEligibilityData> {
+    const deployment = networkService.getActiveDeployment();
+    const publicClient = createPublicClient({ chain: deployment.chain, transport: http(deployment.rpcUrl) });
+    const user = getAddress(userAddress);
+
+    const [onchainId, ...held] = await Promise.all([
+      publicClient.readContract({
+        address: deployment.contracts.claimIssuer,
+        abi: CLAIM_ISSUER_ABI,
+        functionName: 'userToIdentity',
+        args: [user]
+      }),
+      ...CLAIMS.map(({ topic }) => publicClient.readContract({
+        address: deployment.contracts.claimIssuer,
+        abi: CLAIM_ISSUER_ABI,
+        functionName: 'hasUserClaim',
+        args: [user, topic]
+      }))
+    ]);
+
+    const claims = CLAIMS.filter((_, index) => held[index]).map(({ claim }) => claim);
+    const eligible = onchainId !== zeroAddress && claims.length === CLAIMS.length;
+    return {
+      status: eligible ? 'success' : 'failed',
+      data: {
+        eligible,
+        onchainId: onchainId === zeroAddress ? undefined : onchainId,
+        claims
+      }
+    };
+  }
+
+  async getVerificationStatus(verificationId: string): Promise<VerificationResponse> {
+    const response = await this.request<{
+      status: string;
+      verification_type: string;
+      confidence_score?: number;
+      [field: string]: unknown;
+    }>('status', `/kyc/transactions/${encodeURIComponent(verificationId)}`, { method: 'GET' });
+
+    return {
+      verification_id: verificationId,
+      status: response.data.status,
+      timestamp: response.timestamp || Date.now(),
+      verification_type: response.data.verification_type,
+      confidence_score: response.data.confidence_score ?? 0,
+      data: response.data
+    };
+  }
+
+  private async post<T>(step: KycStep, path: string, body: object): Promise<SandboxEnvelope<T>> {
+    return this.request<T>(step, path, { method: 'POST', body: JSON.stringify(body) });
+  }
+
+  private async request<T>(step: KycStep | 'status', path: string, init: RequestInit): Promise<SandboxEnvelope<T>> {
+    const token = await this.authenticate(step);
+    return this.fetchJson<T>(step, path, {
+      ...init,
+      headers: { Authorization: token, ...init.headers }
+    });
+  }
+
+  private async authenticate(step: KycStep | 'status'): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiresAt) {
+      return this.accessToken;
+    }
+    if (!this.options.apiKey || !this.options.apiSecret) {
+      throw new KycProviderError(step, 'config', 'Sandbox API key and secret are not configured');
+    }
+
+    const response = await this.fetchJson<{ access_token?: string }>(step, '/authenticate', {
+      method: 'POST',
+      headers: { 'x-api-secret': this.options.apiSecret }
+    });
+    // Older API versions return the token at the top level
+    const token = response.data?.access_token || (response as unknown as { access_token?: string }).access_token;
+    if (!token) {
+      throw new KycProviderError(step, 'http', 'Sandbox did not return an access token');
+    }
+
+    this.accessToken = token;
+    this.tokenExpiresAt = Date.now() + TOKEN_TTL_MS;
+    return token;
+  }
+
+  private async fetchJson<T>(step: KycStep | 'status', path: string, init: RequestInit): Promise<SandboxEnvelope<T>> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.options.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.options.apiKey,
+          'x-api-version': API_VERSION,
+          ...init.headers
+        },
+        signal: controller.signal
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        if (response.status === 401) this.accessToken = null;
+        throw new KycProviderError(step, 'http', body?.message || `Sandbox responded with HTTP ${response.status}`);
+      }
+      return body as SandboxEnvelope<T>;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new KycProviderError(step, 'timeout', `Sandbox ${step} request timed out after ${this.options.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
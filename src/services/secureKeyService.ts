@@ -1,68 +1,104 @@
 import * as SecureStore from 'expo-secure-store';
 import 'react-native-get-random-values';
-import { generateHexKeyPair } from './libsodiumHelper.js';
+import { RetiredKey, createKeyBackup, openKeyBackup } from './keyBackup';
+import { createViewingKeyExport } from './viewingKeys';
+import { ReceivingKey } from './receivingKey';
+import { derivePublicKey } from './libsodiumHelper.js';
+import { Hex, computeSpendingKeyHash, spendSecretFromKey, toBytes32 } from '../crypto/commitments';
+import { countRecoverableKeySets, createMnemonic, deriveKeys, derivationPath, normalizeMnemonic } from '../crypto/keyDerivation';
 
 // React Native crypto is available via the polyfill
 // No need to import Node.js crypto module
 
+// Each key set has two X25519 key pairs:
+//   viewing  (publicKey/privateKey)                   - notes are encrypted to it; decrypts notes and reveals
+//                                                      history, so it may be exported (see viewingKeys.ts)
+//   spending (spendingPublicKey/spendingPrivateKey)   - its field form is the spendSecret the withdraw circuit
+//                                                      proves knowledge of, and every note commits to
+//                                                      spendingKeyHash = Poseidon(spendSecret); never exported
+//                                                      except in the passphrase-encrypted backup
+// Keys created before the split have only the viewing key, which then also serves as the spending key.
 export interface ZkETHerKeyPair {
-  publicKey: string;
+  publicKey: string;            // viewing key notes are addressed to
   privateKey: string;
+  spendingPublicKey?: string;
+  spendingPrivateKey?: string;
   keyId: string;
+  derivationIndex?: number;     // set for keys derived from a recovery phrase
   createdAt: string;
 }
 
 export interface StoredKeyInfo {
   keyId: string;
   publicKey: string;
+  spendingPublicKey?: string;
+  spendingKeyHash?: string;     // unset for keys stored before notes committed to it - see getReceivingKey
+  derivationIndex?: number;
   createdAt: string;
   onchainId?: string;
 }
 
+// One entry per key pair this device has used, oldest first. Retired keys stay stored so notes
+// encrypted to them can still be decrypted.
+export interface KeyHistoryEntry {
+  keyId: string;
+  publicKey: string;
+  spendingPublicKey?: string;
+  spendingKeyHash?: string;
+  derivationIndex?: number;
+  activatedAt: string;
+  retiredAt?: string;           // unset for the active key
+  publishedTxHash?: string;     // publishPrivacyKey transaction, once the key is on the user's ONCHAINID
+}
+
+export interface HistoricKeyPair {
+  keyId: string;
+  publicKey: string;
+  privateKey: string;
+  spendingKeyHash?: string;
+}
+
 class SecureKeyService {
   private readonly PRIVATE_KEY_PREFIX = 'zkether_private_';
   private readonly PUBLIC_KEY_PREFIX = 'zkether_public_';
+  private readonly SPENDING_KEY_PREFIX = 'zkether_spending_';
+  private readonly MNEMONIC_PREFIX = 'zkether_mnemonic_';
   private readonly KEY_INFO_KEY = 'zkether_key_info';
+  private readonly KEY_HISTORY_KEY = 'zkether_key_history';
 
   /**
-   * Generate a cryptographically secure X25519 key pair for zkETHer protocol
-   * Uses libsodium for ephemeral X25519 keypair generation
+   * Derive the zkETHer key pairs for `mnemonic` (see src/crypto/keyDerivation.ts)
+   * The same words always give the same keys and keyId, so the keys can be recovered on a new phone
    */
-  async generateKeyPair(): Promise<ZkETHerKeyPair> {
+  async generateKeyPair(mnemonic: string, index: number = 0): Promise<ZkETHerKeyPair> {
     try {
-      console.log('🔐 Generating secure zkETHer X25519 key pair...');
-
-      // Generate ephemeral X25519 keypair using libsodium helper
-      const cryptoKeyPair = await generateHexKeyPair();
-      const publicKey = cryptoKeyPair.publicKey; // this is published on-chain
-      const privateKey = cryptoKeyPair.privateKey;
-
-      // Generate unique key ID
-      const keyIdBytes = new Uint8Array(16);
-      crypto.getRandomValues(keyIdBytes);
-      const keyId = Array.from(keyIdBytes)
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
+      console.log('🔐 Deriving zkETHer X25519 key pairs from recovery phrase...');
 
+      const derived = await deriveKeys(mnemonic, index);
       const createdAt = new Date().toISOString();
 
       const zkETHerKeyPair: ZkETHerKeyPair = {
-        publicKey,
-        privateKey,
-        keyId,
+        publicKey: derived.viewing.publicKey, // this is published on-chain
+        privateKey: derived.viewing.privateKey,
+        spendingPublicKey: derived.spending.publicKey,
+        spendingPrivateKey: derived.spending.privateKey,
+        keyId: derived.keyId,
+        derivationIndex: index,
         createdAt
       };
 
-      console.log('✅ X25519 key pair generated successfully', {
-        keyId,
-        publicKey: publicKey.slice(0, 10) + '...',
-        createdAt
+      console.log('✅ X25519 key pairs derived successfully', {
+        keyId: derived.keyId,
+        publicKey: derived.viewing.publicKey.slice(0, 10) + '...',
+        path: derivationPath('viewing', index)
       });
 
       return zkETHerKeyPair;
     } catch (error) {
-      console.error('❌ Failed to generate X25519 key pair:', error);
-      throw new Error('Failed to generate secure X25519 key pair');
+      console.error('❌ Failed to derive X25519 key pairs:', error);
+      throw error instanceof Error && error.message.startsWith('Recovery phrase')
+        ? error
+        : new Error('Failed to derive X25519 key pairs');
     }
   }
 
@@ -71,20 +107,44 @@ class SecureKeyService {
    * Private key is stored with hardware-backed security
    * Public key info is stored for easy retrieval
    */
-  async storeKeyPair(keyPair: ZkETHerKeyPair, onchainId?: string): Promise<void> {
+  async storeKeyPair(keyPair: ZkETHerKeyPair, onchainId?: string, mnemonic?: string): Promise<void> {
     try {
       console.log('🔒 Storing key pair securely...', { keyId: keyPair.keyId });
 
-      // Store private key with maximum security
+      // The spending key authorizes withdrawals, so only it (and the recovery phrase) needs biometric/PIN.
+      // A key set without one keeps the old single-key protection on its viewing key.
       await SecureStore.setItemAsync(
         `${this.PRIVATE_KEY_PREFIX}${keyPair.keyId}`,
         keyPair.privateKey,
         {
-          requireAuthentication: true, // Require biometric/PIN authentication
+          requireAuthentication: !keyPair.spendingPrivateKey,
           keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
         }
       );
 
+      if (keyPair.spendingPrivateKey) {
+        await SecureStore.setItemAsync(
+          `${this.SPENDING_KEY_PREFIX}${keyPair.keyId}`,
+          keyPair.spendingPrivateKey,
+          {
+            requireAuthentication: true, // Require biometric/PIN authentication
+            keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+          }
+        );
+      }
+
+      // The recovery phrase re-derives every key, so it gets the same protection
+      if (mnemonic) {
+        await SecureStore.setItemAsync(
+          `${this.MNEMONIC_PREFIX}${keyPair.keyId}`,
+          normalizeMnemonic(mnemonic),
+          {
+            requireAuthentication: true,
+            keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+          }
+        );
+      }
+
       // Store public key (less sensitive, but still secure)
       await SecureStore.setItemAsync(
         `${this.PUBLIC_KEY_PREFIX}${keyPair.keyId}`,
@@ -94,10 +154,16 @@ class SecureKeyService {
         }
       );
 
+      // Read before KEY_INFO_KEY changes - a device without a history reports its current key
+      const history = await this.getKeyHistory();
+
       // Store key metadata for easy retrieval
       const keyInfo: StoredKeyInfo = {
         keyId: keyPair.keyId,
         publicKey: keyPair.publicKey,
+        spendingPublicKey: keyPair.spendingPublicKey,
+        spendingKeyHash: this.spendingKeyHashOf(keyPair.spendingPrivateKey ?? keyPair.privateKey),
+        derivationIndex: keyPair.derivationIndex,
         createdAt: keyPair.createdAt,
         onchainId
       };
@@ -106,6 +172,7 @@ class SecureKeyService {
         this.KEY_INFO_KEY,
         JSON.stringify(keyInfo)
       );
+      await this.recordActivation(history, keyInfo);
 
       console.log('✅ Key pair stored securely in Android Keystore');
     } catch (error) {
@@ -128,20 +195,52 @@ class SecureKeyService {
   }
 
   /**
-   * Retrieve private key (requires biometric/PIN authentication)
+   * Retrieve the viewing private key - no authentication, except for keys created before the
+   * viewing/spending split
    */
-  async getPrivateKey(): Promise<string | null> {
+  async getViewingKey(): Promise<string | null> {
     try {
       const keyInfo = await this.getKeyInfo();
       if (!keyInfo) return null;
 
-      const privateKey = await SecureStore.getItemAsync(
+      const viewingKey = await SecureStore.getItemAsync(
         `${this.PRIVATE_KEY_PREFIX}${keyInfo.keyId}`
       );
 
-      return privateKey;
+      return viewingKey;
+    } catch (error) {
+      console.error('❌ Failed to get viewing key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Retrieve the spending private key (requires biometric/PIN authentication)
+   */
+  async getSpendingPrivateKey(): Promise<string | null> {
+    try {
+      const keyInfo = await this.getKeyInfo();
+      if (!keyInfo) return null;
+
+      return await SecureStore.getItemAsync(`${this.SPENDING_KEY_PREFIX}${keyInfo.keyId}`);
+    } catch (error) {
+      console.error('❌ Failed to get spending key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Retrieve the 24-word recovery phrase (requires biometric/PIN authentication)
+   * Null for keys generated before recovery phrases existed
+   */
+  async getMnemonic(): Promise<string | null> {
+    try {
+      const keyInfo = await this.getKeyInfo();
+      if (!keyInfo) return null;
+
+      return await SecureStore.getItemAsync(`${this.MNEMONIC_PREFIX}${keyInfo.keyId}`);
     } catch (error) {
-      console.error('❌ Failed to get private key:', error);
+      console.error('❌ Failed to get recovery phrase:', error);
       return null;
     }
   }
@@ -173,56 +272,405 @@ class SecureKeyService {
   }
 
   /**
-   * Generate and store new key pair
+   * Viewing public key and spending key hash of the active key set - what senders create notes for
+   * (see receivingKey.ts). Keys stored before notes committed to the hash compute it once here, which
+   * reads the spending key (biometric/PIN).
+   */
+  async getReceivingKey(): Promise<ReceivingKey | null> {
+    const keyInfo = await this.getKeyInfo();
+    if (!keyInfo) return null;
+
+    let spendingKeyHash = keyInfo.spendingKeyHash;
+    if (!spendingKeyHash) {
+      const spendingKey = await SecureStore.getItemAsync(
+        `${keyInfo.spendingPublicKey ? this.SPENDING_KEY_PREFIX : this.PRIVATE_KEY_PREFIX}${keyInfo.keyId}`
+      );
+      if (!spendingKey) {
+        throw new Error('Authentication required to set up your receiving key');
+      }
+      spendingKeyHash = this.spendingKeyHashOf(spendingKey);
+      await SecureStore.setItemAsync(this.KEY_INFO_KEY, JSON.stringify({ ...keyInfo, spendingKeyHash }));
+      const history = await this.getKeyHistory();
+      await this.saveKeyHistory(history.map(entry => entry.keyId === keyInfo.keyId ? { ...entry, spendingKeyHash } : entry));
+    }
+
+    return { publicKey: keyInfo.publicKey as Hex, spendingKeyHash: spendingKeyHash as Hex };
+  }
+
+  /**
+   * Generate and store new key pairs
+   * Pass the user's 24 recovery words to restore their keys; a fresh recovery phrase is created otherwise.
+   * When recovering, `publishedKeys` is the user's on-chain privacy key history (getPrivacyKeyHistory):
+   * every key set up to the last published one is re-derived, and the latest becomes the active one.
    */
-  async generateAndStoreKeys(onchainId?: string): Promise<StoredKeyInfo> {
+  async generateAndStoreKeys(onchainId?: string, mnemonic?: string, publishedKeys: string[] = []): Promise<StoredKeyInfo> {
     try {
       console.log('🚀 Starting secure key generation process...');
-      
+
+      const recoveryPhrase = mnemonic ? normalizeMnemonic(mnemonic) : createMnemonic();
+      const existing = await this.getKeyInfo();
+
       // Check if keys already exist
-      const existingKeys = await this.hasKeys();
-      if (existingKeys) {
+      if (existing && !mnemonic) {
         console.log('⚠️ Keys already exist, retrieving existing keys');
-        const keyInfo = await this.getKeyInfo();
-        if (keyInfo) return keyInfo;
+        return existing;
+      }
+
+      // Derive the key pairs, oldest first
+      const keyPairs = mnemonic
+        ? await this.deriveRecoveredKeyPairs(recoveryPhrase, publishedKeys)
+        : [await this.generateKeyPair(recoveryPhrase)];
+      if (existing) {
+        if (keyPairs.some(keyPair => keyPair.keyId === existing.keyId)) {
+          console.log('ℹ️ Keys for this recovery phrase are already stored');
+          return existing;
+        }
+        throw new Error('Different keys are already stored on this device - delete them before recovering');
       }
 
-      // Generate new key pair
-      const keyPair = await this.generateKeyPair();
-      
-      // Store securely
-      await this.storeKeyPair(keyPair, onchainId);
+      // Store securely; each stored pair retires the one before it
+      for (const keyPair of keyPairs) {
+        await this.storeKeyPair(keyPair, onchainId, recoveryPhrase);
+      }
 
       // Return key info
-      return {
-        keyId: keyPair.keyId,
-        publicKey: keyPair.publicKey,
-        createdAt: keyPair.createdAt,
-        onchainId
-      };
+      return (await this.getKeyInfo())!;
     } catch (error) {
       console.error('❌ Failed to generate and store keys:', error);
       throw error;
     }
   }
 
+  /**
+   * Replace the active key pair with the next one derived from the recovery phrase.
+   * The old pair is retired, not deleted: it stays stored so historic notes still decrypt.
+   * Keys generated before recovery phrases existed rotate onto `newMnemonic`, a fresh recovery phrase
+   * (createMnemonic) the caller has already shown the user to write down.
+   * Publishing the new public key on-chain is up to the caller (see zkETHerProtocol.rotatePrivacyKeys).
+   */
+  async rotateKeys(newMnemonic?: string): Promise<StoredKeyInfo> {
+    const current = await this.getKeyInfo();
+    if (!current) {
+      throw new Error('No zkETHer keys to rotate - generate keys first');
+    }
+
+    let mnemonic: string | null;
+    let index: number;
+    if (current.derivationIndex === undefined) {
+      if (!newMnemonic) {
+        throw new Error('These keys have no recovery phrase - write down a new one before rotating');
+      }
+      console.log('ℹ️ Rotating keys without a recovery phrase onto a new one');
+      mnemonic = normalizeMnemonic(newMnemonic);
+      index = 0;
+    } else {
+      mnemonic = await this.getMnemonic();
+      if (!mnemonic) {
+        throw new Error('Authentication required to rotate keys');
+      }
+      const history = await this.getKeyHistory();
+      index = Math.max(...history.map(entry => entry.derivationIndex ?? -1)) + 1;
+    }
+
+    const keyPair = await this.generateKeyPair(mnemonic, index);
+    await this.storeKeyPair(keyPair, current.onchainId, mnemonic);
+
+    console.log('🔄 Keys rotated', { from: current.keyId, to: keyPair.keyId, index });
+    return (await this.getKeyInfo())!;
+  }
+
+  /**
+   * Every key pair this device has used, oldest first - a device with keys from before the
+   * history existed reports just its current key
+   */
+  async getKeyHistory(): Promise<KeyHistoryEntry[]> {
+    try {
+      const historyJson = await SecureStore.getItemAsync(this.KEY_HISTORY_KEY);
+      if (historyJson) return JSON.parse(historyJson);
+
+      const keyInfo = await this.getKeyInfo();
+      return keyInfo ? [this.toHistoryEntry(keyInfo)] : [];
+    } catch (error) {
+      console.error('❌ Failed to get key history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Viewing keys of the active and every retired key pair, newest first
+   * Used to decrypt notes that were sent to a key before it was rotated
+   */
+  async getHistoricKeyPairs(): Promise<HistoricKeyPair[]> {
+    const history = await this.getKeyHistory();
+    const keyPairs: HistoricKeyPair[] = [];
+    for (const entry of [...history].reverse()) {
+      const privateKey = await SecureStore.getItemAsync(`${this.PRIVATE_KEY_PREFIX}${entry.keyId}`);
+      if (privateKey) {
+        keyPairs.push({ keyId: entry.keyId, publicKey: entry.publicKey, privateKey, spendingKeyHash: entry.spendingKeyHash });
+      } else {
+        console.warn('⚠️ Private key missing for historic key', entry.keyId);
+      }
+    }
+    return keyPairs;
+  }
+
+  /**
+   * Export every viewing key as a ViewingKeyExport (JSON text, see viewingKeys.ts)
+   * Refused for key sets without a separate spending key: their viewing key also authorizes spending.
+   */
+  async exportViewingKeys(): Promise<string> {
+    const history = await this.getKeyHistory();
+    if (history.length === 0) {
+      throw new Error('No keys to export');
+    }
+    if (history.some(entry => !entry.spendingPublicKey)) {
+      throw new Error('These keys have no separate spending key - rotate them before exporting viewing keys');
+    }
+
+    const viewingKeys = new Map((await this.getHistoricKeyPairs()).map(pair => [pair.keyId, pair.privateKey]));
+    const keys = history.map(entry => {
+      const viewingKey = viewingKeys.get(entry.keyId);
+      if (!viewingKey) {
+        throw new Error(`Viewing key ${entry.keyId} is not available`);
+      }
+      return {
+        keyId: entry.keyId,
+        publicKey: entry.publicKey,
+        spendingKeyHash: entry.spendingKeyHash,
+        viewingKey,
+        activatedAt: entry.activatedAt,
+        retiredAt: entry.retiredAt
+      };
+    });
+
+    console.log('👁️ Viewing keys exported', { keys: keys.length });
+    return JSON.stringify(createViewingKeyExport(keys));
+  }
+
+  /**
+   * Unlock the spending key a note was created for (requires biometric/PIN authentication) and return
+   * its spendSecret, the private input the withdraw circuit needs besides the note itself.
+   * The note commits to Poseidon(spendSecret), so without the spending key it cannot be withdrawn.
+   */
+  async authorizeSpend(spendingKeyHash: string): Promise<bigint> {
+    const spendSecret = (await this.authorizeSpends([spendingKeyHash])).get(spendingKeyHash.toLowerCase());
+    if (spendSecret === undefined) {
+      throw new Error('This note was created for a spending key this device does not hold');
+    }
+    return spendSecret;
+  }
+
+  /**
+   * authorizeSpend for many notes at once: each spending key is unlocked once, so notes of the same key
+   * set share one biometric/PIN prompt. Returns spendSecrets by lowercase spending key hash; hashes this
+   * device holds no key for are left out.
+   */
+  async authorizeSpends(spendingKeyHashes: string[]): Promise<Map<string, bigint>> {
+    const history = await this.getKeyHistory();
+    if (history.length === 0) {
+      throw new Error('Generate your zkETHer keys before spending notes');
+    }
+    const wanted = new Set(spendingKeyHashes.map(hash => hash.toLowerCase()));
+    // Keys stored before their hash was recorded have to be unlocked to find out
+    const candidates = [
+      ...history.filter(entry => entry.spendingKeyHash && wanted.has(entry.spendingKeyHash.toLowerCase())),
+      ...history.filter(entry => !entry.spendingKeyHash)
+    ];
+
+    const spendSecrets = new Map<string, bigint>();
+    for (const entry of candidates) {
+      if (spendSecrets.size === wanted.size) break;
+
+      // Single-key sets spend with their viewing key, which is stored behind authentication
+      const spendingKey = await SecureStore.getItemAsync(
+        `${entry.spendingPublicKey ? this.SPENDING_KEY_PREFIX : this.PRIVATE_KEY_PREFIX}${entry.keyId}`
+      );
+      if (!spendingKey) {
+        throw new Error('Authentication required to spend notes');
+      }
+      if (entry.spendingPublicKey && (await derivePublicKey(spendingKey)).toLowerCase() !== entry.spendingPublicKey.toLowerCase()) {
+        throw new Error('Stored spending key does not match its public key');
+      }
+      const spendingKeyHash = this.spendingKeyHashOf(spendingKey).toLowerCase();
+      if (wanted.has(spendingKeyHash)) {
+        console.log('🔓 Spend authorized with spending key', { keyId: entry.keyId });
+        spendSecrets.set(spendingKeyHash, spendSecretFromKey(spendingKey));
+      }
+    }
+    return spendSecrets;
+  }
+
+  /**
+   * Record the transaction that published `keyId` on the user's ONCHAINID
+   */
+  async markKeyPublished(keyId: string, txHash: string): Promise<void> {
+    const history = await this.getKeyHistory();
+    await this.saveKeyHistory(history.map(entry => entry.keyId === keyId ? { ...entry, publishedTxHash: txHash } : entry));
+  }
+
+  /**
+   * Export the key pair and its history as a passphrase-encrypted backup (see keyBackup.ts)
+   * Reading the spending key requires biometric/PIN authentication
+   */
+  async exportBackup(passphrase: string): Promise<string> {
+    const keyInfo = await this.getKeyInfo();
+    if (!keyInfo) {
+      throw new Error('No keys to back up');
+    }
+    const privateKey = await this.getViewingKey();
+    const spendingPrivateKey = keyInfo.spendingPublicKey ? await this.getSpendingPrivateKey() : null;
+    if (!privateKey || (keyInfo.spendingPublicKey && !spendingPrivateKey)) {
+      throw new Error('Authentication required to back up keys');
+    }
+
+    const mnemonic = await this.getMnemonic();
+    const history = await this.getKeyHistory();
+
+    // Retired keys derived from the recovery phrase are re-derived on restore
+    const retiredKeys: RetiredKey[] = [];
+    const viewingKeys = new Map((await this.getHistoricKeyPairs()).map(pair => [pair.keyId, pair.privateKey]));
+    for (const entry of history) {
+      if (entry.keyId === keyInfo.keyId || (mnemonic && entry.derivationIndex !== undefined)) continue;
+      const retiredKey = viewingKeys.get(entry.keyId);
+      if (!retiredKey) {
+        throw new Error(`Retired key ${entry.keyId} is not available to back up`);
+      }
+      retiredKeys.push({ keyId: entry.keyId, privateKey: retiredKey });
+    }
+
+    const backup = await createKeyBackup({
+      privateKey,
+      keyInfo,
+      spendingPrivateKey: spendingPrivateKey || undefined,
+      mnemonic: mnemonic || undefined,
+      history,
+      retiredKeys
+    }, passphrase);
+    console.log('✅ Key backup created', { keyId: keyInfo.keyId, keys: history.length });
+    return backup;
+  }
+
+  /**
+   * Restore a backup made by exportBackup, under its original keyIds, with its key history
+   * Refuses to replace a different key pair already on this device
+   */
+  async restoreBackup(backup: string, passphrase: string): Promise<StoredKeyInfo> {
+    const { privateKey, keyInfo, spendingPrivateKey, mnemonic, history, retiredKeys } = await openKeyBackup(backup, passphrase);
+
+    const existing = await this.getKeyInfo();
+    if (existing && existing.keyId !== keyInfo.keyId) {
+      throw new Error('Different keys are already stored on this device - delete them before restoring');
+    }
+
+    // Retired key pairs first, so the active one is stored last
+    for (const entry of history ?? []) {
+      if (entry.keyId === keyInfo.keyId) continue;
+      const retired = retiredKeys?.find(candidate => candidate.keyId === entry.keyId);
+      const keyPair = retired
+        ? { keyId: entry.keyId, publicKey: entry.publicKey, privateKey: retired.privateKey, createdAt: entry.activatedAt }
+        : mnemonic && entry.derivationIndex !== undefined
+          ? await this.generateKeyPair(mnemonic, entry.derivationIndex)
+          : null;
+      if (!keyPair || keyPair.keyId !== entry.keyId) {
+        throw new Error(`Key backup cannot restore retired key ${entry.keyId}`);
+      }
+      await this.storeKeyPair(keyPair, keyInfo.onchainId, retired ? undefined : mnemonic);
+    }
+
+    await this.storeKeyPair(
+      {
+        keyId: keyInfo.keyId,
+        publicKey: keyInfo.publicKey,
+        privateKey,
+        spendingPublicKey: keyInfo.spendingPublicKey,
+        spendingPrivateKey,
+        derivationIndex: keyInfo.derivationIndex,
+        createdAt: keyInfo.createdAt
+      },
+      keyInfo.onchainId,
+      mnemonic
+    );
+    // Keep the original activation and publication records, with the spending key hashes just computed
+    if (history?.length) {
+      const restored = await this.getKeyHistory();
+      await this.saveKeyHistory(history.map(entry => ({
+        ...entry,
+        spendingKeyHash: restored.find(candidate => candidate.keyId === entry.keyId)?.spendingKeyHash
+      })));
+    }
+    console.log('✅ Keys restored from backup', { keyId: keyInfo.keyId, keys: history?.length ?? 1 });
+    return keyInfo;
+  }
+
   /**
    * Delete all stored keys (for testing or reset)
    */
   async deleteKeys(): Promise<void> {
     try {
-      const keyInfo = await this.getKeyInfo();
-      if (keyInfo) {
-        await SecureStore.deleteItemAsync(`${this.PRIVATE_KEY_PREFIX}${keyInfo.keyId}`);
-        await SecureStore.deleteItemAsync(`${this.PUBLIC_KEY_PREFIX}${keyInfo.keyId}`);
+      // Retired key pairs are deleted along with the active one
+      for (const { keyId } of await this.getKeyHistory()) {
+        await SecureStore.deleteItemAsync(`${this.PRIVATE_KEY_PREFIX}${keyId}`);
+        await SecureStore.deleteItemAsync(`${this.PUBLIC_KEY_PREFIX}${keyId}`);
+        await SecureStore.deleteItemAsync(`${this.SPENDING_KEY_PREFIX}${keyId}`);
+        await SecureStore.deleteItemAsync(`${this.MNEMONIC_PREFIX}${keyId}`);
       }
       await SecureStore.deleteItemAsync(this.KEY_INFO_KEY);
+      await SecureStore.deleteItemAsync(this.KEY_HISTORY_KEY);
       console.log('✅ All keys deleted successfully');
     } catch (error) {
       console.error('❌ Failed to delete keys:', error);
       throw error;
     }
   }
+
+  /**
+   * Key pairs to recover from `mnemonic`, oldest first: every index up to the last one whose viewing key
+   * is in `publishedKeys` (see countRecoverableKeySets)
+   */
+  private async deriveRecoveredKeyPairs(mnemonic: string, publishedKeys: string[]): Promise<ZkETHerKeyPair[]> {
+    const count = await countRecoverableKeySets(mnemonic, publishedKeys);
+    const keyPairs: ZkETHerKeyPair[] = [];
+    for (let index = 0; index < count; index++) {
+      keyPairs.push(await this.generateKeyPair(mnemonic, index));
+    }
+    return keyPairs;
+  }
+
+  /**
+   * Make `keyInfo` the active history entry, retiring the one it replaces
+   */
+  private async recordActivation(history: KeyHistoryEntry[], keyInfo: StoredKeyInfo): Promise<void> {
+    const now = new Date().toISOString();
+    if (history.some(entry => entry.keyId === keyInfo.keyId && !entry.retiredAt)) return;
+
+    await this.saveKeyHistory([
+      ...history
+        .filter(entry => entry.keyId !== keyInfo.keyId)
+        .map(entry => entry.retiredAt ? entry : { ...entry, retiredAt: now }),
+      { ...this.toHistoryEntry(keyInfo), activatedAt: now }
+    ]);
+  }
+
+  private spendingKeyHashOf(spendingKey: string): string {
+    return toBytes32(computeSpendingKeyHash(spendSecretFromKey(spendingKey)));
+  }
+
+  private toHistoryEntry(keyInfo: StoredKeyInfo): KeyHistoryEntry {
+    return {
+      keyId: keyInfo.keyId,
+      publicKey: keyInfo.publicKey,
+      spendingPublicKey: keyInfo.spendingPublicKey,
+      spendingKeyHash: keyInfo.spendingKeyHash,
+      derivationIndex: keyInfo.derivationIndex,
+      activatedAt: keyInfo.createdAt
+    };
+  }
+
+  private async saveKeyHistory(history: KeyHistoryEntry[]): Promise<void> {
+    await SecureStore.setItemAsync(this.KEY_HISTORY_KEY, JSON.stringify(history), {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+    });
+  }
 }
 
 export const secureKeyService = new SecureKeyService();
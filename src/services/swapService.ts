@@ -1,46 +1,14 @@
-import { formatEther, parseEther, keccak256, toBytes, encodePacked } from 'viem';
-import { writeContract, readContract, getAccount } from '@wagmi/core';
+import { formatEther, parseEther } from 'viem';
+import { writeContract, readContract, getAccount, waitForTransactionReceipt } from '@wagmi/core';
 import { wagmiConfig } from '../config/walletConnect';
+import { ZKETHER_TOKEN_ABI } from '../contracts';
 import { networkService } from './networkService';
-
-// Contract addresses (from your deployment)
-const ZKETHER_TOKEN_ADDRESS = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512' as const;
-
-// Simplified ABI for deposit/withdraw functions
-const ZKETHER_TOKEN_ABI = [
-  {
-    inputs: [{ name: '_commitment', type: 'bytes32' }],
-    name: 'deposit',
-    outputs: [],
-    stateMutability: 'payable',
-    type: 'function',
-  },
-  {
-    inputs: [
-      { name: '_amount', type: 'uint256' },
-      { name: '_nullifierHash', type: 'bytes32' },
-      { name: '_proof', type: 'bytes' },
-    ],
-    name: 'withdraw',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function',
-  },
-  {
-    inputs: [{ name: 'account', type: 'address' }],
-    name: 'balanceOf',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-  {
-    inputs: [{ name: '_amount', type: 'uint256' }],
-    name: 'calculateTDS',
-    outputs: [{ name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function',
-  },
-] as const;
+import { secureKeyService } from './secureKeyService';
+import { noteStore } from './noteStore';
+import { noteEncryption } from './noteEncryption';
+import { zkETHerTokenService } from './zkETHerTokenService';
+import { moproService } from './moproService';
+import { generateNoteCommitment } from '../crypto/commitments';
 
 export interface SwapQuote {
   ethAmount: string;
@@ -53,6 +21,8 @@ export interface SwapQuote {
 export interface SwapResult {
   success: boolean;
   txHash?: string;
+  noteStoreError?: string;  // deposit mined, but its note could not be saved - a note scan recovers it
+  amountMismatch?: string;  // deposit minted a different amount than its note commits to
   error?: string;
 }
 
@@ -66,7 +36,7 @@ class SwapService {
       
       // Calculate TDS (1% deduction)
       const tdsAmount = await readContract(wagmiConfig, {
-        address: ZKETHER_TOKEN_ADDRESS,
+        address: networkService.getActiveDeployment().contracts.zkETHerToken,
         abi: ZKETHER_TOKEN_ABI,
         functionName: 'calculateTDS',
         args: [amountWei],
@@ -95,37 +65,57 @@ class SwapService {
    */
   async swapETHToZkETH(ethAmount: string): Promise<SwapResult> {
     try {
-      // Check if on correct network
-      const isOnAnvil = await networkService.isOnAnvil();
-      if (!isOnAnvil) {
-        throw new Error('Please switch to Anvil network first');
-      }
+      // Throws if zkETHer is not deployed on the wallet's network
+      const { contracts } = networkService.getActiveDeployment();
 
       const account = getAccount(wagmiConfig);
       if (!account.address) {
         throw new Error('Wallet not connected');
       }
 
+      const owner = await secureKeyService.getReceivingKey();
+      if (!owner) {
+        throw new Error('Generate your zkETHer keys before depositing');
+      }
+
       const amountWei = parseEther(ethAmount);
-      
-      // Generate a simple commitment
-      const commitment = keccak256(
-        encodePacked(['address', 'uint256', 'uint256'], 
-        [account.address, amountWei, BigInt(Date.now())])
+
+      // The note commits to the net amount the contract mints after TDS
+      const tdsAmount = await readContract(wagmiConfig, {
+        address: contracts.zkETHerToken,
+        abi: ZKETHER_TOKEN_ABI,
+        functionName: 'calculateTDS',
+        args: [amountWei],
+      });
+      const netAmount = amountWei - tdsAmount;
+      const note = generateNoteCommitment(netAmount, owner.publicKey, owner.spendingKeyHash);
+
+      // Publish the secrets sealed to our own key, so the note can be recovered from chain
+      const encryptedNote = await noteEncryption.encryptNote(
+        { secret: note.secret, nullifier: note.nullifier, amount: netAmount.toString() },
+        owner.publicKey
       );
 
       // Execute deposit
       const txHash = await writeContract(wagmiConfig, {
-        address: ZKETHER_TOKEN_ADDRESS,
+        address: contracts.zkETHerToken,
         abi: ZKETHER_TOKEN_ABI,
-        functionName: 'deposit',
-        args: [commitment],
+        functionName: 'depositWithNote',
+        args: [note.commitment, encryptedNote],
         value: amountWei,
       });
 
+      const receipt = await waitForTransactionReceipt(wagmiConfig, { hash: txHash });
+      if (receipt.status !== 'success') {
+        return { success: false, txHash, error: `Deposit reverted in ${txHash}` };
+      }
+
+      // The deposit is mined, so failing to store its note must not report it as failed
       return {
         success: true,
         txHash,
+        amountMismatch: zkETHerTokenService.mintedAmountMismatch(receipt, note.commitment, netAmount),
+        noteStoreError: await zkETHerTokenService.retryStoreDepositedNote(receipt, note, netAmount, owner),
       };
     } catch (error: any) {
       console.error('Error swapping ETH to zkETH:', error);
@@ -141,11 +131,8 @@ class SwapService {
    */
   async swapZkETHToETH(zkethAmount: string): Promise<SwapResult> {
     try {
-      // Check if on correct network
-      const isOnAnvil = await networkService.isOnAnvil();
-      if (!isOnAnvil) {
-        throw new Error('Please switch to Anvil network first');
-      }
+      // Throws if zkETHer is not deployed on the wallet's network
+      const { contracts } = networkService.getActiveDeployment();
 
       const account = getAccount(wagmiConfig);
       if (!account.address) {
@@ -153,24 +140,31 @@ class SwapService {
       }
 
       const amountWei = parseEther(zkethAmount);
-      
-      // Generate nullifier hash
-      const nullifierHash = keccak256(
-        encodePacked(['address', 'uint256', 'uint256'], 
-        [account.address, amountWei, BigInt(Date.now())])
-      );
 
-      // Create dummy proof
-      const dummyProof = '0x64756d6d795f70726f6f665f706c616365686f6c646572' as `0x${string}`;
+      // Spend one of our notes - its nullifier hash prevents double spending
+      const note = await noteStore.selectNoteForAmount(amountWei);
+      if (!note) {
+        throw new Error('No unspent note covers this amount');
+      }
+
+      // The circuit spends whole notes, so the withdrawn amount is the note's amount
+      const merklePath = await zkETHerTokenService.getMerklePath(note.commitment);
+      const calldata = await moproService.generateWithdrawProof(note, merklePath, account.address);
 
       // Execute withdrawal
       const txHash = await writeContract(wagmiConfig, {
-        address: ZKETHER_TOKEN_ADDRESS,
+        address: contracts.zkETHerToken,
         abi: ZKETHER_TOKEN_ABI,
         functionName: 'withdraw',
-        args: [amountWei, nullifierHash, dummyProof],
+        args: [calldata.amount, calldata.nullifierHash, calldata.proof],
       });
 
+      const receipt = await waitForTransactionReceipt(wagmiConfig, { hash: txHash });
+      if (receipt.status !== 'success') {
+        return { success: false, txHash, error: `Withdrawal reverted in ${txHash}` };
+      }
+      await noteStore.markSpent(note.commitment);
+
       return {
         success: true,
         txHash,
@@ -190,7 +184,7 @@ class SwapService {
   async getZkETHBalance(address: `0x${string}`): Promise<string> {
     try {
       const balance = await readContract(wagmiConfig, {
-        address: ZKETHER_TOKEN_ADDRESS,
+        address: networkService.getActiveDeployment().contracts.zkETHerToken,
         abi: ZKETHER_TOKEN_ABI,
         functionName: 'balanceOf',
         args: [address],
@@ -0,0 +1,85 @@
+/**
+ * zkETHer Viewing Key Export
+ * The viewing keys decrypt notes and reveal their history, so they can be handed to the user's other devices
+ * or to an auditor. They cannot withdraw: a note's secret and nullifier open its commitment only together
+ * with the spending key hash, and the withdraw circuit makes the prover show the spendSecret behind that
+ * hash (see commitments.ts). The spending key never leaves SecureStore.
+ *
+ *   { format: 'zkether-viewing-keys', version: 1, exportedAt,
+ *     keys: [{ keyId, publicKey, spendingKeyHash?, viewingKey, activatedAt, retiredAt? }] }
+ *
+ * spendingKeyHash lets the holder check decrypted notes against their commitments and nullifier hashes.
+ *
+ * `keys` holds the active and every retired key pair (see KeyHistoryEntry), oldest first, so notes sent before
+ * a rotation stay readable. The export is plaintext JSON - encrypt it before it leaves the device.
+ */
+
+import { derivePublicKey } from './libsodiumHelper.js';
+
+export const VIEWING_KEY_FORMAT = 'zkether-viewing-keys';
+export const VIEWING_KEY_VERSION = 1;
+
+export interface ViewingKeyEntry {
+  keyId: string;
+  publicKey: string;        // X25519 public key notes were encrypted to
+  spendingKeyHash?: string; // committed in the key's notes; unset for keys from before it was recorded
+  viewingKey: string;       // its private key
+  activatedAt: string;
+  retiredAt?: string;
+}
+
+export interface ViewingKeyExport {
+  format: typeof VIEWING_KEY_FORMAT;
+  version: number;
+  exportedAt: string;
+  keys: ViewingKeyEntry[];
+}
+
+const KEY_HEX = /^0x[0-9a-fA-F]{64}$/;
+
+export function createViewingKeyExport(keys: ViewingKeyEntry[]): ViewingKeyExport {
+  return {
+    format: VIEWING_KEY_FORMAT,
+    version: VIEWING_KEY_VERSION,
+    exportedAt: new Date().toISOString(),
+    keys
+  };
+}
+
+/**
+ * Parse a viewing key export and check every viewing key belongs to its public key
+ */
+export async function parseViewingKeyExport(text: string): Promise<ViewingKeyExport> {
+  let parsed: Partial<ViewingKeyExport>;
+  try {
+    parsed = JSON.parse(text.trim());
+  } catch {
+    throw new Error('Not a zkETHer viewing key export');
+  }
+
+  if (parsed?.format !== VIEWING_KEY_FORMAT) {
+    throw new Error('Not a zkETHer viewing key export');
+  }
+  if (parsed.version !== VIEWING_KEY_VERSION) {
+    throw new Error(`Unsupported viewing key export version ${parsed.version}`);
+  }
+  if (!Array.isArray(parsed.keys) || parsed.keys.length === 0) {
+    throw new Error('Viewing key export holds no keys');
+  }
+
+  for (const entry of parsed.keys) {
+    if (
+      !entry?.keyId ||
+      !KEY_HEX.test(entry.publicKey) ||
+      !KEY_HEX.test(entry.viewingKey) ||
+      (entry.spendingKeyHash !== undefined && !KEY_HEX.test(entry.spendingKeyHash)) ||
+      !entry.activatedAt
+    ) {
+      throw new Error('Viewing key export is corrupted');
+    }
+    if ((await derivePublicKey(entry.viewingKey)).toLowerCase() !== entry.publicKey.toLowerCase()) {
+      throw new Error(`Viewing key ${entry.keyId} does not match its public key`);
+    }
+  }
+  return parsed as ViewingKeyExport;
+}
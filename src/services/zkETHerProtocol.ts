@@ -1,23 +1,26 @@
 /**
  * zkETHer Protocol Black Box Service
- * Real contract interactions with deployed Anvil contracts
- * Converts Sandbox API success responses into real OnchainIDs and token operations
+ * Real contract interactions with the deployment on the wallet's current chain
+ * Converts Sandbox API success responses into real OnchainIDs (through the claim issuer service) and token operations
  */
 
-import { createPublicClient, createWalletClient, http, keccak256, encodePacked, parseEther } from 'viem';
-import { localhost } from 'viem/chains';
-import { privateKeyToAccount } from 'viem/accounts';
-
-// Real deployed contract addresses on Anvil (UPDATED FROM LATEST DEPLOYMENT)
-const CONTRACT_ADDRESSES = {
-  CLAIM_ISSUER: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
-  ZKETHER_TOKEN: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512',
-  ANVIL_RPC: 'http://10.70.129.214:8545'
-};
-
-// Management account for contract operations (Anvil default account)
-const MANAGEMENT_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
-const MANAGEMENT_ACCOUNT = privateKeyToAccount(MANAGEMENT_PRIVATE_KEY);
+import { createPublicClient, http, parseEther, formatEther, parseEventLogs, Hash, PublicClient } from 'viem';
+import { getAccount, waitForTransactionReceipt, writeContract } from '@wagmi/core';
+import { wagmiConfig } from '../config/walletConnect';
+import { CLAIM_ISSUER_ABI, ZKETHER_TOKEN_ABI } from '../contracts';
+import { DeploymentContracts } from '../config/deployments';
+import { generateNoteCommitment, NoteSecrets } from '../crypto/commitments';
+import { Note } from '../types/index';
+import { StoredKeyInfo, secureKeyService } from './secureKeyService';
+import { ReceivingKey } from './receivingKey';
+import { noteStore } from './noteStore';
+import { noteEncryption } from './noteEncryption';
+import { moproService } from './moproService';
+import { zkETHerTokenService } from './zkETHerTokenService';
+import { ActiveDeployment, networkService } from './networkService';
+import { issuerClient } from './issuerClient';
+import { IssuedClaim, VerificationRequest } from './issuerProtocol';
+import { ConsistencyResult } from './identityConsistency';
 
 // Claim topic constants
 const CLAIM_TOPICS = {
@@ -28,24 +31,32 @@ const CLAIM_TOPICS = {
 };
 
 // BLACK BOX INPUT/OUTPUT INTERFACES
-export interface VerificationInput {
-  userAddress: string;
-  aadhaarData: { status: string; data: { name: string; aadhaar: string; } };
-  panData: { status: string; data: { pan: string; name: string; } };
-  faceMatchData: { status: string; data: { match: boolean; confidence: number; } };
-}
+export type VerificationInput = VerificationRequest;
 
 export interface VerificationOutput {
   isVerified: boolean;
   onchainID: string;
   claims: string[];
+  missingClaims: string[]; // claims not issued because their verification did not succeed
+  consistency: ConsistencyResult; // issuer's Aadhaar/PAN cross-check; the eligibility claim needs it to pass
   transactionHash: string;
 }
 
+const ALL_CLAIMS: IssuedClaim[] = ['aadhaar_verified', 'pan_verified', 'face_matched', 'zkether_eligible'];
+
+export interface KeyRotationOutput {
+  keyInfo: StoredKeyInfo;       // the new active key
+  published: boolean;
+  transactionHash: string;      // publishPrivacyKey transaction; empty if publishing failed
+  error?: string;
+}
+
 export interface TokenOperationInput {
   action: 'deposit' | 'withdraw' | 'transfer';
   amount: string;
   commitment?: string;
+  note?: Note; // note to spend on withdraw; the oldest covering note is used otherwise
+  recipient?: string; // transfer destination
   userAddress: string;
   onchainID: string;
 }
@@ -55,50 +66,53 @@ export interface TokenOperationOutput {
   zkETHBalance: string;
   tdsDeducted: string;
   transactionHash: string;
+  noteStoreError?: string;  // deposit mined, but its note could not be saved - a note scan recovers it
+  amountMismatch?: string;  // deposit minted a different amount than its note commits to
   error?: string;
 }
 
 class ZkETHerProtocol {
-  private publicClient: any;
-  private walletClient: any;
+  private publicClient!: PublicClient;
+  private deployment: ActiveDeployment | null = null;
   private isInitialized: boolean = false;
 
   constructor() {
     this.initializeClients().catch(error => {
       console.error('❌ zkETHer Protocol initialization failed:', error);
     });
+    // Follow the wallet onto another chain's deployment
+    networkService.watchActiveDeployment(deployment => {
+      this.initializeClients(deployment).catch(error => {
+        console.error('❌ zkETHer Protocol re-initialization failed:', error);
+      });
+    });
   }
 
-  private async initializeClients() {
+  private async initializeClients(deployment?: ActiveDeployment | null) {
+    this.isInitialized = false;
+
     try {
-      console.log('🚀 Initializing zkETHer Protocol...');
-      console.log('🌐 Anvil RPC:', CONTRACT_ADDRESSES.ANVIL_RPC);
-      
-      // Use Anvil's default chain ID (31337)
-      const anvilChain = {
-        ...localhost,
-        id: 31337,
-        name: 'Anvil Local'
-      };
+      const target = deployment === undefined ? networkService.getActiveDeployment() : deployment;
+      this.deployment = target;
+      if (!target) {
+        throw new Error("zkETHer is not deployed on the wallet's current chain");
+      }
 
-      this.publicClient = createPublicClient({
-        chain: anvilChain,
-        transport: http(CONTRACT_ADDRESSES.ANVIL_RPC)
-      });
+      console.log('🚀 Initializing zkETHer Protocol...');
+      console.log('🌐 RPC:', target.rpcUrl, `(chain ${target.chainId})`);
 
-      this.walletClient = createWalletClient({
-        chain: anvilChain,
-        transport: http(CONTRACT_ADDRESSES.ANVIL_RPC),
-        account: MANAGEMENT_ACCOUNT
+      const publicClient = createPublicClient({
+        chain: target.chain,
+        transport: http(target.rpcUrl)
       });
 
-      const blockNumber = await this.publicClient.getBlockNumber();
-      console.log('✅ Connected to Anvil - Block:', blockNumber);
+      const blockNumber = await publicClient.getBlockNumber();
+      console.log('✅ Connected - Block:', blockNumber);
       
       // Verify contracts exist
       const [claimIssuerCode, tokenCode] = await Promise.all([
-        this.publicClient.getBytecode({ address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}` }),
-        this.publicClient.getBytecode({ address: CONTRACT_ADDRESSES.ZKETHER_TOKEN as `0x${string}` })
+        publicClient.getBytecode({ address: target.contracts.claimIssuer }),
+        publicClient.getBytecode({ address: target.contracts.zkETHerToken })
       ]);
       
       if (!claimIssuerCode || claimIssuerCode === '0x') {
@@ -108,6 +122,10 @@ class ZkETHerProtocol {
         throw new Error('zkETHer Token contract not deployed');
       }
 
+      // The wallet may have switched chain again while we were connecting
+      if (this.deployment !== target) return;
+
+      this.publicClient = publicClient;
       console.log('✅ zkETHer Protocol ready - All contracts verified');
       this.isInitialized = true;
     } catch (error) {
@@ -125,175 +143,37 @@ class ZkETHerProtocol {
   async processKYCVerification(input: VerificationInput): Promise<VerificationOutput> {
     console.log('🎯 Processing KYC verification for:', input.userAddress);
     
-    if (!this.isInitialized) {
+    if (!this.isInitialized || !this.deployment) {
       throw new Error('Protocol not initialized');
     }
 
     try {
-      // Step 1: Check if user already has OnchainID
-      let onchainID = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-        abi: [{
-          "inputs": [{"name": "user", "type": "address"}],
-          "name": "userToIdentity", 
-          "outputs": [{"name": "", "type": "address"}],
-          "stateMutability": "view",
-          "type": "function"
-        }],
-        functionName: 'userToIdentity',
-        args: [input.userAddress as `0x${string}`]
-      });
-
-      console.log('🔍 Existing OnchainID check:', onchainID);
-
-      // Step 2: Create OnchainID if needed (real contract call)
-      if (onchainID === '0x0000000000000000000000000000000000000000') {
-        console.log('🆕 Creating new OnchainID via contract...');
-        const { request } = await this.publicClient.simulateContract({
-          address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-          abi: [{
-            "inputs": [{"name": "_user", "type": "address"}, {"name": "_managementKey", "type": "address"}],
-            "name": "createIdentity",
-            "outputs": [{"name": "", "type": "address"}],
-            "stateMutability": "nonpayable",
-            "type": "function"
-          }],
-          functionName: 'createIdentity',
-          args: [input.userAddress as `0x${string}`, input.userAddress as `0x${string}`],
-          account: MANAGEMENT_ACCOUNT.address
-        });
-        
-        const txHash = await this.walletClient.writeContract(request);
-        const receipt = await this.publicClient.waitForTransactionReceipt({ hash: txHash });
-        
-        // Get the created identity address from the mapping
-        onchainID = await this.publicClient.readContract({
-          address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-          abi: [{
-            "inputs": [{"name": "user", "type": "address"}],
-            "name": "userToIdentity", 
-            "outputs": [{"name": "", "type": "address"}],
-            "stateMutability": "view",
-            "type": "function"
-          }],
-          functionName: 'userToIdentity',
-          args: [input.userAddress as `0x${string}`]
-        });
-        
-        console.log('✅ New OnchainID created:', onchainID);
-      }
-
-      // Step 3: Issue claims based on Sandbox API success responses
-      const claims: string[] = [];
-      const claimData = JSON.stringify({
-        aadhaar: input.aadhaarData,
-        pan: input.panData,
-        faceMatch: input.faceMatchData,
-        timestamp: Date.now()
-      });
-
-      // Issue Aadhaar claim (real contract call)
-      if (input.aadhaarData.status === 'success') {
-        console.log('📄 Issuing Aadhaar claim to contract...');
-        const { request } = await this.publicClient.simulateContract({
-          address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-          abi: [{
-            "inputs": [{"name": "userIdentity", "type": "address"}, {"name": "verificationId", "type": "string"}, {"name": "sandboxResponse", "type": "bytes"}],
-            "name": "issueAadhaarClaim",
-            "outputs": [],
-            "stateMutability": "nonpayable",
-            "type": "function"
-          }],
-          functionName: 'issueAadhaarClaim',
-          args: [onchainID as `0x${string}`, `aadhaar_${Date.now()}`, `0x${Buffer.from(claimData).toString('hex')}`],
-          account: MANAGEMENT_ACCOUNT.address
-        });
-        await this.walletClient.writeContract(request);
-        claims.push('aadhaar_verified');
-        console.log('✅ Aadhaar claim issued');
-      }
-
-      // Issue PAN claim (real contract call)
-      if (input.panData.status === 'success') {
-        console.log('📄 Issuing PAN claim to contract...');
-        const { request } = await this.publicClient.simulateContract({
-          address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-          abi: [{
-            "inputs": [{"name": "userIdentity", "type": "address"}, {"name": "verificationId", "type": "string"}, {"name": "sandboxResponse", "type": "bytes"}],
-            "name": "issuePANClaim",
-            "outputs": [],
-            "stateMutability": "nonpayable",
-            "type": "function"
-          }],
-          functionName: 'issuePANClaim',
-          args: [onchainID as `0x${string}`, `pan_${Date.now()}`, `0x${Buffer.from(claimData).toString('hex')}`],
-          account: MANAGEMENT_ACCOUNT.address
-        });
-        await this.walletClient.writeContract(request);
-        claims.push('pan_verified');
-        console.log('✅ PAN claim issued');
+      // The issuer service owns the management key and submits identity and claim transactions
+      const result = await issuerClient.submitVerification(
+        input,
+        this.deployment.chainId,
+        this.deployment.contracts.claimIssuer
+      );
+
+      const missingClaims = ALL_CLAIMS.filter(claim => !result.claims.includes(claim));
+      if (missingClaims.length > 0) {
+        console.warn('⚠️ Claims not issued:', missingClaims);
       }
 
-      // Issue Face Match claim (real contract call)
-      if (input.faceMatchData.status === 'success' && input.faceMatchData.data.match) {
-        console.log('📄 Issuing Face Match claim to contract...');
-        const { request } = await this.publicClient.simulateContract({
-          address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-          abi: [{
-            "inputs": [{"name": "userIdentity", "type": "address"}, {"name": "verificationId", "type": "string"}, {"name": "sandboxResponse", "type": "bytes"}],
-            "name": "issueFaceMatchClaim",
-            "outputs": [],
-            "stateMutability": "nonpayable",
-            "type": "function"
-          }],
-          functionName: 'issueFaceMatchClaim',
-          args: [onchainID as `0x${string}`, `face_${Date.now()}`, `0x${Buffer.from(claimData).toString('hex')}`],
-          account: MANAGEMENT_ACCOUNT.address
-        });
-        await this.walletClient.writeContract(request);
-        claims.push('face_matched');
-        console.log('✅ Face Match claim issued');
-      }
-
-      // Issue zkETHer eligibility if all claims successful (real contract call)
-      if (claims.length === 3) {
-        console.log('📄 Issuing zkETHer eligibility claim to contract...');
-        
-        // Skip simulation and directly execute the transaction
-        // simulateContract was failing due to state changes from previous transactions
-        const txHash = await this.walletClient.writeContract({
-          address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-          abi: [{
-            "inputs": [{"name": "userIdentity", "type": "address"}, {"name": "verificationId", "type": "string"}, {"name": "sandboxResponse", "type": "bytes"}],
-            "name": "issuezkETHerEligibilityClaim",
-            "outputs": [],
-            "stateMutability": "nonpayable",
-            "type": "function"
-          }],
-          functionName: 'issuezkETHerEligibilityClaim',
-          args: [onchainID as `0x${string}`, `zkether_${Date.now()}`, `0x${Buffer.from(claimData).toString('hex')}`],
-          account: MANAGEMENT_ACCOUNT.address,
-          gas: 1000000n // Explicit gas limit to avoid estimation issues
-        });
-        
-        await this.publicClient.waitForTransactionReceipt({ hash: txHash });
-        claims.push('zkether_eligible');
-        console.log('✅ zkETHer eligibility claim issued');
-      }
-
-      const txHash = keccak256(encodePacked(['string', 'address'], ['kyc_verification', input.userAddress as `0x${string}`]));
-
       console.log('🎉 KYC verification completed:', {
-        onchainID,
-        claims,
-        isVerified: claims.length === 4
+        onchainID: result.onchainID,
+        claims: result.claims,
+        isVerified: result.isVerified
       });
 
       return {
-        isVerified: claims.length === 4,
-        onchainID: onchainID,
-        claims: claims,
-        transactionHash: txHash
+        isVerified: result.isVerified,
+        onchainID: result.onchainID,
+        claims: result.claims,
+        missingClaims,
+        consistency: result.consistency,
+        // Last claim transaction; empty when the identity already held every claim we could issue
+        transactionHash: result.transactionHashes[result.transactionHashes.length - 1] || ''
       };
     } catch (error) {
       console.error('❌ KYC verification failed:', error);
@@ -316,14 +196,8 @@ class ZkETHerProtocol {
     try {
       // Verify user is eligible for token operations (real contract call)
       const isEligible = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-        abi: [{
-          "inputs": [{"name": "userIdentity", "type": "address"}, {"name": "topic", "type": "uint256"}],
-          "name": "hasValidClaim",
-          "outputs": [{"name": "", "type": "bool"}],
-          "stateMutability": "view",
-          "type": "function"
-        }],
+        address: this.getContractAddresses().claimIssuer,
+        abi: CLAIM_ISSUER_ABI,
         functionName: 'hasValidClaim',
         args: [input.onchainID as `0x${string}`, BigInt(CLAIM_TOPICS.ZKETHER_ELIGIBLE)]
       });
@@ -334,89 +208,155 @@ class ZkETHerProtocol {
 
       console.log('✅ User eligibility verified');
 
-      // Real TDS calculation (1% as per contract)
-      const amount = parseFloat(input.amount);
-      const tdsRate = 0.01; // 1%
-      const tdsAmount = amount * tdsRate;
-      const netAmount = amount - tdsAmount;
+      // User operations are signed by the user's own connected wallet, never the management key
+      const { address: connectedAddress } = getAccount(wagmiConfig);
+      if (!connectedAddress || connectedAddress.toLowerCase() !== input.userAddress.toLowerCase()) {
+        throw new Error(`Connect the wallet for ${input.userAddress} to continue`);
+      }
+      const userAddress = connectedAddress;
+      const tokenAddress = this.getContractAddresses().zkETHerToken;
 
-      let txHash: string;
-      let currentBalance = '0.0';
+      // Each operation is simulated first, so a reverting call never reaches the wallet
+      let txHash: Hash;
+      // Set for deposits whose note we generate here, so it can be stored once mined
+      let depositedNote: (NoteSecrets & { commitment: `0x${string}`; amount: bigint; owner: ReceivingKey }) | null = null;
+      let spentNote: Note | null = null;
 
       switch (input.action) {
-        case 'deposit':
+        case 'deposit': {
           console.log('💳 Processing deposit to zkETHer token contract...');
-          const commitment = input.commitment || keccak256(encodePacked(['address', 'uint256'], [input.userAddress as `0x${string}`, BigInt(Date.now())]));
-          
-          // Real contract call for deposit
-          await this.publicClient.simulateContract({
-            address: CONTRACT_ADDRESSES.ZKETHER_TOKEN as `0x${string}`,
-            abi: [{
-              "inputs": [{"name": "_commitment", "type": "bytes32"}],
-              "name": "deposit",
-              "outputs": [],
-              "stateMutability": "payable",
-              "type": "function"
-            }],
-            functionName: 'deposit',
-            args: [commitment],
-            account: input.userAddress as `0x${string}`,
-            value: parseEther(input.amount)
+          const grossWei = parseEther(input.amount);
+
+          if (input.commitment) {
+            const { request } = await this.publicClient.simulateContract({
+              address: tokenAddress,
+              abi: ZKETHER_TOKEN_ABI,
+              functionName: 'deposit',
+              args: [input.commitment as `0x${string}`],
+              account: userAddress,
+              value: grossWei
+            });
+            txHash = await writeContract(wagmiConfig, request);
+            break;
+          }
+
+          const owner = await secureKeyService.getReceivingKey();
+          if (!owner) {
+            throw new Error('No zkETHer receiving key available for the note owner');
+          }
+          const tdsWei: bigint = await this.publicClient.readContract({
+            address: tokenAddress,
+            abi: ZKETHER_TOKEN_ABI,
+            functionName: 'calculateTDS',
+            args: [grossWei]
+          });
+          const netWei = grossWei - tdsWei;
+          const note = generateNoteCommitment(netWei, owner.publicKey, owner.spendingKeyHash);
+          const encryptedNote = await noteEncryption.encryptNote(
+            { secret: note.secret, nullifier: note.nullifier, amount: netWei.toString() },
+            owner.publicKey
+          );
+          depositedNote = { ...note, amount: netWei, owner };
+
+          const { request } = await this.publicClient.simulateContract({
+            address: tokenAddress,
+            abi: ZKETHER_TOKEN_ABI,
+            functionName: 'depositWithNote',
+            args: [note.commitment, encryptedNote],
+            account: userAddress,
+            value: grossWei
           });
-          
-          currentBalance = netAmount.toString();
-          txHash = keccak256(encodePacked(['string', 'address', 'uint256'], ['deposit', input.userAddress as `0x${string}`, BigInt(Date.now())]));
-          console.log('✅ Deposit processed');
+          txHash = await writeContract(wagmiConfig, request);
           break;
+        }
 
-        case 'withdraw':
+        case 'withdraw': {
           console.log('💸 Processing withdrawal from zkETHer token contract...');
-          const nullifierHash = keccak256(encodePacked(['address', 'uint256'], [input.userAddress as `0x${string}`, BigInt(Date.now())]));
-          const proof = '0x' + Buffer.from('zk_proof_placeholder').toString('hex');
-          
-          // Real contract call for withdrawal
-          await this.publicClient.simulateContract({
-            address: CONTRACT_ADDRESSES.ZKETHER_TOKEN as `0x${string}`,
-            abi: [{
-              "inputs": [{"name": "_amount", "type": "uint256"}, {"name": "_nullifierHash", "type": "bytes32"}, {"name": "_proof", "type": "bytes"}],
-              "name": "withdraw",
-              "outputs": [],
-              "stateMutability": "nonpayable",
-              "type": "function"
-            }],
+          spentNote = input.note || await noteStore.selectNoteForAmount(parseEther(input.amount));
+          if (!spentNote) {
+            throw new Error('No unspent note covers this amount');
+          }
+
+          // The circuit spends whole notes, so the withdrawn amount is the note's amount
+          const merklePath = await zkETHerTokenService.getMerklePath(spentNote.commitment);
+          const calldata = await moproService.generateWithdrawProof(spentNote, merklePath, userAddress);
+
+          const { request } = await this.publicClient.simulateContract({
+            address: tokenAddress,
+            abi: ZKETHER_TOKEN_ABI,
             functionName: 'withdraw',
-            args: [parseEther(input.amount), nullifierHash, proof],
-            account: input.userAddress as `0x${string}`
+            args: [calldata.amount, calldata.nullifierHash, calldata.proof],
+            account: userAddress
           });
-          
-          currentBalance = '0.0'; // Simplified - would track actual balance
-          txHash = keccak256(encodePacked(['string', 'address', 'uint256'], ['withdraw', input.userAddress as `0x${string}`, BigInt(Date.now())]));
-          console.log('✅ Withdrawal processed');
+          txHash = await writeContract(wagmiConfig, request);
           break;
+        }
 
-        case 'transfer':
+        case 'transfer': {
           console.log('🔄 Processing transfer via zkETHer token contract...');
-          // Transfer logic with real contract calls would go here
-          currentBalance = netAmount.toString();
-          txHash = keccak256(encodePacked(['string', 'address', 'uint256'], ['transfer', input.userAddress as `0x${string}`, BigInt(Date.now())]));
-          console.log('✅ Transfer processed');
+          if (!input.recipient) {
+            throw new Error('Transfer recipient is required');
+          }
+
+          const { request } = await this.publicClient.simulateContract({
+            address: tokenAddress,
+            abi: ZKETHER_TOKEN_ABI,
+            functionName: 'transferWithTDS',
+            args: [input.recipient as `0x${string}`, parseEther(input.amount)],
+            account: userAddress
+          });
+          txHash = await writeContract(wagmiConfig, request);
           break;
+        }
 
         default:
           throw new Error(`Unsupported operation: ${input.action}`);
       }
 
+      console.log('📤 Transaction submitted:', txHash);
+
+      const receipt = await waitForTransactionReceipt(wagmiConfig, { hash: txHash });
+      if (receipt.status !== 'success') {
+        throw new Error(`Transaction ${txHash} reverted`);
+      }
+      console.log('⛓️ Mined in block', receipt.blockNumber.toString());
+
+      // The deposit is mined either way, so failing to store its note must not report it as failed
+      let noteStoreError: string | undefined;
+      let amountMismatch: string | undefined;
+      if (depositedNote) {
+        amountMismatch = zkETHerTokenService.mintedAmountMismatch(receipt, depositedNote.commitment, depositedNote.amount);
+        noteStoreError = await zkETHerTokenService.retryStoreDepositedNote(receipt, depositedNote, depositedNote.amount, depositedNote.owner);
+      }
+      if (spentNote) {
+        await noteStore.markSpent(spentNote.commitment);
+      }
+
+      // TDSDeducted is only emitted when some TDS was actually deducted
+      const [tdsEvent] = parseEventLogs({ abi: ZKETHER_TOKEN_ABI, eventName: 'TDSDeducted', logs: receipt.logs });
+      const tdsAmount = formatEther(tdsEvent ? tdsEvent.args.tdsAmount : 0n);
+
+      const balance: bigint = await this.publicClient.readContract({
+        address: tokenAddress,
+        abi: ZKETHER_TOKEN_ABI,
+        functionName: 'balanceOf',
+        args: [userAddress]
+      });
+      const currentBalance = formatEther(balance);
+
       console.log('🎉 Token operation completed:', {
         action: input.action,
         zkETHBalance: currentBalance,
-        tdsDeducted: tdsAmount.toString()
+        tdsDeducted: tdsAmount
       });
 
       return {
         success: true,
         zkETHBalance: currentBalance,
-        tdsDeducted: tdsAmount.toString(),
-        transactionHash: txHash
+        tdsDeducted: tdsAmount,
+        transactionHash: txHash,
+        noteStoreError,
+        amountMismatch
       };
     } catch (error) {
       console.error('❌ Token operation failed:', error);
@@ -431,10 +371,74 @@ class ZkETHerProtocol {
   }
 
   /**
-   * Get contract addresses for debugging
+   * Rotate the zkETHer privacy keys and publish the new public key on the user's ONCHAINID.
+   * If publishing fails the new key is still active locally - call publishPrivacyKey to retry.
+   * Keys without a recovery phrase need `newMnemonic`, shown to the user first (see secureKeyService.rotateKeys).
+   */
+  async rotatePrivacyKeys(userAddress: string, newMnemonic?: string): Promise<KeyRotationOutput> {
+    console.log('🔄 Rotating privacy keys for:', userAddress);
+
+    const keyInfo = await secureKeyService.rotateKeys(newMnemonic);
+    try {
+      const transactionHash = await this.publishPrivacyKey(userAddress);
+      return { keyInfo, published: true, transactionHash };
+    } catch (error) {
+      console.error('❌ Rotated keys could not be published:', error);
+      return {
+        keyInfo,
+        published: false,
+        transactionHash: '',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Recover the privacy keys derived from `mnemonic`, including every key rotated to since, by
+   * re-deriving up to the length of the user's on-chain privacy key history
+   */
+  async recoverPrivacyKeys(userAddress: string, mnemonic: string, onchainId?: string): Promise<StoredKeyInfo> {
+    let published: string[];
+    try {
+      published = await zkETHerTokenService.getPublishedPrivacyKeys(userAddress);
+    } catch (error) {
+      console.error('❌ Failed to read published privacy keys:', error);
+      throw new Error('Could not read your published privacy keys - connect to the zkETHer network and try again');
+    }
+
+    const keyInfo = await secureKeyService.generateAndStoreKeys(onchainId, mnemonic, published);
+    console.log('✅ Privacy keys recovered', { published: published.length, active: keyInfo.keyId });
+    return keyInfo;
+  }
+
+  /**
+   * Publish the active privacy key as the user's ZKETHER_PRIVACY_KEY claim and record it in the key history
+   */
+  async publishPrivacyKey(userAddress: string): Promise<string> {
+    const keyInfo = await secureKeyService.getKeyInfo();
+    if (!keyInfo) {
+      throw new Error('Generate your zkETHer keys before publishing them');
+    }
+
+    const published = await zkETHerTokenService.getPublishedPrivacyKeys(userAddress);
+    if (published[published.length - 1]?.toLowerCase() === keyInfo.publicKey.toLowerCase()) {
+      console.log('ℹ️ Privacy key already published');
+      return (await secureKeyService.getKeyHistory()).find(entry => entry.keyId === keyInfo.keyId)?.publishedTxHash || '';
+    }
+
+    const txHash = await zkETHerTokenService.publishPrivacyKey(userAddress, keyInfo.publicKey);
+    await secureKeyService.markKeyPublished(keyInfo.keyId, txHash);
+    return txHash;
+  }
+
+  /**
+   * Contract addresses of the deployment on the wallet's current chain
    */
-  getContractAddresses() {
-    return CONTRACT_ADDRESSES;
+  getContractAddresses(): DeploymentContracts {
+    if (!this.deployment) {
+      throw new Error("zkETHer is not deployed on the wallet's current chain");
+    }
+    return this.deployment.contracts;
   }
 
   /**
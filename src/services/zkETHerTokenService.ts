@@ -4,15 +4,20 @@
  * Manages deposits, withdrawals, and transfers with TDS calculation
  */
 
-import { createPublicClient, createWalletClient, http, parseEther, formatEther, keccak256, encodePacked } from 'viem';
-import { localhost } from 'viem/chains';
-
-// Real deployed contract addresses on Anvil
-const CONTRACT_ADDRESSES = {
-  ZKETHER_TOKEN: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512', // Real deployed zkETHer token
-  CLAIM_ISSUER: '0x5FbDB2315678afecb367f032d93F642f64180aa3',   // Real deployed ClaimIssuer
-  ANVIL_RPC: 'http://localhost:8545'
-};
+import { createPublicClient, http, parseEther, formatEther, parseEventLogs, PublicClient, TransactionReceipt } from 'viem';
+import { getAccount, getBlock, waitForTransactionReceipt, writeContract } from '@wagmi/core';
+import { wagmiConfig } from '../config/walletConnect';
+import { CLAIM_ISSUER_ABI, ZKETHER_TOKEN_ABI } from '../contracts';
+import { DeploymentContracts } from '../config/deployments';
+import { generateNoteCommitment, NoteSecrets } from '../crypto/commitments';
+import { secureKeyService } from './secureKeyService';
+import { ReceivingKey, parseReceivingKey } from './receivingKey';
+import { noteStore } from './noteStore';
+import { noteEncryption } from './noteEncryption';
+import { moproService } from './moproService';
+import { DepositTree } from './depositTree';
+import { ActiveDeployment, networkService } from './networkService';
+import { MerklePath } from '../crypto/merkleTree';
 
 export interface TokenBalance {
   zkETH: string;
@@ -30,6 +35,13 @@ export interface DepositResult {
   tdsAmount: string;
   netAmount: string;
   commitment: string;
+  blockNumber?: number;    // block the deposit was mined in
+  noteSecrets?: NoteSecrets;
+  ownerPublicKey?: string;
+  spendingKeyHash?: string;
+  encryptedNote?: string;  // note secrets sealed to the owner's key, emitted with the commitment
+  noteStoreError?: string; // the deposit is mined but the note could not be saved - a note scan recovers it
+  amountMismatch?: string; // the contract minted a different amount than the note commits to
   error?: string;
 }
 
@@ -66,8 +78,9 @@ export interface TDSCalculation {
 }
 
 class ZkETHerTokenService {
-  private publicClient: any;
-  private walletClient: any;
+  private publicClient!: PublicClient;
+  private deployment: ActiveDeployment | null = null;
+  private depositTree: DepositTree | null = null;
   private isInitialized: boolean = false;
   private currentTDSRate: number = 100; // 1% in basis points
 
@@ -75,43 +88,64 @@ class ZkETHerTokenService {
     this.initializeClients().catch(error => {
       console.error('❌ Constructor initialization failed:', error);
     });
+    // Follow the wallet onto another chain's deployment
+    networkService.watchActiveDeployment(deployment => {
+      this.initializeClients(deployment).catch(error => {
+        console.error('❌ Re-initialization after chain switch failed:', error);
+      });
+    });
   }
 
-  private async initializeClients() {
+  private async initializeClients(deployment?: ActiveDeployment | null) {
+    this.isInitialized = false;
+    this.depositTree = null;
+
     try {
+      const target = deployment === undefined ? networkService.getActiveDeployment() : deployment;
+      this.deployment = target;
+      if (!target) {
+        throw new Error("zkETHer is not deployed on the wallet's current chain");
+      }
+
       console.log('🔄 Initializing zkETHer Token service...');
-      console.log('🌐 Anvil RPC URL:', CONTRACT_ADDRESSES.ANVIL_RPC);
-      console.log('🪙 zkETHer Token contract:', CONTRACT_ADDRESSES.ZKETHER_TOKEN);
+      console.log('🌐 RPC URL:', target.rpcUrl, `(chain ${target.chainId})`);
+      console.log('🪙 zkETHer Token contract:', target.contracts.zkETHerToken);
 
-      this.publicClient = createPublicClient({
-        chain: localhost,
-        transport: http(CONTRACT_ADDRESSES.ANVIL_RPC)
+      const publicClient = createPublicClient({
+        chain: target.chain,
+        transport: http(target.rpcUrl)
       });
 
-      // Verify connection to Anvil
-      const blockNumber = await this.publicClient.getBlockNumber();
-      console.log('🔗 Connected to Anvil - Current block:', blockNumber);
+      // Verify connection to the node
+      const blockNumber = await publicClient.getBlockNumber();
+      console.log('🔗 Connected - Current block:', blockNumber);
 
       // Verify zkETHer token contract exists
-      const tokenBytecode = await this.publicClient.getBytecode({
-        address: CONTRACT_ADDRESSES.ZKETHER_TOKEN as `0x${string}`
+      const tokenBytecode = await publicClient.getBytecode({
+        address: target.contracts.zkETHerToken
       });
       
       if (tokenBytecode && tokenBytecode !== '0x') {
-        console.log('✅ zkETHer Token contract found at:', CONTRACT_ADDRESSES.ZKETHER_TOKEN);
+        console.log('✅ zkETHer Token contract found at:', target.contracts.zkETHerToken);
         console.log('📦 Contract bytecode length:', tokenBytecode.length);
       } else {
         throw new Error('zkETHer Token contract not found at specified address');
       }
 
+      // The wallet may have switched chain again while we were connecting
+      if (this.deployment !== target) return;
+
+      this.publicClient = publicClient;
+      this.depositTree = new DepositTree(publicClient, target.contracts.zkETHerToken);
+
       console.log('✅ zkETHer Token service initialized successfully');
       this.isInitialized = true;
     } catch (error) {
       console.error('❌ Failed to initialize zkETHer Token service:', error);
       console.error('🔍 Error details:', {
         message: error instanceof Error ? error.message : 'Unknown error',
-        rpcUrl: CONTRACT_ADDRESSES.ANVIL_RPC,
-        tokenAddress: CONTRACT_ADDRESSES.ZKETHER_TOKEN
+        rpcUrl: this.deployment?.rpcUrl,
+        tokenAddress: this.deployment?.contracts.zkETHerToken
       });
       this.isInitialized = false;
     }
@@ -143,7 +177,7 @@ class ZkETHerTokenService {
    */
   async getBalances(userAddress: string): Promise<TokenBalance> {
     console.log('💰 Fetching balances for:', userAddress);
-    console.log('📞 Calling zkETHer Token contract at:', CONTRACT_ADDRESSES.ZKETHER_TOKEN);
+    console.log('📞 Calling zkETHer Token contract at:', this.deployment?.contracts.zkETHerToken);
 
     try {
       if (!this.isInitialized) {
@@ -156,17 +190,13 @@ class ZkETHerTokenService {
       });
       console.log('💎 ETH balance:', formatEther(ethBalance));
 
-      // TODO: Get zkETH token balance from real contract
-      // const zkETHBalance = await this.publicClient.readContract({
-      //   address: CONTRACT_ADDRESSES.ZKETHER_TOKEN,
-      //   abi: [...],
-      //   functionName: 'balanceOf',
-      //   args: [userAddress]
-      // });
-
-      // Mock zkETH balance for now
-      const zkETHBalance = parseEther('0.0');
-      console.log('🪙 zkETH balance (mock):', formatEther(zkETHBalance));
+      const zkETHBalance: bigint = await this.publicClient.readContract({
+        address: this.getContracts().zkETHerToken,
+        abi: ZKETHER_TOKEN_ABI,
+        functionName: 'balanceOf',
+        args: [userAddress as `0x${string}`]
+      });
+      console.log('🪙 zkETH balance:', formatEther(zkETHBalance));
 
       console.log('✅ Balance fetch completed');
       return {
@@ -182,7 +212,7 @@ class ZkETHerTokenService {
       console.error('🔍 Error details:', {
         message: error instanceof Error ? error.message : 'Unknown error',
         userAddress,
-        tokenContract: CONTRACT_ADDRESSES.ZKETHER_TOKEN
+        tokenContract: this.deployment?.contracts.zkETHerToken
       });
       
       // Return zero balances on error
@@ -203,46 +233,80 @@ class ZkETHerTokenService {
   async deposit(
     userAddress: string,
     amount: string,
-    onchainId: string
+    onchainId: string,
+    recipientKey?: string
   ): Promise<DepositResult> {
     console.log('💳 Processing deposit:', { userAddress, amount, onchainId });
 
     try {
-      // Calculate TDS
-      const tdsCalc = this.calculateTDS(amount);
-      
-      // Generate commitment hash for privacy
-      const commitment = keccak256(
-        encodePacked(
-          ['address', 'uint256', 'uint256'],
-          [userAddress as `0x${string}`, tdsCalc.grossAmount, BigInt(Date.now())]
-        )
+      const account = this.getWalletAccount(userAddress);
+      const grossAmount = parseEther(amount);
+
+      // The note is owned by the recipient's receiving key (our own for self-deposits)
+      const ownKey = await secureKeyService.getReceivingKey();
+      const owner = recipientKey ? parseReceivingKey(recipientKey) : ownKey;
+      if (!owner) {
+        throw new Error('No zkETHer receiving key available for the note owner');
+      }
+      const ownerPublicKey = owner.publicKey;
+
+      // Poseidon commitment over the amount the contract will mint after TDS - carries no link to the depositor
+      const tdsAmount = await this.readTDS(grossAmount);
+      const netAmount = grossAmount - tdsAmount;
+      const { commitment, secret, nullifier } = generateNoteCommitment(netAmount, ownerPublicKey, owner.spendingKeyHash);
+      const encryptedNote = await noteEncryption.encryptNote(
+        { secret, nullifier, amount: netAmount.toString() },
+        ownerPublicKey
       );
 
-      // Mock transaction hash
-      const txHash = keccak256(
-        encodePacked(
-          ['string', 'address', 'uint256'],
-          ['deposit', userAddress as `0x${string}`, tdsCalc.grossAmount]
-        )
-      );
+      const txHash = await writeContract(wagmiConfig, {
+        account,
+        address: this.getContracts().zkETHerToken,
+        abi: ZKETHER_TOKEN_ABI,
+        functionName: 'depositWithNote',
+        args: [commitment, encryptedNote],
+        value: grossAmount
+      });
+      console.log('📤 Deposit submitted:', txHash);
 
-      // Simulate blockchain delay
-      await this.delay(3000);
+      const receipt = await this.waitForSuccess(txHash);
+      const [depositEvent] = parseEventLogs({ abi: ZKETHER_TOKEN_ABI, eventName: 'Deposit', logs: receipt.logs });
+      if (!depositEvent) {
+        throw new Error('Deposit event not found in transaction receipt');
+      }
+      const tds = this.decodeTDS(receipt);
+      const minted = depositEvent.args.amount;
+      const amountMismatch = this.mintedAmountMismatch(receipt, commitment, netAmount);
+
+      // Notes for other recipients reach them through the EncryptedNote event. The deposit is
+      // mined either way, so failing to store the note must not turn it into a failed deposit.
+      // The note is stored with the amount it commits to, the only one it can be withdrawn with.
+      let noteStoreError: string | undefined;
+      if (ownKey && ownerPublicKey === ownKey.publicKey && owner.spendingKeyHash === ownKey.spendingKeyHash) {
+        noteStoreError = await this.retryStoreDepositedNote(receipt, { commitment, secret, nullifier }, netAmount, owner);
+      }
 
       console.log('✅ Deposit successful:', {
         txHash,
-        netAmount: tdsCalc.formatted.net,
-        tdsDeducted: tdsCalc.formatted.tds
+        block: receipt.blockNumber.toString(),
+        netAmount: formatEther(minted),
+        tdsDeducted: formatEther(tds?.tdsAmount ?? 0n)
       });
 
       return {
         success: true,
         transactionHash: txHash,
-        grossAmount: tdsCalc.formatted.gross,
-        tdsAmount: tdsCalc.formatted.tds,
-        netAmount: tdsCalc.formatted.net,
-        commitment
+        grossAmount: formatEther(grossAmount),
+        tdsAmount: formatEther(tds?.tdsAmount ?? 0n),
+        netAmount: formatEther(minted),
+        commitment,
+        blockNumber: Number(receipt.blockNumber),
+        noteSecrets: { secret, nullifier },
+        ownerPublicKey,
+        spendingKeyHash: owner.spendingKeyHash,
+        encryptedNote,
+        noteStoreError,
+        amountMismatch
       };
 
     } catch (error) {
@@ -260,51 +324,60 @@ class ZkETHerTokenService {
   }
 
   /**
-   * Withdraw zkETH tokens and receive ETH
+   * Withdraw zkETH tokens and receive ETH.
+   * Spends the oldest unspent note covering `amount`; the circuit spends whole notes, so the
+   * note's full amount is withdrawn.
    */
   async withdraw(
     userAddress: string,
-    amount: string,
-    zkProof: string
+    amount: string
   ): Promise<WithdrawalResult> {
     console.log('💸 Processing withdrawal:', { userAddress, amount });
 
     try {
-      // Calculate TDS
-      const tdsCalc = this.calculateTDS(amount);
-      
-      // Generate nullifier hash to prevent double spending
-      const nullifierHash = keccak256(
-        encodePacked(
-          ['address', 'uint256', 'string', 'uint256'],
-          [userAddress as `0x${string}`, tdsCalc.grossAmount, zkProof, BigInt(Date.now())]
-        )
-      );
+      const account = this.getWalletAccount(userAddress);
 
-      // Mock transaction hash
-      const txHash = keccak256(
-        encodePacked(
-          ['string', 'address', 'uint256'],
-          ['withdraw', userAddress as `0x${string}`, tdsCalc.grossAmount]
-        )
-      );
+      // Spend one of our notes - its nullifier hash prevents double spending
+      const note = await noteStore.selectNoteForAmount(parseEther(amount));
+      if (!note) {
+        throw new Error('No unspent note covers this amount');
+      }
+
+      const merklePath = await this.getMerklePath(note.commitment);
+      const calldata = await moproService.generateWithdrawProof(note, merklePath, account);
+
+      const txHash = await writeContract(wagmiConfig, {
+        account,
+        address: this.getContracts().zkETHerToken,
+        abi: ZKETHER_TOKEN_ABI,
+        functionName: 'withdraw',
+        args: [calldata.amount, calldata.nullifierHash, calldata.proof]
+      });
+      console.log('📤 Withdrawal submitted:', txHash);
 
-      // Simulate blockchain delay
-      await this.delay(3000);
+      const receipt = await this.waitForSuccess(txHash);
+      await noteStore.markSpent(note.commitment);
+
+      const [withdrawalEvent] = parseEventLogs({ abi: ZKETHER_TOKEN_ABI, eventName: 'Withdrawal', logs: receipt.logs });
+      if (!withdrawalEvent) {
+        throw new Error('Withdrawal event not found in transaction receipt');
+      }
+      const tds = this.decodeTDS(receipt);
 
       console.log('✅ Withdrawal successful:', {
         txHash,
-        netAmount: tdsCalc.formatted.net,
-        tdsDeducted: tdsCalc.formatted.tds
+        block: receipt.blockNumber.toString(),
+        netAmount: formatEther(withdrawalEvent.args.amount),
+        tdsDeducted: formatEther(tds?.tdsAmount ?? 0n)
       });
 
       return {
         success: true,
         transactionHash: txHash,
-        grossAmount: tdsCalc.formatted.gross,
-        tdsAmount: tdsCalc.formatted.tds,
-        netAmount: tdsCalc.formatted.net,
-        nullifierHash
+        grossAmount: formatEther(calldata.amount),
+        tdsAmount: formatEther(tds?.tdsAmount ?? 0n),
+        netAmount: formatEther(withdrawalEvent.args.amount),
+        nullifierHash: withdrawalEvent.args.nullifierHash
       };
 
     } catch (error) {
@@ -332,32 +405,35 @@ class ZkETHerTokenService {
     console.log('🔄 Processing transfer:', { fromAddress, toAddress, amount });
 
     try {
-      // Calculate TDS
-      const tdsCalc = this.calculateTDS(amount);
-
-      // Mock transaction hash
-      const txHash = keccak256(
-        encodePacked(
-          ['string', 'address', 'address', 'uint256'],
-          ['transfer', fromAddress as `0x${string}`, toAddress as `0x${string}`, tdsCalc.grossAmount]
-        )
-      );
+      const account = this.getWalletAccount(fromAddress);
+      const grossAmount = parseEther(amount);
+
+      const txHash = await writeContract(wagmiConfig, {
+        account,
+        address: this.getContracts().zkETHerToken,
+        abi: ZKETHER_TOKEN_ABI,
+        functionName: 'transferWithTDS',
+        args: [toAddress as `0x${string}`, grossAmount]
+      });
+      console.log('📤 Transfer submitted:', txHash);
 
-      // Simulate blockchain delay
-      await this.delay(2500);
+      const receipt = await this.waitForSuccess(txHash);
+      const tds = this.decodeTDS(receipt);
+      const netAmount = tds?.netAmount ?? grossAmount;
 
       console.log('✅ Transfer successful:', {
         txHash,
-        netAmount: tdsCalc.formatted.net,
-        tdsDeducted: tdsCalc.formatted.tds
+        block: receipt.blockNumber.toString(),
+        netAmount: formatEther(netAmount),
+        tdsDeducted: formatEther(tds?.tdsAmount ?? 0n)
       });
 
       return {
         success: true,
         transactionHash: txHash,
-        grossAmount: tdsCalc.formatted.gross,
-        tdsAmount: tdsCalc.formatted.tds,
-        netAmount: tdsCalc.formatted.net,
+        grossAmount: formatEther(grossAmount),
+        tdsAmount: formatEther(tds?.tdsAmount ?? 0n),
+        netAmount: formatEther(netAmount),
         recipient: toAddress
       };
 
@@ -390,12 +466,76 @@ class ZkETHerTokenService {
     return formatEther(parseEther('0.05')); // Mock 0.05 ETH collected
   }
 
+  /**
+   * Bring the local deposit tree mirror up to date with the chain
+   */
+  async syncDepositTree(): Promise<DepositTree> {
+    if (!this.isInitialized || !this.depositTree) {
+      throw new Error('zkETHer Token service not initialized');
+    }
+
+    await this.depositTree.sync();
+    console.log('🌳 Deposit tree synced:', {
+      leaves: this.depositTree.leafCount,
+      root: '0x' + this.depositTree.root.toString(16).slice(0, 8) + '...'
+    });
+    return this.depositTree;
+  }
+
+  /**
+   * Count deposits in the pool - the anonymity set every note hides in
+   */
+  async getDepositCount(): Promise<number> {
+    try {
+      const tree = await this.syncDepositTree();
+      return tree.leafCount;
+    } catch (error) {
+      console.error('❌ Failed to count deposits:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Merkle authentication path for a deposited commitment against the latest root
+   */
+  async getMerklePath(commitment: string): Promise<MerklePath> {
+    const tree = await this.syncDepositTree();
+    return tree.getPath(commitment);
+  }
+
+  /**
+   * Read-only client for services that follow token events themselves (e.g. the note scanner)
+   */
+  getPublicClient(): PublicClient {
+    if (!this.isInitialized) {
+      throw new Error('zkETHer Token service not initialized');
+    }
+    return this.publicClient;
+  }
+
+  /**
+   * zkETHer token contract address
+   */
+  getTokenAddress(): `0x${string}` {
+    return this.getContracts().zkETHerToken;
+  }
+
+  /**
+   * Contracts of the deployment on the wallet's current chain
+   */
+  getContracts(): DeploymentContracts {
+    if (!this.deployment) {
+      throw new Error("zkETHer is not deployed on the wallet's current chain");
+    }
+    return this.deployment.contracts;
+  }
+
   /**
    * Check if user is verified for token operations
    */
   async isUserVerified(userAddress: string): Promise<boolean> {
     console.log('🔍 Checking verification status for:', userAddress);
-    console.log('📞 Calling ClaimIssuer contract at:', CONTRACT_ADDRESSES.CLAIM_ISSUER);
+    console.log('📞 Calling ClaimIssuer contract at:', this.deployment?.contracts.claimIssuer);
 
     try {
       if (!this.isInitialized) {
@@ -404,16 +544,8 @@ class ZkETHerTokenService {
 
       // Check if user has OnchainID through ClaimIssuer
       const onchainId = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESSES.CLAIM_ISSUER as `0x${string}`,
-        abi: [
-          {
-            "inputs": [{"name": "user", "type": "address"}],
-            "name": "userToIdentity",
-            "outputs": [{"name": "", "type": "address"}],
-            "stateMutability": "view",
-            "type": "function"
-          }
-        ],
+        address: this.getContracts().claimIssuer,
+        abi: CLAIM_ISSUER_ABI,
         functionName: 'userToIdentity',
         args: [userAddress as `0x${string}`]
       });
@@ -431,7 +563,7 @@ class ZkETHerTokenService {
       console.error('🔍 Error details:', {
         message: error instanceof Error ? error.message : 'Unknown error',
         userAddress,
-        claimIssuerContract: CONTRACT_ADDRESSES.CLAIM_ISSUER
+        claimIssuerContract: this.deployment?.contracts.claimIssuer
       });
       
       // Return false on error for safety
@@ -440,27 +572,37 @@ class ZkETHerTokenService {
   }
 
   /**
-   * Generate zero-knowledge proof (mock implementation)
+   * Publish `publicKey` as the user's ZKETHER_PRIVACY_KEY claim so senders encrypt notes to it
+   * The user's wallet sends the transaction; the user must already have an ONCHAINID
    */
-  generateZKProof(
-    userAddress: string,
-    amount: string,
-    operation: 'deposit' | 'withdraw' | 'transfer'
-  ): string {
-    // Mock proof generation
-    const proofData = encodePacked(
-      ['address', 'uint256', 'string', 'uint256'],
-      [userAddress as `0x${string}`, parseEther(amount), operation, BigInt(Date.now())]
-    );
-    
-    return keccak256(proofData);
+  async publishPrivacyKey(userAddress: string, publicKey: string): Promise<`0x${string}`> {
+    const account = this.getWalletAccount(userAddress);
+
+    const txHash = await writeContract(wagmiConfig, {
+      account,
+      address: this.getContracts().claimIssuer,
+      abi: CLAIM_ISSUER_ABI,
+      functionName: 'publishPrivacyKey',
+      args: [publicKey as `0x${string}`]
+    });
+    console.log('📤 Privacy key publication submitted:', txHash);
+
+    await this.waitForSuccess(txHash);
+    console.log('✅ Privacy key published:', { userAddress, publicKey: publicKey.slice(0, 10) + '...' });
+    return txHash;
   }
 
   /**
-   * Get contract addresses
+   * Privacy keys the user has published, oldest first; the last one is current
    */
-  getContractAddresses() {
-    return CONTRACT_ADDRESSES;
+  async getPublishedPrivacyKeys(userAddress: string): Promise<string[]> {
+    const keys = await this.publicClient.readContract({
+      address: this.getContracts().claimIssuer,
+      abi: CLAIM_ISSUER_ABI,
+      functionName: 'getPrivacyKeyHistory',
+      args: [userAddress as `0x${string}`]
+    });
+    return [...keys];
   }
 
   /**
@@ -470,6 +612,116 @@ class ZkETHerTokenService {
     return this.isInitialized;
   }
 
+  /**
+   * Transactions are signed by the connected wallet, which must be the account we act for
+   */
+  private getWalletAccount(userAddress: string): `0x${string}` {
+    const { address } = getAccount(wagmiConfig);
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+    if (address.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error(`Connected wallet ${address} does not match ${userAddress}`);
+    }
+    return address;
+  }
+
+  /**
+   * TDS the contract will deduct from `grossAmount`, at its current rate
+   */
+  private async readTDS(grossAmount: bigint): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.getContracts().zkETHerToken,
+      abi: ZKETHER_TOKEN_ABI,
+      functionName: 'calculateTDS',
+      args: [grossAmount]
+    });
+  }
+
+  private async waitForSuccess(hash: `0x${string}`): Promise<TransactionReceipt> {
+    const receipt = await waitForTransactionReceipt(wagmiConfig, { hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Transaction ${hash} reverted`);
+    }
+    return receipt;
+  }
+
+  /**
+   * TDSDeducted is only emitted when some TDS was actually deducted
+   */
+  private decodeTDS(receipt: TransactionReceipt): { grossAmount: bigint; tdsAmount: bigint; netAmount: bigint } | null {
+    const [event] = parseEventLogs({ abi: ZKETHER_TOKEN_ABI, eventName: 'TDSDeducted', logs: receipt.logs });
+    return event ? event.args : null;
+  }
+
+  /**
+   * The note commits to the net amount read from calculateTDS before submitting; if the TDS rate changed
+   * before the deposit was mined, the contract minted a different amount. Returns a message in that case.
+   */
+  mintedAmountMismatch(receipt: TransactionReceipt, commitment: `0x${string}`, committed: bigint): string | undefined {
+    const depositEvent = parseEventLogs({ abi: ZKETHER_TOKEN_ABI, eventName: 'Deposit', logs: receipt.logs })
+      .find(event => event.args.commitment.toLowerCase() === commitment.toLowerCase());
+    if (!depositEvent || depositEvent.args.amount === committed) return undefined;
+
+    const message = `The contract minted ${formatEther(depositEvent.args.amount)} zkETH, but the note holds ${formatEther(committed)} zkETH - the TDS rate changed while the deposit was pending`;
+    console.warn('⚠️', message);
+    return message;
+  }
+
+  /**
+   * Persist a note we just deposited to ourselves
+   */
+  async storeDepositedNote(
+    receipt: TransactionReceipt,
+    note: NoteSecrets & { commitment: `0x${string}` },
+    amount: bigint,
+    owner: ReceivingKey
+  ): Promise<void> {
+    const tree = await this.syncDepositTree();
+    const leafIndex = tree.indexOf(note.commitment);
+    if (leafIndex < 0) {
+      throw new Error('Deposit commitment not found in the deposit tree');
+    }
+    const block = await getBlock(wagmiConfig, { blockNumber: receipt.blockNumber });
+
+    await noteStore.addNote({
+      amount: amount.toString(),
+      secret: note.secret,
+      nullifier: note.nullifier,
+      commitment: note.commitment,
+      leafIndex,
+      depositBlock: Number(receipt.blockNumber),
+      depositTimestamp: Number(block.timestamp) * 1000,
+      ownerPublicKey: owner.publicKey,
+      spendingKeyHash: owner.spendingKeyHash,
+      spent: false
+    });
+  }
+
+  /**
+   * storeDepositedNote with a few retries for a lagging RPC; returns the last error instead of throwing
+   */
+  async retryStoreDepositedNote(
+    receipt: TransactionReceipt,
+    note: NoteSecrets & { commitment: `0x${string}` },
+    amount: bigint,
+    owner: ReceivingKey
+  ): Promise<string | undefined> {
+    const attempts = 3;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        await this.storeDepositedNote(receipt, note, amount, owner);
+        return undefined;
+      } catch (error) {
+        console.warn(`⚠️ Storing deposited note failed (attempt ${attempt}/${attempts}):`, error);
+        if (attempt === attempts) {
+          return error instanceof Error ? error.message : 'Unknown error';
+        }
+        await this.delay(1000 * attempt);
+      }
+    }
+  }
+
   /**
    * Utility function to simulate blockchain delays
    */
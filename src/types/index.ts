@@ -43,13 +43,19 @@ export interface Transaction {
   isCompliant?: boolean;
 }
 
-// Mock note types (for withdrawal)
-export interface MockNote {
-  id: string;
-  amount: number;
-  received: string;
-  privacySet: number;
-  isRecommended: boolean;
+// Shielded note types
+export interface Note {
+  amount: string;          // wei, decimal string
+  secret: string;          // field element, 0x-prefixed hex
+  nullifier: string;       // nullifier preimage, 0x-prefixed hex
+  commitment: string;      // bytes32 emitted in the Deposit event
+  leafIndex: number;       // position of the commitment in the deposit tree
+  depositBlock: number;
+  depositTimestamp: number; // unix ms of the deposit block
+  ownerPublicKey: string;  // X25519 public key the note was created for
+  spendingKeyHash: string; // owner's Poseidon(spendSecret), committed in the note
+  spent: boolean;
+  spentTimestamp?: number; // unix ms the withdrawal was recorded; unset for notes a scan found spent
 }
 
 // Privacy metrics
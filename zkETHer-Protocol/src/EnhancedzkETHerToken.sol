@@ -4,6 +4,8 @@ pragma solidity ^0.8.20;
 import "../lib/ERC-3643/contracts/token/Token.sol";
 import "./SandboxAPITypes.sol";
 import "./interfaces/IzkETHerToken.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
 
 /**
  * @title EnhancedzkETHerToken
@@ -37,6 +39,7 @@ contract EnhancedzkETHerToken is Token, IzkETHerToken {
     modifier validSandboxResponse(SandboxAPITypes.TDSCalculationResponse memory _response) {
         require(bytes(_response.transaction_id).length > 0, "Invalid transaction ID");
         require(!processedTransactions[_response.transaction_id], "Transaction already processed");
+        require(verifySandboxTDSSignature(_response), "Invalid Sandbox signature");
         _;
     }
 
@@ -100,7 +103,7 @@ contract EnhancedzkETHerToken is Token, IzkETHerToken {
     /**
      * @notice Standard deposit with local TDS calculation (fallback)
      */
-    function deposit(bytes32 _commitment) external payable override whenNotPaused onlyVerifiedUser {
+    function deposit(bytes32 _commitment) public payable override whenNotPaused onlyVerifiedUser {
         require(msg.value > 0, "Must deposit ETH");
         require(!commitments[_commitment], "Commitment already exists");
         
@@ -119,6 +122,15 @@ contract EnhancedzkETHerToken is Token, IzkETHerToken {
         emit Deposit(msg.sender, netAmount, _commitment);
     }
 
+    /**
+     * @notice Deposit and publish the note secrets encrypted to the recipient's X25519 key
+     */
+    function depositWithNote(bytes32 _commitment, bytes calldata _encryptedNote) external payable override {
+        require(_encryptedNote.length > 0, "Empty encrypted note");
+        deposit(_commitment);
+        emit EncryptedNote(_commitment, _encryptedNote);
+    }
+
     /**
      * @notice Withdraw with Sandbox TDS calculation and zkETHer proof
      */
@@ -279,14 +291,31 @@ contract EnhancedzkETHerToken is Token, IzkETHerToken {
 
     /**
      * @notice Validate Sandbox TDS response
+     * @dev The Sandbox key personal-signs (EIP-191) the hash of every field except the signature
      */
     function verifySandboxTDSSignature(
         SandboxAPITypes.TDSCalculationResponse memory _response
-    ) public pure override returns (bool) {
-        // Simple validation: check required fields are present
-        return bytes(_response.transaction_id).length > 0 && 
-               _response.gross_amount > 0 &&
-               _response.net_amount > 0;
+    ) public view override returns (bool) {
+        if (bytes(_response.transaction_id).length == 0 ||
+            _response.gross_amount == 0 ||
+            _response.net_amount == 0 ||
+            _response.tds_amount + _response.net_amount != _response.gross_amount) {
+            return false;
+        }
+
+        bytes32 dataHash = keccak256(abi.encode(
+            _response.transaction_id,
+            _response.gross_amount,
+            _response.tds_rate,
+            _response.tds_amount,
+            _response.net_amount,
+            _response.tds_certificate
+        ));
+        (address signer, ECDSA.RecoverError error, ) = ECDSA.tryRecover(
+            MessageHashUtils.toEthSignedMessageHash(dataHash),
+            _response.signature
+        );
+        return error == ECDSA.RecoverError.NoError && signer == sandboxPublicKey;
     }
 
     /**
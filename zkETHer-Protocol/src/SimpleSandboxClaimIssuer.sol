@@ -3,6 +3,7 @@ pragma solidity ^0.8.20;
 
 import "@onchain-id/solidity/contracts/ClaimIssuer.sol";
 import "@onchain-id/solidity/contracts/interface/IIdentity.sol";
+import "./SandboxAPITypes.sol";
 
 /**
  * @title SimpleSandboxClaimIssuer
@@ -15,6 +16,8 @@ contract SimpleSandboxClaimIssuer is ClaimIssuer {
     uint256 public constant PAN_VERIFIED = 1002;
     uint256 public constant FACE_MATCHED = 1003;
     uint256 public constant ZKETHER_ELIGIBLE = 1004;
+    // Self-published by the user: abi.encode(bytes32 X25519 public key, uint256 published at)
+    uint256 public constant ZKETHER_PRIVACY_KEY = 1005;
     
     // Sandbox API public key for signature verification
     address public sandboxPublicKey;
@@ -28,11 +31,15 @@ contract SimpleSandboxClaimIssuer is ClaimIssuer {
     // Internal claim storage (user => topic => claim data)
     mapping(address => mapping(uint256 => bytes)) public userClaims;
     mapping(address => mapping(uint256 => bool)) public hasUserClaim;
+
+    // Every zkETHer privacy key a user has published, oldest first (user => keys)
+    mapping(address => bytes32[]) internal privacyKeys;
     
     // Events
     event ClaimIssuedFromSandbox(address indexed identity, uint256 indexed topic, string verificationId);
     event SandboxPublicKeyUpdated(address oldKey, address newKey);
     event IdentityCreated(address indexed user, address indexed identity);
+    event PrivacyKeyPublished(address indexed identity, address indexed user, bytes32 publicKey, uint256 keyIndex);
 
     /**
      * @dev Constructor
@@ -65,12 +72,44 @@ contract SimpleSandboxClaimIssuer is ClaimIssuer {
 
     /**
      * @notice Validate Sandbox API response
-     * @param apiResponse The API response to validate
-     * @return True if response is valid
+     * @param apiResponse ABI-encoded SandboxAPITypes.VerificationResponse
+     * @return True if the response reports success and is signed by sandboxPublicKey
+     */
+    function validateSandboxResponse(bytes memory apiResponse) public view returns (bool) {
+        if (apiResponse.length == 0) {
+            return false;
+        }
+
+        try this.decodeSandboxResponse(apiResponse) returns (SandboxAPITypes.VerificationResponse memory response) {
+            return keccak256(bytes(response.status)) == keccak256(bytes("success")) &&
+                getRecoveredAddress(response.signature, sandboxResponseHash(response)) == sandboxPublicKey;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * @notice Decode an ABI-encoded Sandbox verification response
+     * @dev External so validateSandboxResponse can catch malformed input instead of reverting
      */
-    function validateSandboxResponse(bytes memory apiResponse) public pure returns (bool) {
-        // Simple validation: check if response is not empty
-        return apiResponse.length > 0;
+    function decodeSandboxResponse(bytes calldata apiResponse) external pure returns (SandboxAPITypes.VerificationResponse memory) {
+        return abi.decode(apiResponse, (SandboxAPITypes.VerificationResponse));
+    }
+
+    /**
+     * @notice Hash the Sandbox key signs: personal-sign (EIP-191) hash over every field except the signature
+     * @param response Sandbox verification response
+     */
+    function sandboxResponseHash(SandboxAPITypes.VerificationResponse memory response) public pure returns (bytes32) {
+        bytes32 dataHash = keccak256(abi.encode(
+            response.verification_id,
+            response.status,
+            response.timestamp,
+            response.verification_type,
+            response.confidence_score,
+            response.extracted_data
+        ));
+        return keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", dataHash));
     }
 
     /**
@@ -175,6 +214,43 @@ contract SimpleSandboxClaimIssuer is ClaimIssuer {
         emit ClaimIssuedFromSandbox(userIdentity, ZKETHER_ELIGIBLE, verificationId);
     }
 
+    /**
+     * @notice Publish the sender's current zkETHer privacy key as their ZKETHER_PRIVACY_KEY claim
+     * @dev Earlier keys stay in the history so notes sent to them can still be attributed
+     * @param publicKey X25519 public key notes should be encrypted to
+     */
+    function publishPrivacyKey(bytes32 publicKey) external {
+        address identity = userToIdentity[msg.sender];
+        require(identity != address(0), "Identity not found for sender");
+        require(publicKey != bytes32(0), "Invalid privacy key");
+
+        bytes32[] storage keys = privacyKeys[msg.sender];
+        require(keys.length == 0 || keys[keys.length - 1] != publicKey, "Privacy key already published");
+        keys.push(publicKey);
+
+        userClaims[msg.sender][ZKETHER_PRIVACY_KEY] = abi.encode(publicKey, block.timestamp);
+        hasUserClaim[msg.sender][ZKETHER_PRIVACY_KEY] = true;
+
+        emit PrivacyKeyPublished(identity, msg.sender, publicKey, keys.length - 1);
+    }
+
+    /**
+     * @notice Current zkETHer privacy key of a user (zero if none was published)
+     * @param user User address
+     */
+    function getPrivacyKey(address user) external view returns (bytes32) {
+        bytes32[] storage keys = privacyKeys[user];
+        return keys.length == 0 ? bytes32(0) : keys[keys.length - 1];
+    }
+
+    /**
+     * @notice Every privacy key a user has published, oldest first
+     * @param user User address
+     */
+    function getPrivacyKeyHistory(address user) external view returns (bytes32[] memory) {
+        return privacyKeys[user];
+    }
+
     /**
      * @notice Check if user has a valid claim for a topic
      * @param userIdentity User's ONCHAINID contract address
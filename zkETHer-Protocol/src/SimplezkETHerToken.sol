@@ -29,6 +29,7 @@ contract SimplezkETHerToken is Token {
     
     // Events
     event Deposit(address indexed user, uint256 amount, bytes32 commitment);
+    event EncryptedNote(bytes32 indexed commitment, bytes encryptedNote);
     event Withdrawal(address indexed user, uint256 amount, bytes32 nullifierHash);
     event TDSDeducted(address indexed user, uint256 grossAmount, uint256 tdsAmount, uint256 netAmount);
     event TDSRateUpdated(uint256 oldRate, uint256 newRate);
@@ -69,7 +70,7 @@ contract SimplezkETHerToken is Token {
      * @notice Deposit ETH and mint zkETH tokens with TDS deduction
      * @param _commitment zkETHer commitment hash
      */
-    function deposit(bytes32 _commitment) external payable whenNotPaused {
+    function deposit(bytes32 _commitment) public payable whenNotPaused {
         require(msg.value > 0, "Must deposit ETH");
         require(_tokenIdentityRegistry.isVerified(msg.sender), "Identity not verified");
         require(!commitments[_commitment], "Commitment already exists");
@@ -94,6 +95,17 @@ contract SimplezkETHerToken is Token {
         emit Deposit(msg.sender, netAmount, _commitment);
     }
 
+    /**
+     * @notice Deposit and publish the note secrets encrypted to the recipient's X25519 key
+     * @param _commitment zkETHer commitment hash
+     * @param _encryptedNote Sealed note, readable only by the recipient
+     */
+    function depositWithNote(bytes32 _commitment, bytes calldata _encryptedNote) external payable {
+        require(_encryptedNote.length > 0, "Empty encrypted note");
+        deposit(_commitment);
+        emit EncryptedNote(_commitment, _encryptedNote);
+    }
+
     /**
      * @notice Withdraw ETH by burning zkETH tokens with zero-knowledge proof
      * @param _amount Amount to withdraw
@@ -11,6 +11,7 @@ interface IzkETHerToken {
     
     // Events
     event Deposit(address indexed user, uint256 amount, bytes32 commitment);
+    event EncryptedNote(bytes32 indexed commitment, bytes encryptedNote);
     event Withdrawal(address indexed user, uint256 amount, bytes32 nullifierHash);
     event TDSDeducted(address indexed user, uint256 grossAmount, uint256 tdsAmount, uint256 netAmount);
     event TDSRateUpdated(uint256 oldRate, uint256 newRate);
@@ -20,6 +21,8 @@ interface IzkETHerToken {
     // Core zkETHer functions
     function deposit(bytes32 _commitment) external payable;
     
+    function depositWithNote(bytes32 _commitment, bytes calldata _encryptedNote) external payable;
+    
     function withdraw(
         uint256 _amount,
         bytes32 _nullifierHash,